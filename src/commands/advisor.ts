@@ -4,6 +4,7 @@ import { type Command } from 'commander';
 import ora from 'ora';
 import { client } from '../lib/client.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import {
   configureContextHelp,
   addTenantOption,
@@ -200,8 +201,7 @@ export function registerAdvisorCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to run audit');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -244,8 +244,7 @@ export function registerAdvisorCommands(program: Command): void {
         output.info(`Total: ${rules.length} rules`);
       } catch (err) {
         spinner.fail('Failed to list rules');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -323,8 +322,7 @@ export function registerAdvisorCommands(program: Command): void {
         console.log(`  ${result.reasoning}`);
       } catch (err) {
         spinner.fail('Failed to get suggestions');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -367,8 +365,7 @@ export function registerAdvisorCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to check LLM status');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -404,8 +401,7 @@ export function registerAdvisorCommands(program: Command): void {
         });
       } catch (err) {
         spinner.fail('Failed to get LLM configuration');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -449,8 +445,7 @@ export function registerAdvisorCommands(program: Command): void {
         });
       } catch (err) {
         spinner.fail('Failed to update LLM configuration');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -480,8 +475,7 @@ export function registerAdvisorCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to test LLM connection');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -499,8 +493,7 @@ export function registerAdvisorCommands(program: Command): void {
         output.success('LLM configuration deleted');
       } catch (err) {
         spinner.fail('Failed to delete LLM configuration');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
@@ -4,6 +4,7 @@ import { type Command } from 'commander';
 import ora from 'ora';
 import * as mode from '../lib/mode.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 
 /**
  * Format relative time for display
@@ -218,8 +219,7 @@ export function registerAgentCommands(program: Command): void {
         );
       } catch (err) {
         spinner.fail('Failed to fetch agents');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -268,8 +268,7 @@ export function registerAgentCommands(program: Command): void {
         );
       } catch (err) {
         spinner.fail('Failed to fetch connections');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -388,8 +387,7 @@ export function registerAgentCommands(program: Command): void {
 
       } catch (err) {
         spinner.fail('Failed to fetch agent status');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -429,8 +427,7 @@ export function registerAgentCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to update alerts');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -463,8 +460,7 @@ export function registerAgentCommands(program: Command): void {
         spinner.succeed('Agent deleted');
       } catch (err) {
         spinner.fail('Failed to delete agent');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -517,8 +513,7 @@ export function registerAgentCommands(program: Command): void {
         console.log('The token can only be used once and expires in 15 minutes.');
       } catch (err) {
         spinner.fail('Failed to generate reprovision token');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -575,8 +570,7 @@ export function registerAgentCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to fetch reprovision status');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -610,8 +604,7 @@ export function registerAgentCommands(program: Command): void {
         console.log('The agent will need a new token to be reprovisioned.');
       } catch (err) {
         spinner.fail('Failed to cancel reprovision token');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -681,8 +674,7 @@ export function registerAgentCommands(program: Command): void {
         console.log(`    -d '{"token": "${response.token}"}'`);
       } catch (err) {
         spinner.fail('Failed to create registration token');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -756,8 +748,7 @@ export function registerAgentCommands(program: Command): void {
         );
       } catch (err) {
         spinner.fail('Failed to fetch registration tokens');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -801,8 +792,7 @@ export function registerAgentCommands(program: Command): void {
         spinner.succeed('Registration token revoked');
       } catch (err) {
         spinner.fail('Failed to revoke registration token');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -6,6 +6,7 @@ import ora from 'ora';
 import Table from 'cli-table3';
 import { client } from '../lib/client.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import type { APIKey, ManagedAPIKey, RotationMode } from '../types/index.js';
 
 // ============================================================================
@@ -352,8 +353,7 @@ export function registerApiKeyCommands(program: Command): void {
         console.log(`\nTotal: ${result.keys.length} API key(s)`);
       } catch (err) {
         spinner.fail('Failed to list API keys');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -509,8 +509,7 @@ export function registerApiKeyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to create API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -588,8 +587,7 @@ export function registerApiKeyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to fetch API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -613,8 +611,7 @@ export function registerApiKeyCommands(program: Command): void {
         spinner.succeed(`API key deleted: ${id}`);
       } catch (err) {
         spinner.fail('Failed to delete API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -652,8 +649,7 @@ export function registerApiKeyCommands(program: Command): void {
         });
       } catch (err) {
         spinner.fail('Failed to rotate API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -671,8 +667,7 @@ export function registerApiKeyCommands(program: Command): void {
         console.log('\nThe key can now be used for authentication.');
       } catch (err) {
         spinner.fail('Failed to enable API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -691,8 +686,7 @@ export function registerApiKeyCommands(program: Command): void {
         console.log('Use "znvault apikey enable" to re-enable it.');
       } catch (err) {
         spinner.fail('Failed to disable API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -763,8 +757,7 @@ export function registerApiKeyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to update permissions');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -862,8 +855,7 @@ export function registerApiKeyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to update conditions');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -907,8 +899,7 @@ export function registerApiKeyCommands(program: Command): void {
         console.log(`\nTotal: ${result.policies.length} policy/policies`);
       } catch (err) {
         spinner.fail('Failed to fetch policies');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -925,8 +916,7 @@ export function registerApiKeyCommands(program: Command): void {
         spinner.succeed(`Policy ${policyId} attached to API key ${keyId}`);
       } catch (err) {
         spinner.fail('Failed to attach policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -943,8 +933,7 @@ export function registerApiKeyCommands(program: Command): void {
         spinner.succeed(`Policy ${policyId} detached from API key ${keyId}`);
       } catch (err) {
         spinner.fail('Failed to detach policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -1001,9 +990,10 @@ export function registerApiKeyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to fetch API key info');
-        output.error(err instanceof Error ? err.message : String(err));
-        console.log('\nNote: This command only works when authenticated via API key (X-API-Key header).');
-        process.exit(1);
+        if (!options.json) {
+          console.log('\nNote: This command only works when authenticated via API key (X-API-Key header).\n');
+        }
+        exitWithError(err);
       }
     });
 
@@ -1041,9 +1031,10 @@ export function registerApiKeyCommands(program: Command): void {
         });
       } catch (err) {
         spinner.fail('Failed to rotate API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        console.log('\nNote: This command only works when authenticated via API key (X-API-Key header).');
-        process.exit(1);
+        if (!options.json) {
+          console.log('\nNote: This command only works when authenticated via API key (X-API-Key header).\n');
+        }
+        exitWithError(err);
       }
     });
 
@@ -1104,8 +1095,7 @@ export function registerApiKeyCommands(program: Command): void {
         console.log(`\nTotal: ${result.keys.length} managed API key(s)`);
       } catch (err) {
         spinner.fail('Failed to list managed API keys');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -1189,8 +1179,7 @@ export function registerApiKeyCommands(program: Command): void {
         displayManagedKeyDetails(result.apiKey);
       } catch (err) {
         spinner.fail('Failed to create managed API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -1216,8 +1205,7 @@ export function registerApiKeyCommands(program: Command): void {
         displayManagedKeyDetails(key);
       } catch (err) {
         spinner.fail('Failed to fetch managed API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -1266,8 +1254,7 @@ export function registerApiKeyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to bind to managed API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -1290,8 +1277,7 @@ export function registerApiKeyCommands(program: Command): void {
         console.log('\nUse "znvault apikey managed bind <name>" to get the new key value.');
       } catch (err) {
         spinner.fail('Failed to rotate managed API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -1340,8 +1326,7 @@ export function registerApiKeyCommands(program: Command): void {
         });
       } catch (err) {
         spinner.fail('Failed to update configuration');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -1365,8 +1350,7 @@ export function registerApiKeyCommands(program: Command): void {
         spinner.succeed(`Managed API key deleted: ${name}`);
       } catch (err) {
         spinner.fail('Failed to delete managed API key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -1442,8 +1426,7 @@ export function registerApiKeyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to update permissions');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -1547,8 +1530,7 @@ export function registerApiKeyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to update conditions');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
@@ -0,0 +1,146 @@
+// Path: znvault-cli/src/commands/apply/dump.ts
+// Export the current vault configuration as a manifest (no secret values)
+
+import ora from 'ora';
+import { client } from '../../lib/client.js';
+import * as output from '../../lib/output.js';
+import { exitWithError } from '../../lib/errors.js';
+import { writeSecretFile } from '../../lib/secrets.js';
+import { formatManifest } from './manifest.js';
+import { fetchRoles, fetchPolicies, fetchKmsKeys, fetchRecipients } from './state.js';
+import {
+  MANIFEST_API_VERSION,
+  type Manifest,
+  type TenantResources,
+  type TenantSpec,
+  type PolicySpec,
+  type DumpOptions,
+} from './types.js';
+import type { Tenant } from '../../types/index.js';
+
+/**
+ * Drop undefined, null and empty values so the manifest only lists what is set
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) =>
+      v !== undefined && v !== null && v !== '' && !(Array.isArray(v) && v.length === 0)
+    )
+  ) as T;
+}
+
+/**
+ * Read the tenant-scoped resources in manifest form
+ */
+export async function dumpResources(tenant: string | undefined, warnings: string[]): Promise<TenantResources> {
+  const roles = (await fetchRoles(tenant)).filter(r => !r.is_system);
+  const policies = await fetchPolicies(tenant);
+  const kmsKeys = await fetchKmsKeys(tenant);
+  const managedKeys = (await client.listManagedApiKeys(tenant)).keys;
+
+  for (const key of kmsKeys.filter(k => !k.alias)) {
+    warnings.push(`KMS key ${key.keyId}${tenant ? ` (${tenant})` : ''} has no alias and was skipped`);
+  }
+
+  return {
+    roles: roles.map(r => compact({ name: r.name, description: r.description, permissions: r.permissions })),
+    policies: policies.map(p => compact<PolicySpec>({
+      name: p.name,
+      description: p.description,
+      effect: p.effect,
+      actions: p.actions,
+      resources: p.resources,
+      conditions: p.conditions,
+      priority: p.priority,
+      enabled: p.isActive,
+      attachments: p.users.length > 0 || p.roles.length > 0
+        ? compact({ users: p.users, roles: p.roles })
+        : undefined,
+    })),
+    kmsKeys: kmsKeys.filter(k => k.alias).map(k => compact({
+      alias: k.alias ?? '',
+      description: k.description,
+      usage: k.keyUsage,
+      keySpec: k.keySpec,
+      enabled: k.keyState === 'Enabled',
+      tags: k.tags && Object.keys(k.tags).length > 0 ? k.tags : undefined,
+    })),
+    managedApiKeys: managedKeys.map(k => compact({
+      name: k.name,
+      description: k.description ?? undefined,
+      permissions: k.permissions,
+      rotationMode: k.rotation_mode,
+      rotationInterval: k.rotation_interval,
+      gracePeriod: k.grace_period,
+      notifyBefore: k.notify_before,
+      webhookUrl: k.webhook_url,
+    })),
+  };
+}
+
+function tenantSpec(tenant: Tenant, resources: TenantResources): TenantSpec {
+  return {
+    ...compact<TenantSpec>({
+      id: tenant.id,
+      name: tenant.name,
+      // Archived tenants cannot be re-created, so keep them as plain definitions
+      status: tenant.status === 'archived' ? undefined : tenant.status,
+      maxSecrets: tenant.maxSecrets,
+      maxKmsKeys: tenant.maxKmsKeys,
+      contactEmail: tenant.contactEmail,
+    }),
+    // Empty sections are kept so the whole tenant is declared
+    ...resources,
+  };
+}
+
+export async function dumpConfig(options: DumpOptions): Promise<void> {
+  const format = options.format ?? (options.output && /\.json$/i.test(options.output) ? 'json' : 'yaml');
+  if (format !== 'yaml' && format !== 'json') {
+    output.error('Invalid format. Use yaml or json');
+    process.exit(1);
+  }
+
+  const spinner = ora('Reading vault configuration...').start();
+  const warnings: string[] = [];
+
+  try {
+    const manifest: Manifest = { apiVersion: MANIFEST_API_VERSION };
+
+    if (options.tenant) {
+      // Single tenant: resources at the top level, like a hand-written manifest
+      manifest.tenant = options.tenant;
+      Object.assign(manifest, await dumpResources(options.tenant, warnings));
+    } else {
+      const tenants = await client.listTenants();
+      manifest.tenants = [];
+      for (const tenant of tenants) {
+        spinner.text = `Reading tenant ${tenant.id}...`;
+        manifest.tenants.push(tenantSpec(tenant, await dumpResources(tenant.id, warnings)));
+      }
+    }
+
+    const recipients = await fetchRecipients();
+    if (recipients.length > 0) {
+      manifest.notifications = { recipients };
+    }
+
+    spinner.stop();
+    const content = formatManifest(manifest, format);
+
+    for (const warning of warnings) {
+      output.warn(warning);
+    }
+
+    if (options.output) {
+      // Configuration only, but webhook URLs and policies are still sensitive
+      writeSecretFile(options.output, content);
+      output.success(`Configuration written to ${options.output}`);
+    } else {
+      process.stdout.write(content);
+    }
+  } catch (error) {
+    spinner.fail('Failed to read vault configuration');
+    exitWithError(error);
+  }
+}
@@ -0,0 +1,54 @@
+// Path: znvault-cli/src/commands/apply/helpers.ts
+// Helper functions for plan/apply output
+
+import chalk from 'chalk';
+import type { Plan, Change, ChangeAction } from './types.js';
+
+const SYMBOLS: Record<ChangeAction, string> = {
+  create: chalk.green('+'),
+  update: chalk.yellow('~'),
+  delete: chalk.red('-'),
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return chalk.dim('(none)');
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export function formatChange(change: Change): string[] {
+  const tenant = change.tenant ? chalk.dim(` (${change.tenant})`) : '';
+  const lines = [`  ${SYMBOLS[change.action]} ${change.kind} ${chalk.bold(change.name)}${tenant}`];
+
+  for (const field of change.fields) {
+    if (change.action === 'create') {
+      lines.push(`      ${field.field}: ${formatValue(field.to)}`);
+    } else {
+      lines.push(`      ${field.field}: ${formatValue(field.from)} ${chalk.dim('->')} ${formatValue(field.to)}`);
+    }
+  }
+
+  return lines;
+}
+
+export function countChanges(plan: Plan): Record<ChangeAction, number> {
+  const counts: Record<ChangeAction, number> = { create: 0, update: 0, delete: 0 };
+  for (const change of plan.changes) {
+    counts[change.action]++;
+  }
+  return counts;
+}
+
+export function formatPlanSummary(plan: Plan): string {
+  const counts = countChanges(plan);
+  return `Plan: ${counts.create} to create, ${counts.update} to update, ${counts.delete} to delete.`;
+}
+
+export function printPlan(plan: Plan): void {
+  console.log();
+  for (const change of plan.changes) {
+    for (const line of formatChange(change)) {
+      console.log(line);
+    }
+  }
+  console.log();
+}
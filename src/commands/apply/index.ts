@@ -0,0 +1,38 @@
+// Path: znvault-cli/src/commands/apply/index.ts
+// Command registration for declarative configuration (plan/apply/dump-config)
+
+import { type Command } from 'commander';
+import { planManifest, applyManifest } from './operations.js';
+import { dumpConfig } from './dump.js';
+
+export function registerApplyCommands(program: Command): void {
+  // Show changes without applying
+  program
+    .command('plan')
+    .description('Show changes needed to match a vault manifest (YAML or JSON)')
+    .requiredOption('-f, --file <file>', 'Manifest file')
+    .option('-t, --tenant <id>', 'Tenant to manage (overrides manifest)')
+    .option('--prune', 'Include deletions of resources missing from the manifest')
+    .option('--json', 'Output as JSON')
+    .action(planManifest);
+
+  // Apply changes
+  program
+    .command('apply')
+    .description('Apply a vault manifest (YAML or JSON)')
+    .requiredOption('-f, --file <file>', 'Manifest file')
+    .option('-t, --tenant <id>', 'Tenant to manage (overrides manifest)')
+    .option('--prune', 'Delete resources missing from the manifest')
+    .option('-y, --yes', 'Skip confirmation')
+    .option('--json', 'Output as JSON')
+    .action(applyManifest);
+
+  // Export current configuration
+  program
+    .command('dump-config')
+    .description('Export the current vault configuration as a manifest (no secret values)')
+    .option('-t, --tenant <id>', 'Only export this tenant')
+    .option('-o, --output <file>', 'Write to file instead of stdout')
+    .option('--format <format>', 'Output format (yaml, json; default from file extension)')
+    .action(dumpConfig);
+}
@@ -0,0 +1,158 @@
+// Path: znvault-cli/src/commands/apply/manifest.ts
+// Loading and validation of declarative vault manifests (YAML or JSON)
+
+import fs from 'node:fs';
+import YAML from 'yaml';
+import { MANIFEST_API_VERSION, type Manifest, type TenantResources } from './types.js';
+
+function fail(message: string): never {
+  throw new Error(`Invalid manifest: ${message}`);
+}
+
+function requireString(value: unknown, where: string): void {
+  if (typeof value !== 'string' || value === '') {
+    fail(`${where} must be a non-empty string`);
+  }
+}
+
+function requireStringArray(value: unknown, where: string): void {
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+    fail(`${where} must be a list of strings`);
+  }
+}
+
+function requireUniqueNames(items: Array<Record<string, unknown>>, key: string, section: string): void {
+  const seen = new Set<unknown>();
+  for (const item of items) {
+    if (seen.has(item[key])) {
+      fail(`duplicate ${key} "${String(item[key])}" in ${section}`);
+    }
+    seen.add(item[key]);
+  }
+}
+
+function requireList(value: unknown, section: string): Array<Record<string, unknown>> {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) fail(`${section} must be a list`);
+  return value as Array<Record<string, unknown>>;
+}
+
+/**
+ * Validate the tenant-scoped sections (top level or a `tenants` entry)
+ */
+function validateResources(scope: Record<string, unknown>, prefix: string): void {
+  const roles = requireList(scope.roles, `${prefix}roles`);
+  roles.forEach((role, i) => {
+    requireString(role.name, `${prefix}roles[${i}].name`);
+    requireStringArray(role.permissions, `${prefix}roles[${i}].permissions`);
+  });
+  requireUniqueNames(roles, 'name', `${prefix}roles`);
+
+  const policies = requireList(scope.policies, `${prefix}policies`);
+  policies.forEach((policy, i) => {
+    const where = `${prefix}policies[${i}]`;
+    requireString(policy.name, `${where}.name`);
+    if (policy.effect !== 'allow' && policy.effect !== 'deny') {
+      fail(`${where}.effect must be "allow" or "deny"`);
+    }
+    requireStringArray(policy.actions, `${where}.actions`);
+    const attachments = policy.attachments as Record<string, unknown> | undefined;
+    if (attachments?.users !== undefined) requireStringArray(attachments.users, `${where}.attachments.users`);
+    if (attachments?.roles !== undefined) requireStringArray(attachments.roles, `${where}.attachments.roles`);
+  });
+  requireUniqueNames(policies, 'name', `${prefix}policies`);
+
+  const kmsKeys = requireList(scope.kmsKeys, `${prefix}kmsKeys`);
+  kmsKeys.forEach((key, i) => {
+    requireString(key.alias, `${prefix}kmsKeys[${i}].alias`);
+  });
+  requireUniqueNames(kmsKeys, 'alias', `${prefix}kmsKeys`);
+
+  const managedKeys = requireList(scope.managedApiKeys, `${prefix}managedApiKeys`);
+  managedKeys.forEach((key, i) => {
+    const where = `${prefix}managedApiKeys[${i}]`;
+    requireString(key.name, `${where}.name`);
+    requireStringArray(key.permissions, `${where}.permissions`);
+    if (!['scheduled', 'on-use', 'on-bind'].includes(key.rotationMode as string)) {
+      fail(`${where}.rotationMode must be scheduled, on-use or on-bind`);
+    }
+    requireString(key.gracePeriod, `${where}.gracePeriod`);
+  });
+  requireUniqueNames(managedKeys, 'name', `${prefix}managedApiKeys`);
+}
+
+/**
+ * Validate a parsed manifest document
+ */
+export function validateManifest(doc: unknown): Manifest {
+  if (typeof doc !== 'object' || doc === null || Array.isArray(doc)) {
+    fail('document must be a mapping');
+  }
+  const manifest = doc as Record<string, unknown>;
+
+  if (manifest.apiVersion !== MANIFEST_API_VERSION) {
+    fail(`apiVersion must be "${MANIFEST_API_VERSION}"`);
+  }
+  if (manifest.tenant !== undefined) requireString(manifest.tenant, 'tenant');
+
+  validateResources(manifest, '');
+
+  const tenants = requireList(manifest.tenants, 'tenants');
+  tenants.forEach((tenant, i) => {
+    requireString(tenant.id, `tenants[${i}].id`);
+    requireString(tenant.name, `tenants[${i}].name`);
+    if (tenant.status !== undefined && tenant.status !== 'active' && tenant.status !== 'suspended') {
+      fail(`tenants[${i}].status must be "active" or "suspended"`);
+    }
+    validateResources(tenant, `tenants[${i}].`);
+  });
+  requireUniqueNames(tenants, 'id', 'tenants');
+
+  if (manifest.notifications !== undefined) {
+    const notifications = manifest.notifications as Record<string, unknown>;
+    requireStringArray(notifications.recipients, 'notifications.recipients');
+  }
+
+  return manifest as unknown as Manifest;
+}
+
+/**
+ * True if any tenant-scoped section is declared
+ */
+export function hasResources(resources: TenantResources): boolean {
+  return Boolean(resources.roles ?? resources.policies ?? resources.kmsKeys ?? resources.managedApiKeys);
+}
+
+/**
+ * Normalize KMS aliases to the "alias/<name>" form used by the server
+ */
+export function normalizeKmsAlias(alias: string): string {
+  return alias.startsWith('alias/') ? alias : `alias/${alias}`;
+}
+
+/**
+ * Serialize a manifest as YAML or JSON
+ */
+export function formatManifest(manifest: Manifest, format: 'yaml' | 'json'): string {
+  return format === 'json'
+    ? JSON.stringify(manifest, null, 2) + '\n'
+    : YAML.stringify(manifest);
+}
+
+/**
+ * Read a manifest file. YAML is a superset of JSON, so both parse here.
+ */
+export function loadManifest(filePath: string): Manifest {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  let doc: unknown;
+  try {
+    doc = YAML.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Failed to parse ${filePath}: ${(err as Error).message}`);
+  }
+
+  return validateManifest(doc);
+}
@@ -0,0 +1,360 @@
+// Path: znvault-cli/src/commands/apply/operations.ts
+// Plan/apply command implementations
+
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { client } from '../../lib/client.js';
+import * as output from '../../lib/output.js';
+import { exitWithError } from '../../lib/errors.js';
+import { getAuthContext } from '../../lib/auth-context.js';
+import { loadManifest } from './manifest.js';
+import { fetchRemoteState } from './state.js';
+import { buildPlan } from './plan.js';
+import { printPlan, formatPlanSummary } from './helpers.js';
+import type {
+  Plan,
+  Change,
+  RemoteState,
+  PlanOptions,
+  ApplyOptions,
+  RoleSpec,
+  PolicySpec,
+  KmsKeySpec,
+  ManagedKeySpec,
+  NotificationsSpec,
+  TenantSpec,
+} from './types.js';
+
+// Name -> ID lookups for one tenant, updated as resources are created during apply
+interface ApplyContext {
+  tenant?: string;
+  roleIds: Map<string, string>;
+  policyIds: Map<string, string>;
+  userIds: Map<string, string>;
+}
+
+async function computePlan(options: PlanOptions): Promise<{ plan: Plan; remote: RemoteState }> {
+  const manifest = loadManifest(options.file);
+  const tenant = options.tenant ?? manifest.tenant ?? getAuthContext().tenantId;
+  const remote = await fetchRemoteState(manifest, tenant);
+  return { plan: buildPlan(manifest, remote, options.prune ?? false), remote };
+}
+
+function lookup(ids: Map<string, string>, name: string, kind: string): string {
+  const id = ids.get(name);
+  if (!id) {
+    throw new Error(`Unknown ${kind} "${name}"`);
+  }
+  return id;
+}
+
+function requireId(change: Change): string {
+  if (!change.id) {
+    throw new Error(`Missing ID for ${change.kind} "${change.name}"`);
+  }
+  return change.id;
+}
+
+function hasField(change: Change, field: string): boolean {
+  return change.fields.some(f => f.field === field);
+}
+
+async function applyRole(change: Change, ctx: ApplyContext): Promise<void> {
+  const spec = change.spec as RoleSpec;
+
+  if (change.action === 'create') {
+    const body: Record<string, unknown> = { name: spec.name, permissions: spec.permissions };
+    if (ctx.tenant) body.tenantId = ctx.tenant;
+    if (spec.description) body.description = spec.description;
+    const role = await client.post<{ id: string }>('/v1/roles', body);
+    ctx.roleIds.set(spec.name, role.id);
+  } else if (change.action === 'update') {
+    await client.patch(`/v1/roles/${requireId(change)}`, { description: spec.description, permissions: spec.permissions });
+  } else {
+    await client.delete(`/v1/roles/${requireId(change)}`);
+  }
+}
+
+async function applyPolicy(change: Change, ctx: ApplyContext): Promise<void> {
+  const spec = change.spec as PolicySpec;
+
+  if (change.action === 'create') {
+    const policy = await client.createPolicy({
+      name: spec.name,
+      description: spec.description,
+      effect: spec.effect,
+      actions: spec.actions,
+      resources: spec.resources,
+      conditions: spec.conditions,
+      priority: spec.priority,
+      tenantId: ctx.tenant,
+    });
+    ctx.policyIds.set(spec.name, policy.id);
+    if (spec.enabled === false) {
+      await client.togglePolicy(policy.id, false);
+    }
+  } else if (change.action === 'update') {
+    const id = requireId(change);
+    if (change.fields.some(f => f.field !== 'enabled')) {
+      await client.updatePolicy(id, {
+        description: spec.description,
+        effect: spec.effect,
+        actions: spec.actions,
+        resources: spec.resources,
+        conditions: spec.conditions,
+        priority: spec.priority,
+      });
+    }
+    if (hasField(change, 'enabled') && spec.enabled !== undefined) {
+      await client.togglePolicy(id, spec.enabled);
+    }
+  } else {
+    await client.deletePolicy(requireId(change));
+  }
+}
+
+async function applyAttachment(change: Change, ctx: ApplyContext): Promise<void> {
+  if (!change.policy || !change.target) return;
+
+  const policyId = lookup(ctx.policyIds, change.policy, 'policy');
+  const { type, name } = change.target;
+
+  if (type === 'role') {
+    const roleId = lookup(ctx.roleIds, name, 'role');
+    await (change.action === 'create'
+      ? client.attachPolicyToRole(policyId, roleId)
+      : client.detachPolicyFromRole(policyId, roleId));
+  } else {
+    const userId = lookup(ctx.userIds, name, 'user');
+    await (change.action === 'create'
+      ? client.attachPolicyToUser(policyId, userId)
+      : client.detachPolicyFromUser(policyId, userId));
+  }
+}
+
+async function applyKmsKey(change: Change, ctx: ApplyContext): Promise<void> {
+  const spec = change.spec as KmsKeySpec | undefined;
+
+  if (change.action === 'create' && spec) {
+    const body: Record<string, unknown> = { tenant: ctx.tenant, alias: spec.alias };
+    if (spec.description) body.description = spec.description;
+    if (spec.usage) body.usage = spec.usage;
+    if (spec.keySpec) body.keySpec = spec.keySpec;
+    if (spec.tags) {
+      body.tags = Object.entries(spec.tags).map(([key, value]) => ({ key, value }));
+    }
+    const key = await client.post<{ keyId: string }>('/v1/kms/keys', body);
+    if (spec.enabled === false) {
+      await client.post(`/v1/kms/keys/${key.keyId}/disable`, {});
+    }
+  } else if (change.action === 'update' && spec) {
+    await client.post(`/v1/kms/keys/${requireId(change)}/${spec.enabled === false ? 'disable' : 'enable'}`, {});
+  } else if (change.action === 'delete') {
+    await client.delete(`/v1/kms/keys/${requireId(change)}?pendingWindowInDays=30`);
+  }
+}
+
+async function applyManagedKey(change: Change, ctx: ApplyContext): Promise<void> {
+  const spec = change.spec as ManagedKeySpec | undefined;
+
+  if (change.action === 'create' && spec) {
+    await client.createManagedApiKey({
+      name: spec.name,
+      description: spec.description,
+      expiresInDays: spec.expiresInDays,
+      permissions: spec.permissions,
+      tenantId: ctx.tenant,
+      managed: {
+        rotationMode: spec.rotationMode,
+        rotationInterval: spec.rotationInterval,
+        gracePeriod: spec.gracePeriod,
+        notifyBefore: spec.notifyBefore,
+        webhookUrl: spec.webhookUrl,
+      },
+    });
+  } else if (change.action === 'update' && spec) {
+    if (change.fields.some(f => f.field !== 'permissions')) {
+      await client.updateManagedApiKeyConfig(spec.name, {
+        rotationInterval: spec.rotationInterval,
+        gracePeriod: spec.gracePeriod,
+        notifyBefore: spec.notifyBefore,
+        webhookUrl: spec.webhookUrl,
+      }, ctx.tenant);
+    }
+    if (hasField(change, 'permissions')) {
+      await client.updateApiKeyPermissions(requireId(change), spec.permissions, ctx.tenant);
+    }
+  } else if (change.action === 'delete') {
+    await client.deleteManagedApiKey(change.name, ctx.tenant);
+  }
+}
+
+async function applyTenant(change: Change): Promise<void> {
+  const spec = change.spec as TenantSpec;
+
+  if (change.action === 'create') {
+    await client.createTenant({
+      id: spec.id,
+      name: spec.name,
+      maxSecrets: spec.maxSecrets,
+      maxKmsKeys: spec.maxKmsKeys,
+      contactEmail: spec.contactEmail,
+    });
+    if (spec.status === 'suspended') {
+      await client.updateTenant(spec.id, { status: 'suspended' });
+    }
+  } else {
+    await client.updateTenant(spec.id, {
+      name: spec.name,
+      maxSecrets: spec.maxSecrets,
+      maxKmsKeys: spec.maxKmsKeys,
+      contactEmail: spec.contactEmail,
+      status: spec.status,
+    });
+  }
+}
+
+async function applyNotifications(change: Change): Promise<void> {
+  const spec = change.spec as NotificationsSpec;
+  await client.patch('/v1/admin/notifications/recipients', { recipients: spec.recipients.join(',') });
+}
+
+/**
+ * Apply a single planned change
+ */
+export async function applyChange(change: Change, ctx: ApplyContext): Promise<void> {
+  switch (change.kind) {
+    case 'tenant':
+      return applyTenant(change);
+    case 'role':
+      return applyRole(change, ctx);
+    case 'policy':
+      return applyPolicy(change, ctx);
+    case 'attachment':
+      return applyAttachment(change, ctx);
+    case 'kms-key':
+      return applyKmsKey(change, ctx);
+    case 'managed-key':
+      return applyManagedKey(change, ctx);
+    case 'notifications':
+      return applyNotifications(change);
+  }
+}
+
+export async function planManifest(options: PlanOptions): Promise<void> {
+  const spinner = ora('Computing plan...').start();
+
+  try {
+    const { plan } = await computePlan(options);
+    spinner.stop();
+
+    if (options.json) {
+      output.json(plan);
+      return;
+    }
+
+    for (const warning of plan.warnings) {
+      output.warn(warning);
+    }
+
+    if (plan.changes.length === 0) {
+      output.success('No changes. Vault configuration matches the manifest.');
+      return;
+    }
+
+    printPlan(plan);
+    output.info(formatPlanSummary(plan));
+  } catch (error) {
+    spinner.fail('Failed to compute plan');
+    exitWithError(error);
+  }
+}
+
+export async function applyManifest(options: ApplyOptions): Promise<void> {
+  const spinner = ora('Computing plan...').start();
+  let plan: Plan;
+  let remote: RemoteState;
+
+  try {
+    ({ plan, remote } = await computePlan(options));
+    spinner.stop();
+  } catch (error) {
+    spinner.fail('Failed to compute plan');
+    exitWithError(error);
+  }
+
+  if (!options.json) {
+    for (const warning of plan.warnings) {
+      output.warn(warning);
+    }
+  }
+
+  if (plan.changes.length === 0) {
+    if (options.json) {
+      output.json({ applied: [], plan });
+    } else {
+      output.success('No changes. Vault configuration matches the manifest.');
+    }
+    return;
+  }
+
+  if (!options.json) {
+    printPlan(plan);
+    output.info(formatPlanSummary(plan));
+  }
+
+  if (!options.yes) {
+    const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: 'Apply these changes?',
+        default: false,
+      },
+    ]);
+
+    if (!confirm) {
+      output.info('Apply cancelled');
+      return;
+    }
+  }
+
+  const contexts = new Map<string | undefined, ApplyContext>();
+  for (const scope of remote.scopes) {
+    contexts.set(scope.tenant, {
+      tenant: scope.tenant,
+      roleIds: new Map([...scope.roles, ...scope.systemRoles].map(r => [r.name, r.id])),
+      policyIds: new Map(scope.policies.map(p => [p.name, p.id])),
+      userIds: new Map(scope.users.map(u => [u.username, u.id])),
+    });
+  }
+  const contextFor = (change: Change): ApplyContext => contexts.get(change.tenant) ?? {
+    tenant: change.tenant, roleIds: new Map(), policyIds: new Map(), userIds: new Map(),
+  };
+  const applied: Change[] = [];
+  const applySpinner = ora('Applying changes...').start();
+
+  for (const change of plan.changes) {
+    applySpinner.text = `Applying ${change.action} ${change.kind} ${change.name}...`;
+    try {
+      await applyChange(change, contextFor(change));
+      applied.push(change);
+    } catch (error) {
+      // Later changes may depend on this one, so stop here
+      applySpinner.fail(
+        `Failed to ${change.action} ${change.kind} ${change.name} ` +
+        `(${String(applied.length)} of ${String(plan.changes.length)} change(s) applied before the failure)`
+      );
+      exitWithError(error);
+    }
+  }
+
+  applySpinner.stop();
+
+  if (options.json) {
+    output.json({ applied, plan });
+    return;
+  }
+
+  output.success(`Applied ${applied.length} change(s)`);
+}
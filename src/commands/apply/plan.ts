@@ -0,0 +1,331 @@
+// Path: znvault-cli/src/commands/apply/plan.ts
+// Compute the changes needed to bring the server in line with a manifest
+
+import { normalizeKmsAlias } from './manifest.js';
+import type {
+  Manifest,
+  TenantResources,
+  RemoteState,
+  RemoteScope,
+  Plan,
+  Change,
+  FieldChange,
+  ResourceKind,
+  ChangeAction,
+} from './types.js';
+
+// Creates and updates run parents-first, deletes run children-first
+const APPLY_ORDER: Array<`${ChangeAction}:${ResourceKind}`> = [
+  'create:tenant', 'update:tenant',
+  'create:role', 'update:role',
+  'create:policy', 'update:policy',
+  'create:attachment',
+  'create:kms-key', 'update:kms-key',
+  'create:managed-key', 'update:managed-key',
+  'update:notifications',
+  'delete:attachment',
+  'delete:managed-key',
+  'delete:kms-key',
+  'delete:policy',
+  'delete:role',
+];
+
+/**
+ * Canonical form for comparison: string arrays are order-insensitive,
+ * object keys are sorted
+ */
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    const items = value.map(normalize);
+    return items.every(v => typeof v === 'string') ? [...items].sort() : items;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, normalize(v)])
+    );
+  }
+  return value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/**
+ * Diff the fields the manifest sets; fields it leaves out are unmanaged
+ */
+export function diffFields(desired: Record<string, unknown>, current: Record<string, unknown>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, to] of Object.entries(desired)) {
+    if (to === undefined) continue;
+    const from = current[field];
+    if (!isEqual(from ?? null, to)) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
+
+function createFields(spec: object, skip: string[] = []): FieldChange[] {
+  return Object.entries(spec as Record<string, unknown>)
+    .filter(([field, value]) => value !== undefined && !skip.includes(field))
+    .map(([field, to]) => ({ field, to }));
+}
+
+function planRoles(resources: TenantResources, remote: RemoteScope, prune: boolean, changes: Change[]): void {
+  if (!resources.roles) return;
+
+  for (const spec of resources.roles) {
+    const current = remote.roles.find(r => r.name === spec.name);
+    if (!current) {
+      changes.push({ kind: 'role', action: 'create', name: spec.name, fields: createFields(spec, ['name']), spec });
+      continue;
+    }
+    const fields = diffFields(
+      { description: spec.description, permissions: spec.permissions },
+      { description: current.description, permissions: current.permissions }
+    );
+    if (fields.length > 0) {
+      changes.push({ kind: 'role', action: 'update', name: spec.name, id: current.id, fields, spec });
+    }
+  }
+
+  if (prune) {
+    for (const role of remote.roles) {
+      if (!resources.roles.some(r => r.name === role.name)) {
+        changes.push({ kind: 'role', action: 'delete', name: role.name, id: role.id, fields: [] });
+      }
+    }
+  }
+}
+
+function planPolicies(resources: TenantResources, remote: RemoteScope, prune: boolean, changes: Change[]): void {
+  if (!resources.policies) return;
+
+  for (const spec of resources.policies) {
+    const current = remote.policies.find(p => p.name === spec.name);
+
+    if (!current) {
+      changes.push({
+        kind: 'policy', action: 'create', name: spec.name, fields: createFields(spec, ['name', 'attachments']), spec,
+      });
+    } else {
+      const fields = diffFields(
+        {
+          description: spec.description,
+          effect: spec.effect,
+          actions: spec.actions,
+          resources: spec.resources,
+          conditions: spec.conditions,
+          priority: spec.priority,
+          enabled: spec.enabled,
+        },
+        {
+          description: current.description,
+          effect: current.effect,
+          actions: current.actions,
+          resources: current.resources,
+          conditions: current.conditions,
+          priority: current.priority,
+          enabled: current.isActive,
+        }
+      );
+      if (fields.length > 0) {
+        changes.push({ kind: 'policy', action: 'update', name: spec.name, id: current.id, fields, spec });
+      }
+    }
+
+    if (!spec.attachments) continue;
+
+    const targets: Array<{ type: 'user' | 'role'; desired: string[]; existing: string[] }> = [
+      { type: 'role', desired: spec.attachments.roles ?? [], existing: current?.roles ?? [] },
+      { type: 'user', desired: spec.attachments.users ?? [], existing: current?.users ?? [] },
+    ];
+
+    for (const { type, desired, existing } of targets) {
+      for (const name of desired) {
+        if (type === 'user' && !remote.users.some(u => u.username === name)) {
+          throw new Error(`Policy "${spec.name}" is attached to unknown user "${name}"`);
+        }
+        const knownRole = [...remote.roles, ...remote.systemRoles].some(r => r.name === name)
+          || resources.roles?.some(r => r.name === name);
+        if (type === 'role' && !knownRole) {
+          throw new Error(`Policy "${spec.name}" is attached to unknown role "${name}"`);
+        }
+        if (!existing.includes(name)) {
+          changes.push({
+            kind: 'attachment', action: 'create', name: `${spec.name} -> ${type}:${name}`,
+            policy: spec.name, target: { type, name }, fields: [],
+          });
+        }
+      }
+      if (prune) {
+        for (const name of existing.filter(n => !desired.includes(n))) {
+          changes.push({
+            kind: 'attachment', action: 'delete', name: `${spec.name} -> ${type}:${name}`,
+            policy: spec.name, target: { type, name }, fields: [],
+          });
+        }
+      }
+    }
+  }
+
+  if (prune) {
+    for (const policy of remote.policies) {
+      if (!resources.policies.some(p => p.name === policy.name)) {
+        changes.push({ kind: 'policy', action: 'delete', name: policy.name, id: policy.id, fields: [] });
+      }
+    }
+  }
+}
+
+function planKmsKeys(resources: TenantResources, remote: RemoteScope, prune: boolean, plan: Plan): void {
+  if (!resources.kmsKeys) return;
+
+  for (const spec of resources.kmsKeys) {
+    const alias = normalizeKmsAlias(spec.alias);
+    const current = remote.kmsKeys.find(k => k.alias === alias);
+
+    if (!current) {
+      plan.changes.push({
+        kind: 'kms-key', action: 'create', name: alias, fields: createFields(spec, ['alias']), spec: { ...spec, alias },
+      });
+      continue;
+    }
+
+    const immutable = diffFields(
+      { description: spec.description, usage: spec.usage, keySpec: spec.keySpec, tags: spec.tags },
+      { description: current.description, usage: current.keyUsage, keySpec: current.keySpec, tags: current.tags }
+    );
+    for (const field of immutable) {
+      plan.warnings.push(`KMS key ${alias}: ${field.field} cannot be changed in place (ignored)`);
+    }
+
+    const fields = diffFields({ enabled: spec.enabled }, { enabled: current.keyState === 'Enabled' });
+    if (fields.length > 0) {
+      plan.changes.push({ kind: 'kms-key', action: 'update', name: alias, id: current.keyId, fields, spec });
+    }
+  }
+
+  if (prune) {
+    for (const key of remote.kmsKeys) {
+      if (key.alias && !resources.kmsKeys.some(k => normalizeKmsAlias(k.alias) === key.alias)) {
+        plan.changes.push({ kind: 'kms-key', action: 'delete', name: key.alias, id: key.keyId, fields: [] });
+      }
+    }
+  }
+}
+
+function planManagedKeys(resources: TenantResources, remote: RemoteScope, prune: boolean, plan: Plan): void {
+  if (!resources.managedApiKeys) return;
+
+  for (const spec of resources.managedApiKeys) {
+    const current = remote.managedApiKeys.find(k => k.name === spec.name);
+
+    if (!current) {
+      plan.changes.push({
+        kind: 'managed-key', action: 'create', name: spec.name, fields: createFields(spec, ['name']), spec,
+      });
+      continue;
+    }
+
+    const immutable = diffFields(
+      { rotationMode: spec.rotationMode, description: spec.description },
+      { rotationMode: current.rotation_mode, description: current.description }
+    );
+    for (const field of immutable) {
+      plan.warnings.push(`Managed API key ${spec.name}: ${field.field} cannot be changed in place (ignored)`);
+    }
+
+    const fields = diffFields(
+      {
+        permissions: spec.permissions,
+        rotationInterval: spec.rotationInterval,
+        gracePeriod: spec.gracePeriod,
+        notifyBefore: spec.notifyBefore,
+        webhookUrl: spec.webhookUrl,
+      },
+      {
+        permissions: current.permissions,
+        rotationInterval: current.rotation_interval,
+        gracePeriod: current.grace_period,
+        notifyBefore: current.notify_before,
+        webhookUrl: current.webhook_url,
+      }
+    );
+    if (fields.length > 0) {
+      plan.changes.push({ kind: 'managed-key', action: 'update', name: spec.name, id: current.id, fields, spec });
+    }
+  }
+
+  if (prune) {
+    for (const key of remote.managedApiKeys) {
+      if (!resources.managedApiKeys.some(k => k.name === key.name)) {
+        plan.changes.push({ kind: 'managed-key', action: 'delete', name: key.name, id: key.id, fields: [] });
+      }
+    }
+  }
+}
+
+function planTenants(manifest: Manifest, remote: RemoteState, changes: Change[]): void {
+  // Tenants are only created or updated, never pruned
+  for (const spec of manifest.tenants ?? []) {
+    const current = remote.tenants.find(t => t.id === spec.id);
+    const desired = {
+      name: spec.name,
+      status: spec.status,
+      maxSecrets: spec.maxSecrets,
+      maxKmsKeys: spec.maxKmsKeys,
+      contactEmail: spec.contactEmail,
+    };
+
+    if (!current) {
+      changes.push({ kind: 'tenant', action: 'create', name: spec.id, fields: createFields(desired), spec });
+      continue;
+    }
+    const fields = diffFields(desired, { ...current });
+    if (fields.length > 0) {
+      changes.push({ kind: 'tenant', action: 'update', name: spec.id, id: spec.id, fields, spec });
+    }
+  }
+}
+
+function planNotifications(manifest: Manifest, remote: RemoteState, changes: Change[]): void {
+  if (!manifest.notifications) return;
+
+  // The recipient list is a single setting, so it is always fully managed
+  const fields = diffFields({ recipients: manifest.notifications.recipients }, { recipients: remote.recipients });
+  if (fields.length > 0) {
+    changes.push({ kind: 'notifications', action: 'update', name: 'recipients', fields, spec: manifest.notifications });
+  }
+}
+
+/**
+ * Build an ordered plan. Deletions are only planned with prune enabled.
+ */
+export function buildPlan(manifest: Manifest, remote: RemoteState, prune = false): Plan {
+  const plan: Plan = { changes: [], warnings: [] };
+
+  planTenants(manifest, remote, plan.changes);
+
+  for (const scope of remote.scopes) {
+    const first = plan.changes.length;
+    planRoles(scope.resources, scope, prune, plan.changes);
+    planPolicies(scope.resources, scope, prune, plan.changes);
+    planKmsKeys(scope.resources, scope, prune, plan);
+    planManagedKeys(scope.resources, scope, prune, plan);
+    for (const change of plan.changes.slice(first)) {
+      change.tenant = scope.tenant;
+    }
+  }
+
+  planNotifications(manifest, remote, plan.changes);
+
+  const rank = (c: Change): number => APPLY_ORDER.indexOf(`${c.action}:${c.kind}`);
+  plan.changes.sort((a, b) => rank(a) - rank(b));
+
+  return plan;
+}
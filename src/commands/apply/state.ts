@@ -0,0 +1,139 @@
+// Path: znvault-cli/src/commands/apply/state.ts
+// Fetch the current server state for the resources a manifest manages
+
+import { client } from '../../lib/client.js';
+import { hasResources } from './manifest.js';
+import type { Policy } from '../../types/index.js';
+import type {
+  Manifest,
+  TenantResources,
+  RemoteState,
+  RemoteScope,
+  RemoteRole,
+  RemoteKmsKey,
+  RemotePolicy,
+} from './types.js';
+
+interface RoleListResponse {
+  data: RemoteRole[];
+}
+
+interface ListKeysResponse {
+  keys: Array<{ keyId: string; alias?: string; keyState: string }>;
+  nextMarker?: string;
+  truncated: boolean;
+}
+
+interface RecipientsResponse {
+  recipients: string;
+}
+
+/**
+ * Fetch roles, including system roles: they are never managed, but
+ * policies can be attached to them
+ */
+export async function fetchRoles(tenant?: string): Promise<RemoteRole[]> {
+  const query: Record<string, string> = { includeSystem: 'true' };
+  if (tenant) query.tenantId = tenant;
+  const response = await client.get<RoleListResponse>('/v1/roles?' + new URLSearchParams(query).toString());
+  return response.data;
+}
+
+export async function fetchPolicies(tenant?: string): Promise<RemotePolicy[]> {
+  const listed: Policy[] = [];
+  let page = 0;
+  let totalPages: number;
+  do {
+    page++;
+    const response = await client.listPolicies({ tenantId: tenant, page });
+    listed.push(...response.data);
+    totalPages = response.totalPages;
+  } while (page < totalPages);
+
+  const policies: RemotePolicy[] = [];
+  for (const policy of listed) {
+    const attachments = await client.getPolicyAttachments(policy.id);
+    policies.push({
+      ...policy,
+      users: attachments.users.map(a => a.username ?? a.userId ?? ''),
+      roles: attachments.roles.map(a => a.roleName ?? a.roleId ?? ''),
+    });
+  }
+
+  return policies;
+}
+
+export async function fetchKmsKeys(tenant?: string): Promise<RemoteKmsKey[]> {
+  const listed: ListKeysResponse['keys'] = [];
+  let marker: string | undefined;
+  do {
+    const query: Record<string, string> = {};
+    if (tenant) query.tenant = tenant;
+    if (marker) query.marker = marker;
+    const response = await client.get<ListKeysResponse>('/v1/kms/keys?' + new URLSearchParams(query).toString());
+    listed.push(...response.keys);
+    marker = response.truncated ? response.nextMarker : undefined;
+  } while (marker);
+
+  const keys: RemoteKmsKey[] = [];
+  for (const key of listed) {
+    // Keys pending deletion are gone as far as the manifest is concerned
+    if (key.keyState === 'PendingDeletion') continue;
+    const detail = await client.get<{ keyMetadata: RemoteKmsKey }>(`/v1/kms/keys/${key.keyId}`);
+    keys.push(detail.keyMetadata);
+  }
+
+  return keys;
+}
+
+export async function fetchRecipients(): Promise<string[]> {
+  const response = await client.get<RecipientsResponse>('/v1/admin/notifications/recipients');
+  return response.recipients ? response.recipients.split(',').map(e => e.trim()).filter(e => e) : [];
+}
+
+/**
+ * Fetch only the sections a scope declares; undeclared sections are
+ * left untouched by plan/apply (including --prune).
+ */
+export async function fetchRemoteScope(resources: TenantResources, tenant?: string): Promise<RemoteScope> {
+  const needsUsers = resources.policies?.some(p => p.attachments?.users?.length) ?? false;
+  const roles = resources.roles || resources.policies ? await fetchRoles(tenant) : [];
+
+  return {
+    tenant,
+    resources,
+    roles: roles.filter(r => !r.is_system),
+    systemRoles: roles.filter(r => r.is_system),
+    policies: resources.policies ? await fetchPolicies(tenant) : [],
+    kmsKeys: resources.kmsKeys ? await fetchKmsKeys(tenant) : [],
+    managedApiKeys: resources.managedApiKeys ? (await client.listManagedApiKeys(tenant)).keys : [],
+    users: needsUsers ? await client.listUsers({ tenantId: tenant }) : [],
+  };
+}
+
+/**
+ * An empty scope for a tenant that does not exist yet
+ */
+function emptyScope(resources: TenantResources, tenant: string): RemoteScope {
+  return { tenant, resources, roles: [], systemRoles: [], policies: [], kmsKeys: [], managedApiKeys: [], users: [] };
+}
+
+export async function fetchRemoteState(manifest: Manifest, defaultTenant?: string): Promise<RemoteState> {
+  const tenants = manifest.tenants ? await client.listTenants() : [];
+  const scopes: RemoteScope[] = [];
+
+  if (hasResources(manifest)) {
+    scopes.push(await fetchRemoteScope(manifest, defaultTenant));
+  }
+  for (const spec of manifest.tenants ?? []) {
+    scopes.push(tenants.some(t => t.id === spec.id)
+      ? await fetchRemoteScope(spec, spec.id)
+      : emptyScope(spec, spec.id));
+  }
+
+  return {
+    tenants,
+    scopes,
+    recipients: manifest.notifications ? await fetchRecipients() : [],
+  };
+}
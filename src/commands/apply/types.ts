@@ -0,0 +1,189 @@
+// Path: znvault-cli/src/commands/apply/types.ts
+// Type definitions for declarative vault configuration (plan/apply)
+
+import type {
+  PolicyEffect,
+  PolicyResource,
+  PolicyCondition,
+  RotationMode,
+  Policy,
+  ManagedAPIKey,
+  User,
+  Tenant,
+} from '../../types/index.js';
+
+// ============================================================================
+// Manifest
+// ============================================================================
+
+export const MANIFEST_API_VERSION = 'znvault/v1';
+
+export interface PolicySpec {
+  name: string;
+  description?: string;
+  effect: PolicyEffect;
+  actions: string[];
+  resources?: PolicyResource[];
+  conditions?: PolicyCondition[];
+  priority?: number;
+  enabled?: boolean;
+  attachments?: {
+    users?: string[];
+    roles?: string[];
+  };
+}
+
+export interface RoleSpec {
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+export interface ManagedKeySpec {
+  name: string;
+  description?: string;
+  permissions: string[];
+  rotationMode: RotationMode;
+  rotationInterval?: string;
+  gracePeriod: string;
+  notifyBefore?: string;
+  webhookUrl?: string;
+  expiresInDays?: number;
+}
+
+export interface KmsKeySpec {
+  alias: string;
+  description?: string;
+  usage?: string;
+  keySpec?: string;
+  enabled?: boolean;
+  tags?: Record<string, string>;
+}
+
+export interface NotificationsSpec {
+  recipients: string[];
+}
+
+// Tenant-scoped resource sections
+export interface TenantResources {
+  roles?: RoleSpec[];
+  policies?: PolicySpec[];
+  kmsKeys?: KmsKeySpec[];
+  managedApiKeys?: ManagedKeySpec[];
+}
+
+export interface TenantSpec extends TenantResources {
+  id: string;
+  name: string;
+  status?: 'active' | 'suspended';
+  maxSecrets?: number;
+  maxKmsKeys?: number;
+  contactEmail?: string;
+}
+
+/**
+ * Top-level resources belong to `tenant` (or the logged-in tenant);
+ * entries in `tenants` carry their own resources.
+ */
+export interface Manifest extends TenantResources {
+  apiVersion: typeof MANIFEST_API_VERSION;
+  tenant?: string;
+  tenants?: TenantSpec[];
+  notifications?: NotificationsSpec;
+}
+
+// ============================================================================
+// Remote State
+// ============================================================================
+
+export interface RemoteRole {
+  id: string;
+  name: string;
+  description?: string;
+  is_system: boolean;
+  permissions: string[];
+  tenant_id?: string;
+}
+
+export interface RemoteKmsKey {
+  keyId: string;
+  alias?: string;
+  keyState: string;
+  keyUsage?: string;
+  keySpec?: string;
+  description?: string;
+  tags?: Record<string, string>;
+}
+
+export interface RemotePolicy extends Policy {
+  users: string[];
+  roles: string[];
+}
+
+export interface RemoteScope {
+  tenant?: string;
+  resources: TenantResources;
+  roles: RemoteRole[];
+  systemRoles: RemoteRole[];   // Attachment targets only; never planned
+  policies: RemotePolicy[];
+  kmsKeys: RemoteKmsKey[];
+  managedApiKeys: ManagedAPIKey[];
+  users: User[];
+}
+
+export interface RemoteState {
+  tenants: Tenant[];
+  scopes: RemoteScope[];
+  recipients: string[];
+}
+
+// ============================================================================
+// Plan
+// ============================================================================
+
+export type ResourceKind = 'tenant' | 'role' | 'policy' | 'attachment' | 'kms-key' | 'managed-key' | 'notifications';
+
+export type ChangeAction = 'create' | 'update' | 'delete';
+
+export interface FieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface Change {
+  kind: ResourceKind;
+  action: ChangeAction;
+  name: string;
+  // Tenant the resource belongs to
+  tenant?: string;
+  // Server-side ID for updates and deletes
+  id?: string;
+  fields: FieldChange[];
+  spec?: TenantSpec | RoleSpec | PolicySpec | KmsKeySpec | ManagedKeySpec | NotificationsSpec;
+  // For attachments: policy name and "user:<name>" / "role:<name>" target
+  policy?: string;
+  target?: { type: 'user' | 'role'; name: string };
+}
+
+export interface Plan {
+  changes: Change[];
+  warnings: string[];
+}
+
+export interface PlanOptions {
+  file: string;
+  tenant?: string;
+  prune?: boolean;
+  json?: boolean;
+}
+
+export interface ApplyOptions extends PlanOptions {
+  yes?: boolean;
+}
+
+export interface DumpOptions {
+  tenant?: string;
+  output?: string;
+  format?: string;
+}
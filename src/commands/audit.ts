@@ -4,6 +4,33 @@ import fs from 'node:fs';
 import { client } from '../lib/client.js';
 import * as mode from '../lib/mode.js';
 import * as output from '../lib/output.js';
+import { exitWithError, VaultApiError } from '../lib/errors.js';
+import {
+  AuditCursor,
+  AUDIT_LINE_FORMATS,
+  auditTableHeader,
+  formatAuditLine,
+  type AuditLineFormat,
+} from '../lib/audit-tail.js';
+import {
+  SIEM_FORMATS,
+  formatSiemEvents,
+  toCsv,
+  readCheckpoint,
+  writeCheckpoint,
+  type SiemFormat,
+} from '../lib/audit-formats.js';
+import {
+  buildAuditReport,
+  parseWorkHours,
+  renderAuditReportHtml,
+  type AuditCountRow,
+  type AuditReport,
+  type WorkHours,
+} from '../lib/audit-report.js';
+import { getConfig } from '../lib/config.js';
+import * as visual from '../lib/visual.js';
+import type { AuditEntry } from '../types/index.js';
 
 interface AuditListOptions {
   user?: string;
@@ -13,16 +40,43 @@ interface AuditListOptions {
   json?: boolean;
 }
 
+interface AuditTailOptions {
+  user?: string;
+  action?: string;
+  lines: string;
+  follow?: boolean;
+  format: string;
+  interval: string;
+}
+
 interface AuditVerifyOptions {
   json?: boolean;
 }
 
+interface AuditReportOptions {
+  days: string;
+  from?: string;
+  to?: string;
+  top: string;
+  workHours: string;
+  html?: string;
+  json?: boolean;
+}
+
 interface AuditExportOptions {
-  format: 'json' | 'csv';
+  format: string;
   days: string;
   output?: string;
+  checkpoint?: string;
 }
 
+type ExportFormat = 'json' | 'csv' | SiemFormat;
+
+const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', ...SIEM_FORMATS];
+
+// Largest page the audit endpoint returns
+const EXPORT_PAGE_SIZE = 10000;
+
 export function registerAuditCommands(program: Command): void {
   const audit = program
     .command('audit')
@@ -89,9 +143,85 @@ export function registerAuditCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to list audit entries');
-        output.error(err instanceof Error ? err.message : String(err));
+        exitWithError(err);
+      } finally {
+        await mode.closeLocalClient();
+      }
+    });
+
+  // Tail audit entries
+  audit
+    .command('tail')
+    .description('Show the latest audit entries, optionally following new ones')
+    .option('--user <username>', 'Filter by username')
+    .option('--action <action>', 'Filter by action')
+    .option('-n, --lines <number>', 'Number of recent entries to show first', '20')
+    .option('-f, --follow', 'Keep polling and print new entries as they arrive')
+    .option('--format <format>', 'Output format (table|json|logfmt)', 'table')
+    .option('--interval <ms>', 'Polling interval in milliseconds', '2000')
+    .action(async (options: AuditTailOptions) => {
+      const format = options.format as AuditLineFormat;
+      if (!AUDIT_LINE_FORMATS.includes(format)) {
+        output.error(`Invalid format. Use ${AUDIT_LINE_FORMATS.join(', ')}`);
+        process.exit(1);
+      }
+
+      const interval = parseInt(options.interval, 10);
+      if (isNaN(interval) || interval < 500) {
+        output.error('Polling interval must be at least 500ms');
         process.exit(1);
+      }
+
+      const lines = parseInt(options.lines, 10);
+      if (isNaN(lines) || lines < 1) {
+        output.error('Number of lines must be at least 1');
+        process.exit(1);
+      }
+
+      const cursor = new AuditCursor({
+        user: options.user,
+        action: options.action,
+        backlog: lines,
+      });
+
+      // Ctrl-C ends the follow loop cleanly
+      const stopped = new AbortController();
+      const stop = (): void => { stopped.abort(); };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+
+      try {
+        if (format === 'table') {
+          console.log(auditTableHeader());
+        }
+
+        do {
+          try {
+            for (const entry of await cursor.poll()) {
+              console.log(formatAuditLine(entry, format));
+            }
+          } catch (err) {
+            // Keep following through outages; bad credentials will not fix themselves
+            const fatal = err instanceof VaultApiError && (err.status === 401 || err.status === 403);
+            if (!options.follow || fatal) throw err;
+            output.warn(`Poll failed: ${err instanceof Error ? err.message : String(err)}`);
+          }
+
+          if (options.follow && !stopped.signal.aborted) {
+            await new Promise<void>(resolve => {
+              const timer = setTimeout(resolve, interval);
+              stopped.signal.addEventListener('abort', () => {
+                clearTimeout(timer);
+                resolve();
+              }, { once: true });
+            });
+          }
+        } while (options.follow && !stopped.signal.aborted);
+      } catch (err) {
+        exitWithError(err);
       } finally {
+        process.off('SIGINT', stop);
+        process.off('SIGTERM', stop);
         await mode.closeLocalClient();
       }
     });
@@ -131,8 +261,69 @@ export function registerAuditCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to verify audit chain');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
+      } finally {
+        await mode.closeLocalClient();
+      }
+    });
+
+  // Summary analytics for security reviews
+  audit
+    .command('report')
+    .description('Summarize audit activity: top users and actions, failures, unusual IPs, after-hours use')
+    .option('--days <number>', 'Report on the last N days', '30')
+    .option('--from <date>', 'Start of the range (overrides --days)')
+    .option('--to <date>', 'End of the range (default: now)')
+    .option('--top <number>', 'Rows per ranking', '10')
+    .option('--work-hours <range>', 'Working hours in local time, Monday to Friday', '08-18')
+    .option('--html <file>', 'Write the report as an HTML page')
+    .option('--json', 'Output as JSON')
+    .action(async (options: AuditReportOptions) => {
+      let workHours: WorkHours;
+      let top: number;
+      let from: Date;
+      let to: Date;
+      try {
+        workHours = parseWorkHours(options.workHours);
+        top = parseCount(options.top, '--top', 1);
+        to = options.to ? parseDate(options.to) : new Date();
+        if (options.from) {
+          from = parseDate(options.from);
+        } else {
+          from = new Date(to);
+          from.setDate(from.getDate() - parseCount(options.days, '--days', 1));
+        }
+      } catch (err) {
+        exitWithError(err);
+      }
+
+      const spinner = ora('Analyzing audit logs...').start();
+
+      try {
+        const entries = await fetchAuditEntries(mode.listAudit, from.toISOString(), to.toISOString());
+        const report = buildAuditReport(entries, {
+          from,
+          to,
+          top,
+          workHours,
+        });
+        spinner.stop();
+
+        if (options.html) {
+          fs.writeFileSync(options.html, renderAuditReportHtml(report));
+          if (!options.json) {
+            output.success(`Report written to ${options.html}`);
+          }
+        }
+
+        if (options.json) {
+          output.json(report);
+        } else if (!options.html) {
+          printAuditReport(report);
+        }
+      } catch (err) {
+        spinner.fail('Failed to build audit report');
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -142,9 +333,10 @@ export function registerAuditCommands(program: Command): void {
   audit
     .command('export')
     .description('Export audit logs')
-    .option('--format <format>', 'Output format (json|csv)', 'json')
+    .option('--format <format>', `Output format (${EXPORT_FORMATS.join('|')})`, 'json')
     .option('--days <number>', 'Export entries from last N days', '30')
     .option('--output <file>', 'Output file (default: stdout)')
+    .option('--checkpoint <file>', 'Only export entries newer than the last run, and record this run in <file>')
     .action(async (options: AuditExportOptions) => {
       if (mode.getMode() === 'local') {
         output.error('Audit export requires API mode with authentication');
@@ -152,6 +344,12 @@ export function registerAuditCommands(program: Command): void {
         process.exit(1);
       }
 
+      const format = options.format as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        output.error(`Invalid format. Use ${EXPORT_FORMATS.join(', ')}`);
+        process.exit(1);
+      }
+
       const spinner = ora('Exporting audit logs...').start();
 
       try {
@@ -159,22 +357,166 @@ export function registerAuditCommands(program: Command): void {
         const startDate = new Date();
         startDate.setDate(startDate.getDate() - days);
 
-        const data = await client.exportAudit({
-          format: options.format,
-          startDate: startDate.toISOString(),
-        });
+        // The server renders json and csv itself; other formats and
+        // incremental runs need the entries
+        if (!options.checkpoint && (format === 'json' || format === 'csv')) {
+          const data = await client.exportAudit({
+            format,
+            startDate: startDate.toISOString(),
+          });
+          spinner.stop();
+          writeExport(typeof data === 'string' ? data : JSON.stringify(data, null, 2), options.output);
+          return;
+        }
+
+        const checkpoint = options.checkpoint ? readCheckpoint(options.checkpoint) : undefined;
+        const entries = (await fetchAuditEntries(
+          opts => client.listAudit(opts),
+          checkpoint?.lastTs ?? startDate.toISOString()
+        ))
+          .filter(e => checkpoint === undefined || e.id > checkpoint.lastId);
         spinner.stop();
 
-        if (options.output) {
-          fs.writeFileSync(options.output, typeof data === 'string' ? data : JSON.stringify(data, null, 2));
-          output.success(`Exported to ${options.output}`);
+        if (entries.length === 0) {
+          exportStatus('No new audit entries to export', options.output);
+          return;
+        }
+
+        let data: string;
+        if (format === 'json') {
+          data = JSON.stringify(entries, null, 2);
+        } else if (format === 'csv') {
+          data = toCsv(entries);
         } else {
-          console.log(typeof data === 'string' ? data : JSON.stringify(data, null, 2));
+          data = formatSiemEvents(entries, format, { host: new URL(getConfig().url).hostname });
+        }
+        writeExport(data, options.output, entries.length);
+
+        // Only advance once the entries are safely written
+        if (options.checkpoint) {
+          const saved = writeCheckpoint(options.checkpoint, entries);
+          exportStatus(`Checkpoint saved at entry ${String(saved.lastId)}`, options.output);
         }
       } catch (err) {
         spinner.fail('Failed to export audit logs');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
+
+/**
+ * Report export status without mixing it into events written to stdout
+ */
+function exportStatus(message: string, file: string | undefined): void {
+  if (file) {
+    output.info(message);
+  } else {
+    console.error(message);
+  }
+}
+
+function writeExport(data: string, file: string | undefined, count?: number): void {
+  if (file) {
+    fs.writeFileSync(file, data);
+    output.success(count === undefined ? `Exported to ${file}` : `Exported ${String(count)} entries to ${file}`);
+  } else {
+    console.log(data.replace(/\n$/, ''));
+  }
+}
+
+/**
+ * Fetch all entries since a date, oldest first. A full page means there may
+ * be more, so the next page ends at the oldest entry seen so far.
+ */
+async function fetchAuditEntries(
+  listAudit: typeof mode.listAudit,
+  startDate: string,
+  to?: string
+): Promise<AuditEntry[]> {
+  const byId = new Map<number, AuditEntry>();
+  let endDate = to;
+
+  for (;;) {
+    const page = await listAudit({ startDate, endDate, limit: EXPORT_PAGE_SIZE });
+    const before = byId.size;
+    for (const entry of page) {
+      byId.set(entry.id, entry);
+    }
+    if (page.length < EXPORT_PAGE_SIZE || byId.size === before) break;
+    endDate = page.reduce((oldest, e) => (e.ts < oldest ? e.ts : oldest), page[0].ts);
+  }
+
+  return [...byId.values()].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Parse a whole-number option of at least `min`
+ */
+function parseCount(value: string, option: string, min: number): number {
+  const count = Number(value);
+  if (value.trim() === '' || !Number.isInteger(count) || count < min) {
+    throw new Error(`${option} must be a whole number of at least ${String(min)}`);
+  }
+  return count;
+}
+
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+function printCountTable(title: string, label: string, rows: AuditCountRow[]): void {
+  console.log(visual.sectionHeader(title));
+  if (rows.length === 0) {
+    output.info('No entries');
+    return;
+  }
+
+  const max = Math.max(...rows.map(r => r.count));
+  output.table(
+    [label, 'Entries', '', 'Failures'],
+    rows.map(row => [
+      row.name,
+      row.count,
+      visual.progressBar(row.count, max, 20, { showPercent: false }),
+      `${String(row.failures)} (${(row.failureRate * 100).toFixed(1)}%)`,
+    ])
+  );
+}
+
+function printAuditReport(report: AuditReport): void {
+  const { workHours } = report.afterHours;
+  const failureStatus = report.failureRate >= 0.1 ? 'error' : report.failures > 0 ? 'warning' : 'success';
+
+  console.log();
+  console.log(visual.statusBox('AUDIT REPORT', {
+    'Range': { value: `${new Date(report.from).toLocaleString()} - ${new Date(report.to).toLocaleString()}` },
+    'Entries': { value: String(report.totalEntries) },
+    'Failures': { value: `${String(report.failures)} (${(report.failureRate * 100).toFixed(1)}%)`, status: failureStatus },
+    'Users': { value: String(report.uniqueUsers) },
+    'Source IPs': { value: String(report.uniqueIps) },
+    'After Hours': {
+      value: `${String(report.afterHours.count)} outside ${String(workHours.start).padStart(2, '0')}:00-${String(workHours.end).padStart(2, '0')}:00 Mon-Fri`,
+      status: report.afterHours.count > 0 ? 'warning' : 'success',
+    },
+  }));
+
+  printCountTable('Top Users', 'User', report.topUsers);
+  printCountTable('Top Actions', 'Action', report.topActions);
+  printCountTable('Tenants', 'Tenant', report.tenants);
+  printCountTable('After-Hours Activity', 'User', report.afterHours.users);
+
+  console.log(visual.sectionHeader('Unusual Source IPs'));
+  if (report.unusualIps.length === 0) {
+    output.success('No unusual source IPs');
+  } else {
+    output.table(
+      ['IP', 'Entries', 'Failures', 'Users', 'Reasons'],
+      report.unusualIps.map(ip => [ip.ip, ip.count, ip.failures, ip.users.join(', '), ip.reasons.join(', ')])
+    );
+  }
+  console.log();
+}
@@ -1,4 +1,6 @@
 import { type Command } from 'commander';
+import fs from 'node:fs';
+import path from 'node:path';
 import ora from 'ora';
 import React from 'react';
 import { render } from 'ink';
@@ -7,7 +9,9 @@ import {
   getCredentials,
   clearCredentials,
   setConfigValue,
+  parseUrlList,
   getAllConfig,
+  maskProxyUrl,
   getConfigPath,
   getActiveProfileName,
   listProfiles,
@@ -16,9 +20,17 @@ import {
   switchProfile,
   renameProfile,
   getProfile,
+  getCredentialStoreSettings,
+  migrateCredentialStore,
 } from '../lib/config.js';
-import { promptUsername, promptPassword, promptTotp, promptSelect } from '../lib/prompts.js';
+import {
+  CREDENTIAL_STORE_TYPES,
+  type CredentialStoreType,
+  type CredentialStoreSettings,
+} from '../lib/credential-store.js';
+import { promptUsername, promptPassword, promptTotp, promptSelect, promptNewPassword } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import { ProfileManager } from '../tui/ProfileManager.js';
 
 // ============================================================================
@@ -39,6 +51,11 @@ interface ConfigGetOptions {
   json?: boolean;
 }
 
+interface MigrateCredentialsOptions {
+  store: string;
+  keySource: string;
+}
+
 interface ProfileListOptions {
   json?: boolean;
 }
@@ -50,6 +67,11 @@ interface ProfileCurrentOptions {
 interface ProfileCreateOptions {
   vaultUrl?: string;
   insecure?: boolean;
+  caFile?: string;
+  clientCert?: string;
+  clientKey?: string;
+  tlsServerName?: string;
+  proxy?: string;
   copyFrom?: string;
   use?: boolean;
 }
@@ -62,6 +84,22 @@ interface ProfileShowOptions {
   json?: boolean;
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve a certificate or key path to an absolute path that exists,
+ * so the profile keeps working from any directory
+ */
+function resolveTlsFile(file: string): string {
+  const resolved = path.resolve(file);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`File not found: ${file}`);
+  }
+  return resolved;
+}
+
 export function registerAuthCommands(program: Command): void {
   // Login command
   program
@@ -101,8 +139,7 @@ export function registerAuthCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -153,15 +190,18 @@ export function registerAuthCommands(program: Command): void {
 
   configCmd
     .command('set <key> <value>')
-    .description('Set a configuration value (url, insecure, timeout, defaultTenant)')
+    .description('Set a configuration value (url, urls, insecure, timeout, retries, defaultTenant, caFile, clientCert, clientKey, tlsServerName, proxy)')
     .action((key: string, value: string) => {
-      const validKeys = ['url', 'insecure', 'timeout', 'defaultTenant'];
+      const validKeys = [
+        'url', 'urls', 'insecure', 'timeout', 'retries', 'defaultTenant',
+        'caFile', 'clientCert', 'clientKey', 'tlsServerName', 'proxy',
+      ];
       if (!validKeys.includes(key)) {
         output.error(`Invalid config key. Valid keys: ${validKeys.join(', ')}`);
         process.exit(1);
       }
 
-      let parsedValue: string | boolean | number = value;
+      let parsedValue: string | boolean | number | string[] | undefined = value;
       if (key === 'insecure') {
         parsedValue = value === 'true';
       } else if (key === 'timeout') {
@@ -170,10 +210,35 @@ export function registerAuthCommands(program: Command): void {
           output.error('Timeout must be a number (milliseconds)');
           process.exit(1);
         }
+      } else if (key === 'retries') {
+        parsedValue = parseInt(value, 10);
+        if (isNaN(parsedValue) || parsedValue < 0) {
+          output.error('Retries must be a non-negative number');
+          process.exit(1);
+        }
+      } else if (key === 'urls') {
+        // Comma-separated node URLs; an empty value clears the list
+        parsedValue = parseUrlList(value);
+      } else if (key === 'caFile' || key === 'clientCert' || key === 'clientKey') {
+        // An empty value clears the setting
+        try {
+          parsedValue = value ? resolveTlsFile(value) : undefined;
+        } catch (err) {
+          exitWithError(err);
+        }
+      } else if (key === 'tlsServerName') {
+        parsedValue = value || undefined;
+      } else if (key === 'proxy') {
+        if (value && !URL.canParse(value.includes('://') ? value : `http://${value}`)) {
+          output.error('Proxy must be a URL (e.g. http://proxy.example.com:3128)');
+          process.exit(1);
+        }
+        parsedValue = value || undefined;
       }
 
-      setConfigValue(key as 'url' | 'insecure' | 'timeout', parsedValue as never);
-      output.success(`Set ${key} = ${parsedValue} (profile: ${getActiveProfileName()})`);
+      setConfigValue(key as 'url' | 'urls' | 'insecure' | 'timeout' | 'retries' | 'caFile' | 'proxy', parsedValue as never);
+      const shown = key === 'proxy' ? maskProxyUrl(parsedValue as string | undefined) : parsedValue;
+      output.success(`Set ${key} = ${String(shown ?? '(unset)')} (profile: ${getActiveProfileName()})`);
     });
 
   configCmd
@@ -205,6 +270,48 @@ export function registerAuthCommands(program: Command): void {
       console.log(getConfigPath());
     });
 
+  configCmd
+    .command('migrate-credentials')
+    .description('Move stored tokens and API keys to another credential store')
+    .requiredOption('--store <type>', `Credential store (${CREDENTIAL_STORE_TYPES.join(', ')})`)
+    .option('--key-source <source>', 'Key for encrypted-file: passphrase or keyfile', 'keyfile')
+    .action(async (options: MigrateCredentialsOptions) => {
+      const type = options.store as CredentialStoreType;
+      if (!CREDENTIAL_STORE_TYPES.includes(type)) {
+        output.error(`Invalid store. Use one of: ${CREDENTIAL_STORE_TYPES.join(', ')}`);
+        process.exit(1);
+      }
+      if (options.keySource !== 'passphrase' && options.keySource !== 'keyfile') {
+        output.error('Invalid key source. Use passphrase or keyfile');
+        process.exit(1);
+      }
+
+      const target: CredentialStoreSettings = type === 'encrypted-file'
+        ? { type, keySource: options.keySource }
+        : { type };
+
+      const current = getCredentialStoreSettings();
+      if (current.type === target.type && current.keySource === target.keySource) {
+        output.info(`Credentials are already stored in ${type}`);
+        return;
+      }
+
+      try {
+        let passphrase: string | undefined;
+        if (target.keySource === 'passphrase') {
+          passphrase = process.env.ZNVAULT_STORE_PASSPHRASE ?? await promptNewPassword('Credential store passphrase');
+        }
+
+        const count = migrateCredentialStore(target, passphrase);
+        output.success(`Moved secrets of ${count} profile(s) to ${type}`);
+        if (target.keySource === 'passphrase') {
+          output.info('Set ZNVAULT_STORE_PASSPHRASE for non-interactive use');
+        }
+      } catch (err) {
+        exitWithError(err);
+      }
+    });
+
   // ============================================================================
   // Profile Management Commands
   // ============================================================================
@@ -281,6 +388,11 @@ export function registerAuthCommands(program: Command): void {
     .description('Create a new profile')
     .option('--vault-url <url>', 'Vault server URL')
     .option('-k, --insecure', 'Skip TLS certificate verification')
+    .option('--ca-file <file>', 'PEM bundle of trusted CA certificates')
+    .option('--client-cert <file>', 'PEM client certificate for mutual TLS')
+    .option('--client-key <file>', 'PEM client private key for mutual TLS')
+    .option('--tls-server-name <name>', 'Server name to verify instead of the URL host')
+    .option('--proxy <url>', 'HTTP(S) proxy URL (overrides HTTPS_PROXY)')
     .option('--copy-from <profile>', 'Copy settings from existing profile')
     .option('--use', 'Switch to this profile after creating')
     .action((name: string, options: ProfileCreateOptions) => {
@@ -289,6 +401,11 @@ export function registerAuthCommands(program: Command): void {
           url: options.vaultUrl,
           insecure: options.insecure,
           copyFrom: options.copyFrom,
+          caFile: options.caFile ? resolveTlsFile(options.caFile) : undefined,
+          clientCert: options.clientCert ? resolveTlsFile(options.clientCert) : undefined,
+          clientKey: options.clientKey ? resolveTlsFile(options.clientKey) : undefined,
+          tlsServerName: options.tlsServerName,
+          proxy: options.proxy,
         });
         output.success(`Created profile '${name}'`);
 
@@ -297,8 +414,7 @@ export function registerAuthCommands(program: Command): void {
           output.success(`Switched to profile '${name}'`);
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -319,8 +435,7 @@ export function registerAuthCommands(program: Command): void {
           }
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -342,8 +457,7 @@ export function registerAuthCommands(program: Command): void {
         deleteProfile(name);
         output.success(`Deleted profile '${name}'`);
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -356,8 +470,7 @@ export function registerAuthCommands(program: Command): void {
         renameProfile(oldName, newName);
         output.success(`Renamed profile '${oldName}' to '${newName}'`);
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -378,8 +491,15 @@ export function registerAuthCommands(program: Command): void {
       const data = {
         name: profileName,
         url: profile.url,
+        urls: profile.urls?.join(', '),
         insecure: profile.insecure,
         timeout: profile.timeout,
+        retries: profile.retries,
+        caFile: profile.caFile,
+        clientCert: profile.clientCert,
+        clientKey: profile.clientKey,
+        tlsServerName: profile.tlsServerName,
+        proxy: maskProxyUrl(profile.proxy),
         defaultTenant: profile.defaultTenant ?? 'None',
         authMethod: profile.apiKey ? 'API Key' : profile.credentials ? 'JWT' : 'None',
         hasApiKey: !!profile.apiKey,
@@ -5,6 +5,7 @@ import ora from 'ora';
 import Table from 'cli-table3';
 import { client } from '../../lib/client.js';
 import * as output from '../../lib/output.js';
+import { exitWithError } from '../../lib/errors.js';
 import { formatInterval, parseInterval } from './helpers.js';
 import type {
   BackupConfig,
@@ -89,8 +90,7 @@ export async function showConfig(options: { json?: boolean }): Promise<void> {
     console.log();
   } catch (error) {
     spinner.fail('Failed to fetch config');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -102,8 +102,7 @@ export async function updateConfig(options: ConfigOptions): Promise<void> {
     try {
       body.intervalMs = parseInterval(options.interval);
     } catch (err) {
-      output.error((err as Error).message);
-      process.exit(1);
+      exitWithError(err);
     }
   }
   if (options.retentionDays) body.retentionDays = parseInt(options.retentionDays, 10);
@@ -132,8 +131,7 @@ export async function updateConfig(options: ConfigOptions): Promise<void> {
     console.log(`  Retention Count: ${result.config.retentionCount}`);
   } catch (error) {
     spinner.fail('Failed to update config');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -176,8 +174,7 @@ export async function configureS3Storage(options: S3StorageOptions): Promise<voi
     }
   } catch (error) {
     spinner.fail('Failed to configure S3 storage');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -209,8 +206,7 @@ export async function configureLocalStorage(options: LocalStorageOptions): Promi
     }
   } catch (error) {
     spinner.fail('Failed to configure local storage');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -254,8 +250,7 @@ export async function configureEncryption(options: EncryptionOptions): Promise<v
     console.log(`  Password File: ${result.config.encryption?.hasPassword ? 'Configured' : 'Not configured'}`);
   } catch (error) {
     spinner.fail('Failed to configure encryption');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -280,7 +275,6 @@ export async function testStorage(): Promise<void> {
     }
   } catch (error) {
     spinner.fail('Failed to test storage');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
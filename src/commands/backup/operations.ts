@@ -7,6 +7,7 @@ import Table from 'cli-table3';
 import inquirer from 'inquirer';
 import { client } from '../../lib/client.js';
 import * as output from '../../lib/output.js';
+import { exitWithError } from '../../lib/errors.js';
 import {
   formatDate,
   formatBytes,
@@ -71,8 +72,7 @@ export async function listBackups(options: ListOptions): Promise<void> {
     output.info(`Total: ${response.total} backup(s)`);
   } catch (error) {
     spinner.fail('Failed to list backups');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -116,8 +116,7 @@ export async function getBackup(id: string, options: GetOptions): Promise<void>
     console.log(table.toString());
   } catch (error) {
     spinner.fail('Failed to get backup');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -169,8 +168,7 @@ export async function createBackup(options: CreateBackupOptions): Promise<void>
     console.log(`  Duration:   ${formatDuration(result.backup.metadata?.duration)}`);
   } catch (error) {
     spinner.fail('Failed to create backup');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -204,8 +202,7 @@ export async function generateKey(options: GenerateKeyOptions): Promise<void> {
     console.log('');
   } catch (error) {
     spinner.fail('Failed to generate key');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -226,8 +223,7 @@ export async function verifyBackup(id: string): Promise<void> {
     }
   } catch (error) {
     spinner.fail('Failed to verify backup');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -253,8 +249,7 @@ export async function deleteBackup(id: string, options: DeleteOptions): Promise<
       }
     } catch (error) {
       spinner.fail('Failed to fetch backup');
-      output.error((error as Error).message);
-      process.exit(1);
+      exitWithError(error);
     }
   }
 
@@ -266,8 +261,7 @@ export async function deleteBackup(id: string, options: DeleteOptions): Promise<
     output.success('Backup deleted successfully');
   } catch (error) {
     deleteSpinner.fail('Failed to delete backup');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -281,8 +275,7 @@ export async function restoreBackup(id: string, options: RestoreOptions): Promis
     fetchSpinner.stop();
   } catch (error) {
     fetchSpinner.fail('Failed to fetch backup');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 
   // Get user key if provided
@@ -407,8 +400,7 @@ export async function restoreBackup(id: string, options: RestoreOptions): Promis
     }
   } catch (error) {
     restoreSpinner.fail('Failed to restore backup');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -440,8 +432,7 @@ export async function showStats(options: { json?: boolean }): Promise<void> {
     console.log(table.toString());
   } catch (error) {
     spinner.fail('Failed to fetch stats');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -475,7 +466,6 @@ export async function showHealth(options: { json?: boolean }): Promise<void> {
     }
   } catch (error) {
     spinner.fail('Failed to check health');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
@@ -2,6 +2,7 @@ import { type Command } from 'commander';
 import ora from 'ora';
 import * as mode from '../lib/mode.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import type {
   CertificateMetadata,
   CertificateListResponse,
@@ -121,8 +122,7 @@ export function registerCertCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to list certificates');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -179,8 +179,7 @@ export function registerCertCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to get certificate');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -212,8 +211,7 @@ export function registerCertCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to decrypt certificate');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -258,8 +256,7 @@ export function registerCertCommands(program: Command): void {
         );
       } catch (err) {
         spinner.fail('Failed to check expiring certificates');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -301,8 +298,7 @@ export function registerCertCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to get statistics');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -363,8 +359,7 @@ export function registerCertCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to store certificate');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -412,8 +407,7 @@ export function registerCertCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to rotate certificate');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -451,8 +445,7 @@ export function registerCertCommands(program: Command): void {
 
         console.log('Certificate deleted successfully');
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -4,6 +4,7 @@ import { client } from '../lib/client.js';
 import * as mode from '../lib/mode.js';
 import { promptConfirm } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 
 interface ClusterStatusOptions {
   json?: boolean;
@@ -79,8 +80,7 @@ export function registerClusterCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to get cluster status');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -124,8 +124,7 @@ export function registerClusterCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -166,8 +165,7 @@ export function registerClusterCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -208,8 +206,7 @@ export function registerClusterCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -257,8 +254,7 @@ export function registerClusterCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
@@ -16,7 +16,7 @@ _znvault_completions() {
     _init_completion || return
 
     # Top-level commands
-    local commands="login logout whoami config profile health status cluster tenant user superadmin lockdown audit emergency cert agent update apikey policy permissions secret kms role backup notification tui dashboard self-update advisor crypto device unseal completion version help"
+    local commands="login logout whoami config profile health status cluster tenant user superadmin lockdown audit emergency cert agent update apikey policy permissions secret run kms role backup notification plan apply dump-config tui dashboard self-update advisor crypto device unseal completion version help"
 
     # Subcommands for each command group
     local cluster_cmds="status takeover release promote maintenance"
@@ -24,14 +24,14 @@ _znvault_completions() {
     local user_cmds="list get create update delete unlock reset-password disable-totp"
     local superadmin_cmds="list create reset-password unlock disable enable"
     local lockdown_cmds="status trigger clear history threats"
-    local audit_cmds="list verify export"
+    local audit_cmds="list tail verify report export"
     local agent_cmds="list get register-token revoke-token"
     local update_cmds="list get create upload set-latest"
     local apikey_cmds="list get create delete rotate permissions conditions enable disable policies attach-policy detach-policy self managed"
     local apikey_managed_cmds="list get create bind rotate config delete permissions conditions"
     local policy_cmds="list get create update delete toggle validate attachments attach-user attach-role detach-user detach-role test"
-    local secret_cmds="list get create update delete copy"
-    local kms_cmds="key encrypt decrypt sign verify"
+    local secret_cmds="list expiring get diff rollback create update delete copy render export import"
+    local kms_cmds="key encrypt decrypt encrypt-file decrypt-file re-encrypt sign verify get-public-key list-policies attach-policy detach-policy grant import-key-material"
     local role_cmds="list get create update delete users assign unassign"
     local backup_cmds="config list create restore delete"
     local notification_cmds="config test"
@@ -88,11 +88,20 @@ _znvault_completions() {
                 login) opts="--username -u --password -p --totp" ;;
                 health) opts="--json --leader" ;;
                 status) opts="--json" ;;
+                plan) opts="--file -f --tenant -t --prune --json" ;;
+                apply) opts="--file -f --tenant -t --prune --yes -y --json" ;;
+                dump-config) opts="--tenant -t --output -o --format" ;;
                 secret)
                     case "\${words[2]}" in
                         list) opts="--tenant -t --type --tag --json" ;;
+                        expiring) opts="--tenant -t --alias-prefix --days --critical --rotation-days --json" ;;
+                        diff) opts="--from --to --show-values --profile --alias-prefix --tenant -t --json" ;;
+                        rollback) opts="--to-version --reason --dry-run --force -f --tenant -t --json" ;;
                         get) opts="--tenant -t --json --decrypt" ;;
                         create) opts="--tenant -t --type --tags --expires --file --suggest --json" ;;
+                        render) opts="--output -o --tenant -t --watch -w --interval" ;;
+                        export) opts="--alias-prefix --output -o --tenant -t --kms-key --passphrase" ;;
+                        import) opts="--tenant -t --passphrase --on-conflict --dry-run --json" ;;
                         *) ;;
                     esac
                     ;;
@@ -180,10 +189,14 @@ _znvault() {
                 'policy:ABAC policy management'
                 'permissions:Manage and view permissions'
                 'secret:Manage secrets'
+                'run:Run a command with secrets as env vars'
                 'kms:KMS operations'
                 'role:RBAC role management'
                 'backup:Backup management'
                 'notification:Email notification configuration'
+                'plan:Show changes needed to match a manifest'
+                'apply:Apply a vault manifest'
+                'dump-config:Export configuration as a manifest'
                 'tui:Launch interactive terminal dashboard'
                 'dashboard:Launch interactive dashboard'
                 'self-update:Update znvault CLI'
@@ -236,11 +249,17 @@ _znvault() {
                 secret)
                     subcommands=(
                         'list:List secrets'
+                        'expiring:Secrets expiring or overdue for rotation'
                         'get:Get a secret'
                         'create:Create a secret'
                         'update:Update a secret'
+                        'diff:Compare versions or profiles'
+                        'rollback:Restore an earlier version'
                         'delete:Delete a secret'
                         'copy:Copy a secret'
+                        'render:Render a template with secrets'
+                        'export:Export secrets to an encrypted bundle'
+                        'import:Import secrets from a bundle'
                     )
                     _describe -t subcommands 'subcommand' subcommands
                     ;;
@@ -268,8 +287,17 @@ _znvault() {
                         'key:Key management'
                         'encrypt:Encrypt data'
                         'decrypt:Decrypt data'
+                        'encrypt-file:Envelope-encrypt a file'
+                        'decrypt-file:Decrypt an envelope-encrypted file'
+                        're-encrypt:Re-encrypt under the latest key version'
                         'sign:Sign data'
                         'verify:Verify signature'
+                        'get-public-key:Export the public key'
+                        'list-policies:List policies attached to a key'
+                        'attach-policy:Attach a policy to a key'
+                        'detach-policy:Detach a policy from a key'
+                        'grant:Manage grants on a key'
+                        'import-key-material:Import your own key material'
                     )
                     _describe -t subcommands 'subcommand' subcommands
                     ;;
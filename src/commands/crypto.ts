@@ -6,6 +6,7 @@ import ora from 'ora';
 import { client } from '../lib/client.js';
 import { promptConfirm } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import * as visual from '../lib/visual.js';
 
 interface CryptoStatusResponse {
@@ -115,8 +116,7 @@ export function registerCryptoCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to load crypto status');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -159,8 +159,7 @@ export function registerCryptoCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to list grants');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -187,8 +186,7 @@ export function registerCryptoCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to grant crypto access');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -224,8 +222,7 @@ export function registerCryptoCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to revoke crypto access');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -269,8 +266,7 @@ export function registerCryptoCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to transfer tenant root');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
@@ -11,6 +11,7 @@ import os from 'node:os';
 import { client } from '../lib/client.js';
 import { promptConfirm, promptInput } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import * as visual from '../lib/visual.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -210,8 +211,7 @@ export function registerDeviceCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to list devices');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -250,8 +250,7 @@ export function registerDeviceCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to revoke device');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -319,8 +318,7 @@ export function registerDeviceCommands(program: Command): void {
         }
       } catch (err) {
         checkSpinner.fail('Failed to check for existing key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
 
       // Generate key in Secure Enclave
@@ -334,8 +332,7 @@ export function registerDeviceCommands(program: Command): void {
         generateSpinner.succeed('Key generated in Secure Enclave');
       } catch (err) {
         generateSpinner.fail('Failed to generate key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
 
       // Register with server
@@ -387,14 +384,13 @@ export function registerDeviceCommands(program: Command): void {
         }
       } catch (err) {
         registerSpinner.fail('Failed to register device');
-        output.error(err instanceof Error ? err.message : String(err));
         // Clean up the generated key on failure
         try {
           execSecureEnclaveHelper(['delete']);
         } catch {
           // Ignore cleanup errors
         }
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -425,8 +421,7 @@ export function registerDeviceCommands(program: Command): void {
         spinner.succeed('Local key deleted');
       } catch (err) {
         spinner.fail('Failed to delete key');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
@@ -4,6 +4,7 @@ import chalk from 'chalk';
 import { LocalDBClient, isEmergencyDbAvailable } from '../lib/db.js';
 import { promptConfirm, promptNewPassword } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 
 // Option interfaces for each command
 interface UserStatusOptions {
@@ -70,8 +71,7 @@ export function registerEmergencyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Database connection failed');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -116,8 +116,7 @@ export function registerEmergencyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to get user status');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -169,8 +168,7 @@ export function registerEmergencyCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -212,8 +210,7 @@ export function registerEmergencyCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -258,8 +255,7 @@ export function registerEmergencyCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
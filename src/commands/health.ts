@@ -2,6 +2,7 @@ import { type Command } from 'commander';
 import ora from 'ora';
 import * as mode from '../lib/mode.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import * as visual from '../lib/visual.js';
 
 interface HealthOptions {
@@ -86,8 +87,7 @@ export function registerHealthCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Health check failed');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -186,8 +186,7 @@ export function registerHealthCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Status check failed');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -1,13 +1,50 @@
 // Path: znvault-cli/src/commands/kms.ts
 // CLI commands for KMS (Key Management Service) operations
 
+import fs from 'node:fs';
+import path from 'node:path';
 import { type Command } from 'commander';
-import ora from 'ora';
+import ora, { type Ora } from 'ora';
 import Table from 'cli-table3';
 import inquirer from 'inquirer';
 import { client } from '../lib/client.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import { getAuthContext } from '../lib/auth-context.js';
+import {
+  parseContext,
+  kmsEncrypt,
+  kmsDecrypt,
+  kmsGenerateDataKey,
+  wrapKeyMaterial,
+  IMPORT_WRAPPING_ALGORITHM,
+  type EncryptResponse,
+  type DecryptResponse,
+  type GenerateDataKeyResponse,
+} from '../lib/kms.js';
+import {
+  encryptFile,
+  decryptFile,
+  reencryptFile,
+  readEnvelopeHeader,
+  isEnvelopeFile,
+  DEFAULT_CHUNK_SIZE,
+  ENVELOPE_EXTENSION,
+  type ProgressCallback,
+} from '../lib/envelope.js';
+import {
+  parseSigningAlgorithm,
+  digestFile,
+  digestJwsSigningInput,
+  jwsHeader,
+  toDetachedJws,
+  parseDetachedJws,
+  exportPublicKey,
+  SIGNATURE_FORMATS,
+  SIGNING_ALGORITHMS,
+  type SignatureFormat,
+  type PublicKeyFormat,
+} from '../lib/kms-sign.js';
 
 // ============================================================================
 // Type Definitions
@@ -26,9 +63,33 @@ interface KMSKey {
   deletionDate?: string;
   currentVersionId?: string;
   rotationEnabled?: boolean;
+  origin?: string;
+  keyMaterialExpiresAt?: string;
   tags?: Record<string, string>;
 }
 
+interface KMSKeyPolicy {
+  policyId: string;
+  policyName: string;
+  effect?: string;
+  attachedAt: string;
+}
+
+interface KMSGrant {
+  grantId: string;
+  keyId: string;
+  name?: string;
+  granteePrincipal: string;
+  operations: string[];
+  constraints?: {
+    encryptionContextEquals?: Record<string, string>;
+    encryptionContextSubset?: Record<string, string>;
+  };
+  expiresAt?: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
 interface ListKeysResponse {
   keys: Array<{
     keyId: string;
@@ -40,24 +101,6 @@ interface ListKeysResponse {
   truncated: boolean;
 }
 
-interface EncryptResponse {
-  keyId: string;
-  ciphertext: string;
-  encryptionContext: Record<string, string>;
-}
-
-interface DecryptResponse {
-  keyId: string;
-  plaintext: string;
-  encryptionContext: Record<string, string>;
-}
-
-interface GenerateDataKeyResponse {
-  keyId: string;
-  plaintext?: string;
-  ciphertext: string;
-}
-
 interface ListOptions {
   tenant?: string;
   state?: string;
@@ -74,6 +117,7 @@ interface CreateOptions {
   description?: string;
   usage?: string;
   spec?: string;
+  origin?: string;
   tags?: string;
   json?: boolean;
 }
@@ -100,6 +144,117 @@ interface DeleteOptions {
   force?: boolean;
 }
 
+interface EncryptFileOptions {
+  output?: string;
+  context?: string;
+  chunkSize: string;
+  force?: boolean;
+  json?: boolean;
+}
+
+interface DecryptFileOptions {
+  output?: string;
+  force?: boolean;
+  json?: boolean;
+}
+
+interface ReEncryptOptions {
+  key?: string;
+  destinationKey?: string;
+  context?: string;
+  destinationContext?: string;
+  file?: string;
+  dir?: string;
+  output?: string;
+  force?: boolean;
+  json?: boolean;
+}
+
+interface ReEncryptResult {
+  file: string;
+  status: 're-encrypted' | 'skipped' | 'failed';
+  fromKeyId?: string;
+  fromVersion?: string;
+  toKeyId?: string;
+  toVersion?: string;
+  error?: string;
+}
+
+interface SignOptions {
+  file: string;
+  algorithm: string;
+  format: string;
+  output?: string;
+  json?: boolean;
+}
+
+interface VerifyOptions {
+  file: string;
+  signature: string;
+  algorithm: string;
+  format: string;
+  json?: boolean;
+}
+
+interface PublicKeyOptions {
+  format: string;
+  output?: string;
+  json?: boolean;
+}
+
+interface SignResponse {
+  keyId: string;
+  signature: string;
+  signingAlgorithm: string;
+}
+
+interface VerifyResponse {
+  keyId: string;
+  signatureValid: boolean;
+  signingAlgorithm: string;
+}
+
+interface PublicKeyResponse {
+  keyId: string;
+  publicKey: string;
+  keySpec?: string;
+  keyUsage?: string;
+  signingAlgorithms?: string[];
+}
+
+interface GrantCreateOptions {
+  principal: string;
+  operations: string;
+  expires?: string;
+  context?: string;
+  contextSubset?: string;
+  name?: string;
+  json?: boolean;
+}
+
+interface GrantListOptions {
+  all?: boolean;
+  json?: boolean;
+}
+
+interface GrantRevokeOptions {
+  force?: boolean;
+}
+
+interface ImportKeyMaterialOptions {
+  file: string;
+  encoding: string;
+  expires?: string;
+  json?: boolean;
+}
+
+interface ImportParametersResponse {
+  keyId: string;
+  publicKey: string;          // Wrapping key, base64 DER
+  importToken: string;
+  parametersValidTo: string;
+}
+
 interface GenerateDataKeyOptions {
   spec?: string;
   context?: string;
@@ -126,29 +281,109 @@ function formatKeyState(state: string): string {
   return stateMap[state] || state;
 }
 
-function parseContext(contextStr?: string): Record<string, string> {
-  if (!contextStr) return {};
-  try {
-    return JSON.parse(contextStr);
-  } catch {
-    // Try key=value format
-    const context: Record<string, string> = {};
-    const pairs = contextStr.split(',');
-    for (const pair of pairs) {
-      const [key, value] = pair.split('=');
-      if (key && value) {
-        context[key.trim()] = value.trim();
-      }
-    }
-    return context;
-  }
-}
-
 function truncateId(id: string, maxLen = 12): string {
   if (id.length <= maxLen) return id;
   return id.slice(0, maxLen - 2) + '..';
 }
 
+// Operations a grant can allow, named like the kms commands
+const GRANT_OPERATIONS = ['encrypt', 'decrypt', 'generate-data-key', 're-encrypt', 'sign', 'verify', 'get-public-key', 'describe'];
+
+const DURATION_UNITS_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/**
+ * Parse a grant expiry given as a duration (30m, 12h, 7d) or a date
+ */
+function parseExpiry(value: string): string {
+  const match = /^(\d+)([mhd])$/i.exec(value.trim());
+  if (match) {
+    const unit = DURATION_UNITS_MS[match[2].toLowerCase()];
+    return new Date(Date.now() + Number(match[1]) * unit).toISOString();
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+    throw new Error(`Invalid expiry "${value}". Use a duration such as 12h or 7d, or a future date`);
+  }
+  return date.toISOString();
+}
+
+function isGrantExpired(grant: KMSGrant): boolean {
+  return grant.expiresAt !== undefined && new Date(grant.expiresAt).getTime() <= Date.now();
+}
+
+function formatContext(context: Record<string, string> | undefined): string | undefined {
+  if (!context || Object.keys(context).length === 0) return undefined;
+  return Object.entries(context).map(([k, v]) => `${k}=${v}`).join(', ');
+}
+
+/**
+ * Grant details in the same layout as `kms get`
+ */
+function grantTable(grant: KMSGrant): string {
+  const table = new Table({
+    colWidths: [20, 60],
+  });
+
+  table.push(
+    ['Grant ID', grant.grantId],
+    ['Name', grant.name ?? '-'],
+    ['Key ID', grant.keyId],
+    ['Principal', grant.granteePrincipal],
+    ['Operations', grant.operations.join(', ')],
+    ['Status', isGrantExpired(grant) ? 'Expired' : 'Active'],
+    ['Expires', grant.expiresAt ? formatDate(grant.expiresAt) : 'Never'],
+    ['Created', formatDate(grant.createdAt)],
+  );
+
+  const equals = formatContext(grant.constraints?.encryptionContextEquals);
+  if (equals) {
+    table.push(['Context Equals', equals]);
+  }
+  const subset = formatContext(grant.constraints?.encryptionContextSubset);
+  if (subset) {
+    table.push(['Context Subset', subset]);
+  }
+  if (grant.createdBy) {
+    table.push(['Created By', grant.createdBy]);
+  }
+
+  return table.toString();
+}
+
+// Key material length for imports, by key spec
+const KEY_MATERIAL_BYTES: Partial<Record<string, number>> = { AES_256: 32, AES_128: 16 };
+
+const IMPORT_POLL_INTERVAL_MS = 1000;
+const IMPORT_POLL_TIMEOUT_MS = 30_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${String(bytes)} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/**
+ * Progress callback that updates the spinner text
+ */
+function spinnerProgress(spinner: Ora, label: string): ProgressCallback {
+  return (done, total) => {
+    const percent = total > 0 ? Math.floor((done / total) * 100) : 100;
+    spinner.text = `${label} ${String(percent)}% (${formatSize(done)} of ${formatSize(total)})`;
+  };
+}
+
+function ensureWritable(file: string, force?: boolean): void {
+  if (fs.existsSync(file) && !force) {
+    output.error(`Output file already exists: ${file} (use --force to overwrite)`);
+    process.exit(1);
+  }
+}
+
 // ============================================================================
 // Command Implementations
 // ============================================================================
@@ -192,8 +427,7 @@ async function listKeys(options: ListOptions): Promise<void> {
     output.info(`Total: ${response.keys.length} key(s)${response.truncated ? ' (more available)' : ''}`);
   } catch (error) {
     spinner.fail('Failed to list keys');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -236,6 +470,12 @@ async function getKey(keyId: string, options: GetOptions): Promise<void> {
     if (key.rotationEnabled !== undefined) {
       table.push(['Auto-Rotation', key.rotationEnabled ? 'Enabled' : 'Disabled']);
     }
+    if (key.origin) {
+      table.push(['Origin', key.origin]);
+    }
+    if (key.keyMaterialExpiresAt) {
+      table.push(['Material Expires', formatDate(key.keyMaterialExpiresAt)]);
+    }
     if (key.tags && Object.keys(key.tags).length > 0) {
       const tagStr = Object.entries(key.tags).map(([k, v]) => `${k}=${v}`).join(', ');
       table.push(['Tags', tagStr]);
@@ -244,8 +484,7 @@ async function getKey(keyId: string, options: GetOptions): Promise<void> {
     console.log(table.toString());
   } catch (error) {
     spinner.fail('Failed to get key');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -273,6 +512,7 @@ async function createKey(options: CreateOptions): Promise<void> {
     if (options.description) body.description = options.description;
     if (options.usage) body.usage = options.usage;
     if (options.spec) body.keySpec = options.spec;
+    if (options.origin) body.origin = options.origin.toUpperCase();
     if (options.tags) {
       const tags: Array<{ key: string; value: string }> = [];
       const pairs = options.tags.split(',');
@@ -300,10 +540,12 @@ async function createKey(options: CreateOptions): Promise<void> {
     console.log(`  State:   ${result.keyState}`);
     console.log(`  Usage:   ${result.keyUsage}`);
     console.log(`  Spec:    ${result.keySpec}`);
+    if (result.keyState === 'PendingImport') {
+      output.info(`Import key material with: znvault kms import-key-material ${result.keyId} --file <material>`);
+    }
   } catch (error) {
     spinner.fail('Failed to create key');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -363,8 +605,7 @@ async function encryptData(keyId: string, data: string | undefined, options: Enc
     }
   } catch (error) {
     spinner.fail('Failed to encrypt data');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -423,8 +664,7 @@ async function decryptData(keyId: string, ciphertext: string | undefined, option
     console.log(decrypted.toString('utf-8'));
   } catch (error) {
     spinner.fail('Failed to decrypt data');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -445,8 +685,7 @@ async function rotateKey(keyId: string, options: RotateOptions): Promise<void> {
     console.log(`  New Version:   ${result.newVersionId}`);
   } catch (error) {
     spinner.fail('Failed to rotate key');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -474,8 +713,7 @@ async function deleteKey(keyId: string, options: DeleteOptions): Promise<void> {
       }
     } catch (error) {
       spinner.fail('Failed to fetch key');
-      output.error((error as Error).message);
-      process.exit(1);
+      exitWithError(error);
     }
   }
 
@@ -494,8 +732,7 @@ async function deleteKey(keyId: string, options: DeleteOptions): Promise<void> {
     output.warn('You can cancel the deletion before the scheduled date by enabling the key.');
   } catch (error) {
     deleteSpinner.fail('Failed to schedule key deletion');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -539,9 +776,703 @@ async function generateDataKey(keyId: string, options: GenerateDataKeyOptions):
     output.info('\nStore the encrypted key to unwrap the data key later using KMS decrypt.');
   } catch (error) {
     spinner.fail('Failed to generate data key');
-    output.error((error as Error).message);
+    exitWithError(error);
+  }
+}
+
+async function encryptFileEnvelope(keyId: string, file: string, options: EncryptFileOptions): Promise<void> {
+  const outputPath = options.output ?? file + ENVELOPE_EXTENSION;
+  const chunkSize = parseInt(options.chunkSize, 10);
+
+  if (!fs.existsSync(file)) {
+    output.error(`File not found: ${file}`);
+    process.exit(1);
+  }
+  ensureWritable(outputPath, options.force);
+
+  const spinner = ora('Generating data key...').start();
+
+  try {
+    const context = parseContext(options.context);
+    const dataKey = await kmsGenerateDataKey(keyId, JSON.stringify(context));
+    const resolvedKeyId = dataKey.keyId || keyId;
+    const { keyMetadata } = await client.get<{ keyMetadata: KMSKey }>(`/v1/kms/keys/${resolvedKeyId}`);
+
+    spinner.text = 'Encrypting...';
+    const header = await encryptFile(
+      file,
+      outputPath,
+      dataKey.plaintext,
+      { keyId: resolvedKeyId, keyVersion: keyMetadata.currentVersionId, encryptedKey: dataKey.ciphertext, context },
+      { chunkSize, onProgress: spinnerProgress(spinner, 'Encrypting') }
+    );
+    dataKey.plaintext.fill(0);
+    spinner.stop();
+
+    const size = fs.statSync(file).size;
+    if (options.json) {
+      output.json({ input: file, output: outputPath, bytes: size, keyId: header.keyId, keyVersion: header.keyVersion, chunkSize: header.chunkSize });
+      return;
+    }
+
+    output.success(`Encrypted ${formatSize(size)} to ${outputPath}`);
+    console.log(`  Key ID:      ${header.keyId}`);
+    console.log(`  Key Version: ${header.keyVersion ?? '-'}`);
+  } catch (error) {
+    spinner.fail('Failed to encrypt file');
+    exitWithError(error);
+  }
+}
+
+async function decryptFileEnvelope(file: string, options: DecryptFileOptions): Promise<void> {
+  let outputPath = options.output;
+  if (!outputPath) {
+    if (!file.endsWith(ENVELOPE_EXTENSION)) {
+      output.error(`Cannot derive the output name from ${file}; use --output`);
+      process.exit(1);
+    }
+    outputPath = file.slice(0, -ENVELOPE_EXTENSION.length);
+  }
+  ensureWritable(outputPath, options.force);
+
+  const spinner = ora('Unwrapping data key...').start();
+
+  try {
+    const { header } = await readEnvelopeHeader(file);
+    const dataKey = await kmsDecrypt(header.keyId, header.encryptedKey, JSON.stringify(header.context));
+
+    spinner.text = 'Decrypting...';
+    await decryptFile(file, outputPath, dataKey, { onProgress: spinnerProgress(spinner, 'Decrypting') });
+    dataKey.fill(0);
+    spinner.stop();
+
+    const size = fs.statSync(outputPath).size;
+    if (options.json) {
+      output.json({ input: file, output: outputPath, bytes: size, keyId: header.keyId, keyVersion: header.keyVersion, context: header.context });
+      return;
+    }
+
+    output.success(`Decrypted ${formatSize(size)} to ${outputPath}`);
+  } catch (error) {
+    spinner.fail('Failed to decrypt file');
+    exitWithError(error);
+  }
+}
+
+/**
+ * Re-encrypt a raw KMS ciphertext (argument or file) under the current
+ * version of the same or another key
+ */
+async function reencryptCiphertext(ciphertext: string, options: ReEncryptOptions): Promise<void> {
+  if (!options.key) {
+    output.error('--key is required to re-encrypt a raw ciphertext');
+    process.exit(1);
+  }
+
+  const spinner = ora('Re-encrypting...').start();
+
+  try {
+    const plaintext = await kmsDecrypt(options.key, ciphertext.trim(), options.context);
+    const result = await kmsEncrypt(options.destinationKey ?? options.key, plaintext, options.destinationContext ?? options.context);
+    plaintext.fill(0);
+    spinner.stop();
+
+    const outputPath = options.output ?? options.file;
+    if (outputPath) {
+      fs.writeFileSync(outputPath, result.ciphertext);
+    }
+
+    if (options.json) {
+      output.json({ sourceKeyId: options.key, keyId: result.keyId, ciphertext: result.ciphertext, output: outputPath });
+      return;
+    }
+
+    if (outputPath) {
+      output.success(`Re-encrypted ciphertext under ${result.keyId} written to: ${outputPath}`);
+      return;
+    }
+
+    console.log('\n--- Re-encrypted Data ---');
+    console.log(`Key ID: ${result.keyId}`);
+    console.log(`\nCiphertext (base64):`);
+    console.log(result.ciphertext);
+  } catch (error) {
+    spinner.fail('Failed to re-encrypt data');
+    exitWithError(error);
+  }
+}
+
+/**
+ * Re-encrypt envelope files under a fresh data key from the current version
+ * of their own key (or --destination-key). Files already on that version are
+ * skipped unless --force or a new context is given.
+ */
+async function reencryptEnvelopes(files: string[], options: ReEncryptOptions): Promise<void> {
+  const results: ReEncryptResult[] = [];
+  const currentVersions = new Map<string, KMSKey>();
+  const spinner = ora('Re-encrypting...').start();
+
+  const currentKey = async (keyId: string): Promise<KMSKey> => {
+    let key = currentVersions.get(keyId);
+    if (!key) {
+      ({ keyMetadata: key } = await client.get<{ keyMetadata: KMSKey }>(`/v1/kms/keys/${keyId}`));
+      currentVersions.set(keyId, key);
+    }
+    return key;
+  };
+
+  for (const [index, file] of files.entries()) {
+    const label = `Re-encrypting ${String(index + 1)}/${String(files.length)} ${file}`;
+    spinner.text = label;
+    const result: ReEncryptResult = { file, status: 'failed' };
+    results.push(result);
+
+    try {
+      const { header } = await readEnvelopeHeader(file);
+      result.fromKeyId = header.keyId;
+      result.fromVersion = header.keyVersion;
+
+      const destination = await currentKey(options.destinationKey ?? header.keyId);
+      const context = options.destinationContext !== undefined ? parseContext(options.destinationContext) : header.context;
+      result.toKeyId = destination.keyId;
+      result.toVersion = destination.currentVersionId;
+
+      const upToDate = header.keyId === destination.keyId &&
+        header.keyVersion !== undefined && header.keyVersion === destination.currentVersionId;
+      if (upToDate && !options.force && options.destinationContext === undefined) {
+        result.status = 'skipped';
+        continue;
+      }
+
+      const oldDataKey = await kmsDecrypt(header.keyId, header.encryptedKey, JSON.stringify(header.context));
+      const newDataKey = await kmsGenerateDataKey(destination.keyId, JSON.stringify(context));
+      try {
+        await reencryptFile(
+          file,
+          options.output ?? file,
+          oldDataKey,
+          newDataKey.plaintext,
+          { keyId: newDataKey.keyId, keyVersion: destination.currentVersionId, encryptedKey: newDataKey.ciphertext, context },
+          { onProgress: spinnerProgress(spinner, label) }
+        );
+      } finally {
+        oldDataKey.fill(0);
+        newDataKey.plaintext.fill(0);
+      }
+      result.status = 're-encrypted';
+    } catch (err) {
+      result.error = err instanceof Error ? err.message : String(err);
+    }
+  }
+  spinner.stop();
+
+  const count = (status: ReEncryptResult['status']): number => results.filter(r => r.status === status).length;
+  const failed = count('failed');
+
+  if (options.json) {
+    output.json({
+      processed: results.length,
+      reEncrypted: count('re-encrypted'),
+      skipped: count('skipped'),
+      failed,
+      files: results,
+    });
+  } else {
+    const table = new Table({
+      head: ['File', 'Status', 'From', 'To'],
+    });
+    const keyVersion = (keyId?: string, version?: string): string =>
+      keyId ? `${truncateId(keyId, 20)}${version ? ` @ ${version}` : ''}` : '-';
+
+    for (const r of results) {
+      const status = r.status === 'failed' ? `failed: ${r.error ?? 'unknown error'}` : r.status;
+      table.push([r.file, status, keyVersion(r.fromKeyId, r.fromVersion), keyVersion(r.toKeyId, r.toVersion)]);
+    }
+    console.log(table.toString());
+
+    const summary = `${String(results.length)} processed: ${String(count('re-encrypted'))} re-encrypted, ` +
+      `${String(count('skipped'))} skipped, ${String(failed)} failed`;
+    if (failed > 0) {
+      output.error(summary);
+    } else {
+      output.success(summary);
+    }
+  }
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+async function reencrypt(ciphertext: string | undefined, options: ReEncryptOptions): Promise<void> {
+  const sources = [ciphertext, options.file, options.dir].filter(source => source !== undefined);
+  if (sources.length !== 1) {
+    output.error('Specify exactly one of <ciphertext>, --file or --dir');
+    process.exit(1);
+  }
+
+  if (ciphertext !== undefined) {
+    await reencryptCiphertext(ciphertext, options);
+    return;
+  }
+
+  if (options.file) {
+    if (!fs.existsSync(options.file)) {
+      output.error(`File not found: ${options.file}`);
+      process.exit(1);
+    }
+    if (isEnvelopeFile(options.file)) {
+      await reencryptEnvelopes([options.file], options);
+    } else {
+      await reencryptCiphertext(fs.readFileSync(options.file, 'utf-8'), options);
+    }
+    return;
+  }
+
+  const dir = options.dir ?? '';
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    output.error(`Directory not found: ${dir}`);
     process.exit(1);
   }
+  if (options.output) {
+    output.error('--output cannot be used with --dir; files are re-encrypted in place');
+    process.exit(1);
+  }
+
+  const files = fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isFile() && entry.name.endsWith(ENVELOPE_EXTENSION))
+    .map(entry => path.join(dir, entry.name))
+    .sort();
+
+  if (files.length === 0) {
+    output.info(`No ${ENVELOPE_EXTENSION} files found in ${dir}`);
+    return;
+  }
+
+  await reencryptEnvelopes(files, options);
+}
+
+function parseSignatureFormat(value: string): SignatureFormat {
+  if (!SIGNATURE_FORMATS.includes(value as SignatureFormat)) {
+    output.error(`Invalid format "${value}". Use one of: ${SIGNATURE_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+  return value as SignatureFormat;
+}
+
+async function signFile(keyId: string, options: SignOptions): Promise<void> {
+  const format = parseSignatureFormat(options.format);
+
+  if (!fs.existsSync(options.file)) {
+    output.error(`File not found: ${options.file}`);
+    process.exit(1);
+  }
+  if (format === 'raw' && !options.output) {
+    output.error('Raw signatures are binary; use --output <file>');
+    process.exit(1);
+  }
+
+  const spinner = ora('Signing...').start();
+
+  try {
+    const algorithm = parseSigningAlgorithm(options.algorithm);
+    const encodedHeader = jwsHeader(algorithm, keyId);
+    const digest = format === 'jws'
+      ? await digestJwsSigningInput(encodedHeader, options.file, algorithm)
+      : await digestFile(options.file, algorithm);
+
+    const result = await client.post<SignResponse>('/v1/kms/sign', {
+      keyId,
+      message: digest.toString('base64'),
+      messageType: 'DIGEST',
+      signingAlgorithm: algorithm,
+    });
+    spinner.stop();
+
+    const signature = Buffer.from(result.signature, 'base64');
+    const encoded = format === 'jws' ? toDetachedJws(encodedHeader, signature, algorithm) : result.signature;
+
+    if (options.output) {
+      fs.writeFileSync(options.output, format === 'raw' ? signature : encoded + '\n');
+    }
+
+    if (options.json) {
+      output.json({ keyId: result.keyId, signingAlgorithm: algorithm, format, signature: encoded, output: options.output });
+      return;
+    }
+
+    if (options.output) {
+      output.success(`Signature (${format}) written to: ${options.output}`);
+      return;
+    }
+    console.log(encoded);
+  } catch (error) {
+    spinner.fail('Failed to sign');
+    exitWithError(error);
+  }
+}
+
+async function verifySignature(keyId: string, options: VerifyOptions): Promise<void> {
+  const format = parseSignatureFormat(options.format);
+
+  if (!fs.existsSync(options.file)) {
+    output.error(`File not found: ${options.file}`);
+    process.exit(1);
+  }
+
+  // --signature is a file path or the signature itself
+  const signatureInput = fs.existsSync(options.signature) ? fs.readFileSync(options.signature) : undefined;
+  if (format === 'raw' && !signatureInput) {
+    output.error(`Signature file not found: ${options.signature}`);
+    process.exit(1);
+  }
+  const signatureText = (signatureInput?.toString('utf-8') ?? options.signature).trim();
+
+  const spinner = ora('Verifying signature...').start();
+
+  try {
+    let algorithm = parseSigningAlgorithm(options.algorithm);
+    let signature: Buffer;
+    let digest: Buffer;
+
+    if (format === 'jws') {
+      const jws = parseDetachedJws(signatureText);
+      algorithm = jws.algorithm;
+      signature = jws.signature;
+      digest = await digestJwsSigningInput(jws.encodedHeader, options.file, algorithm);
+    } else {
+      signature = format === 'raw' && signatureInput ? signatureInput : Buffer.from(signatureText, 'base64');
+      digest = await digestFile(options.file, algorithm);
+    }
+
+    const result = await client.post<VerifyResponse>('/v1/kms/verify', {
+      keyId,
+      message: digest.toString('base64'),
+      messageType: 'DIGEST',
+      signature: signature.toString('base64'),
+      signingAlgorithm: algorithm,
+    });
+    spinner.stop();
+
+    if (options.json) {
+      output.json({ keyId: result.keyId, signingAlgorithm: algorithm, signatureValid: result.signatureValid });
+    } else if (result.signatureValid) {
+      output.success(`Signature is valid (${algorithm})`);
+    } else {
+      output.error(`Signature is NOT valid (${algorithm})`);
+    }
+
+    if (!result.signatureValid) {
+      process.exit(1);
+    }
+  } catch (error) {
+    spinner.fail('Failed to verify signature');
+    exitWithError(error);
+  }
+}
+
+async function getPublicKey(keyId: string, options: PublicKeyOptions): Promise<void> {
+  const formats: PublicKeyFormat[] = ['pem', 'jwk', 'der'];
+  const format = options.format as PublicKeyFormat;
+  if (!formats.includes(format)) {
+    output.error(`Invalid format "${options.format}". Use one of: ${formats.join(', ')}`);
+    process.exit(1);
+  }
+  if (format === 'der' && !options.output && !options.json) {
+    output.error('DER is binary; use --output <file>');
+    process.exit(1);
+  }
+
+  const spinner = ora('Fetching public key...').start();
+
+  try {
+    const result = await client.get<PublicKeyResponse>(`/v1/kms/keys/${keyId}/public-key`);
+    spinner.stop();
+
+    const publicKey = exportPublicKey(result.publicKey, format, result.keyId);
+
+    if (options.output) {
+      fs.writeFileSync(options.output, publicKey);
+    }
+
+    if (options.json) {
+      output.json({
+        keyId: result.keyId,
+        keySpec: result.keySpec,
+        keyUsage: result.keyUsage,
+        signingAlgorithms: result.signingAlgorithms,
+        format,
+        publicKey: typeof publicKey === 'string' ? publicKey : publicKey.toString('base64'),
+      });
+      return;
+    }
+
+    if (options.output) {
+      output.success(`Public key (${format}) written to: ${options.output}`);
+      return;
+    }
+    process.stdout.write(publicKey);
+  } catch (error) {
+    spinner.fail('Failed to fetch public key');
+    exitWithError(error);
+  }
+}
+
+async function listKeyPolicies(keyId: string, options: { json?: boolean }): Promise<void> {
+  const spinner = ora('Fetching key policies...').start();
+
+  try {
+    const result = await client.get<{ policies: KMSKeyPolicy[] }>(`/v1/kms/keys/${keyId}/policies`);
+    spinner.stop();
+
+    if (options.json) {
+      output.json(result.policies);
+      return;
+    }
+
+    if (result.policies.length === 0) {
+      output.info('No policies attached to this key');
+      return;
+    }
+
+    const table = new Table({
+      head: ['Policy ID', 'Policy Name', 'Effect', 'Attached'],
+      colWidths: [40, 30, 10, 24],
+    });
+
+    for (const policy of result.policies) {
+      table.push([
+        policy.policyId,
+        policy.policyName,
+        policy.effect ? policy.effect.toUpperCase() : '-',
+        formatDate(policy.attachedAt),
+      ]);
+    }
+
+    console.log(table.toString());
+    output.info(`Total: ${String(result.policies.length)} policy/policies`);
+  } catch (error) {
+    spinner.fail('Failed to fetch key policies');
+    exitWithError(error);
+  }
+}
+
+async function attachKeyPolicy(keyId: string, policyId: string): Promise<void> {
+  const spinner = ora('Attaching policy...').start();
+
+  try {
+    await client.post(`/v1/kms/keys/${keyId}/policies/${policyId}`, {});
+    spinner.succeed(`Policy ${policyId} attached to key ${keyId}`);
+  } catch (error) {
+    spinner.fail('Failed to attach policy');
+    exitWithError(error);
+  }
+}
+
+async function detachKeyPolicy(keyId: string, policyId: string): Promise<void> {
+  const spinner = ora('Detaching policy...').start();
+
+  try {
+    await client.delete(`/v1/kms/keys/${keyId}/policies/${policyId}`);
+    spinner.succeed(`Policy ${policyId} detached from key ${keyId}`);
+  } catch (error) {
+    spinner.fail('Failed to detach policy');
+    exitWithError(error);
+  }
+}
+
+async function createGrant(keyId: string, options: GrantCreateOptions): Promise<void> {
+  const operations = options.operations.split(',').map(op => op.trim().toLowerCase()).filter(Boolean);
+  const unknown = operations.filter(op => !GRANT_OPERATIONS.includes(op));
+  if (operations.length === 0 || unknown.length > 0) {
+    output.error(`Invalid operations: ${unknown.join(', ') || '(none)'}. Use: ${GRANT_OPERATIONS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const spinner = ora('Creating grant...').start();
+
+  try {
+    const body: Record<string, unknown> = {
+      granteePrincipal: options.principal,
+      operations,
+    };
+    if (options.name) body.name = options.name;
+    if (options.expires) body.expiresAt = parseExpiry(options.expires);
+
+    const constraints: KMSGrant['constraints'] = {};
+    if (options.context) constraints.encryptionContextEquals = parseContext(options.context);
+    if (options.contextSubset) constraints.encryptionContextSubset = parseContext(options.contextSubset);
+    if (Object.keys(constraints).length > 0) body.constraints = constraints;
+
+    const grant = await client.post<KMSGrant>(`/v1/kms/keys/${keyId}/grants`, body);
+    spinner.stop();
+
+    if (options.json) {
+      output.json(grant);
+      return;
+    }
+
+    output.success('Grant created');
+    console.log(grantTable(grant));
+    if (!grant.expiresAt) {
+      output.warn('This grant never expires; revoke it with "kms grant revoke" when no longer needed.');
+    }
+  } catch (error) {
+    spinner.fail('Failed to create grant');
+    exitWithError(error);
+  }
+}
+
+async function listGrants(keyId: string, options: GrantListOptions): Promise<void> {
+  const spinner = ora('Fetching grants...').start();
+
+  try {
+    const result = await client.get<{ grants: KMSGrant[] }>(`/v1/kms/keys/${keyId}/grants`);
+    spinner.stop();
+
+    const grants = options.all ? result.grants : result.grants.filter(grant => !isGrantExpired(grant));
+    const hidden = result.grants.length - grants.length;
+
+    if (options.json) {
+      output.json(grants);
+      return;
+    }
+
+    if (grants.length === 0) {
+      output.info(`No active grants for this key${hidden > 0 ? ` (${String(hidden)} expired, use --all)` : ''}`);
+      return;
+    }
+
+    for (const grant of grants) {
+      console.log(grantTable(grant));
+    }
+    output.info(`Total: ${String(grants.length)} grant(s)${hidden > 0 ? `, ${String(hidden)} expired not shown (use --all)` : ''}`);
+  } catch (error) {
+    spinner.fail('Failed to list grants');
+    exitWithError(error);
+  }
+}
+
+async function revokeGrant(keyId: string, grantId: string, options: GrantRevokeOptions): Promise<void> {
+  if (!options.force) {
+    const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+      {
+        type: 'confirm',
+        name: 'confirm',
+        message: `Revoke grant ${grantId} on key ${keyId}? The principal loses access immediately.`,
+        default: false,
+      },
+    ]);
+
+    if (!confirm) {
+      output.info('Revocation cancelled');
+      return;
+    }
+  }
+
+  const spinner = ora('Revoking grant...').start();
+
+  try {
+    await client.delete(`/v1/kms/keys/${keyId}/grants/${grantId}`);
+    spinner.succeed(`Grant ${grantId} revoked`);
+  } catch (error) {
+    spinner.fail('Failed to revoke grant');
+    exitWithError(error);
+  }
+}
+
+function readKeyMaterial(file: string, encoding: string): Buffer {
+  const content = fs.readFileSync(file);
+  switch (encoding) {
+    case 'raw':
+      return content;
+    case 'base64':
+      return Buffer.from(content.toString('utf-8').trim(), 'base64');
+    case 'hex':
+      return Buffer.from(content.toString('utf-8').trim(), 'hex');
+    default:
+      output.error(`Invalid encoding "${encoding}". Use raw, base64 or hex`);
+      process.exit(1);
+  }
+}
+
+/**
+ * Import externally generated key material into a key created with
+ * --origin EXTERNAL. The material is wrapped locally with the KMS wrapping
+ * key, so it never leaves this machine in plaintext.
+ */
+async function importKeyMaterial(keyId: string, options: ImportKeyMaterialOptions): Promise<void> {
+  if (!fs.existsSync(options.file)) {
+    output.error(`File not found: ${options.file}`);
+    process.exit(1);
+  }
+  const material = readKeyMaterial(options.file, options.encoding);
+
+  const spinner = ora('Fetching key...').start();
+
+  try {
+    const validTo = options.expires ? parseExpiry(options.expires) : undefined;
+    const { keyMetadata: key } = await client.get<{ keyMetadata: KMSKey }>(`/v1/kms/keys/${keyId}`);
+
+    if (key.keyState !== 'PendingImport') {
+      throw new Error(`Key ${keyId} is ${formatKeyState(key.keyState)}. Only keys created with --origin EXTERNAL that are pending import accept key material`);
+    }
+    const expectedBytes = KEY_MATERIAL_BYTES[key.keySpec];
+    if (expectedBytes === undefined) {
+      throw new Error(`Key spec ${key.keySpec} does not support key material import (supported: ${Object.keys(KEY_MATERIAL_BYTES).join(', ')})`);
+    }
+    if (material.length !== expectedBytes) {
+      throw new Error(`${key.keySpec} key material must be ${String(expectedBytes)} bytes, got ${String(material.length)}`);
+    }
+
+    spinner.text = 'Fetching wrapping key and import token...';
+    const params = await client.post<ImportParametersResponse>(`/v1/kms/keys/${keyId}/import-parameters`, {
+      wrappingAlgorithm: IMPORT_WRAPPING_ALGORITHM,
+      wrappingKeySpec: 'RSA_4096',
+    });
+
+    const wrapped = wrapKeyMaterial(material, params.publicKey);
+    material.fill(0);
+
+    spinner.text = 'Importing key material...';
+    await client.post(`/v1/kms/keys/${keyId}/import`, {
+      importToken: params.importToken,
+      encryptedKeyMaterial: wrapped.toString('base64'),
+      expirationModel: validTo ? 'KEY_MATERIAL_EXPIRES' : 'KEY_MATERIAL_DOES_NOT_EXPIRE',
+      validTo,
+    });
+
+    // The key leaves PendingImport once the server has unwrapped the material
+    const deadline = Date.now() + IMPORT_POLL_TIMEOUT_MS;
+    let state = key.keyState;
+    for (;;) {
+      spinner.text = `Waiting for key to become Enabled (${formatKeyState(state)})...`;
+      ({ keyMetadata: { keyState: state } } = await client.get<{ keyMetadata: KMSKey }>(`/v1/kms/keys/${keyId}`));
+      if (state === 'Enabled' || Date.now() >= deadline) break;
+      await sleep(IMPORT_POLL_INTERVAL_MS);
+    }
+    spinner.stop();
+
+    if (options.json) {
+      output.json({ keyId, keyState: state, wrappingAlgorithm: IMPORT_WRAPPING_ALGORITHM, validTo: validTo ?? null });
+      return;
+    }
+
+    output.success('Key material imported');
+    console.log(`  Key ID:           ${keyId}`);
+    console.log(`  State:            ${formatKeyState(key.keyState)} -> ${formatKeyState(state)}`);
+    console.log(`  Material Expires: ${validTo ? formatDate(validTo) : 'Never'}`);
+
+    if (state !== 'Enabled') {
+      output.warn(`Key is not Enabled yet; check again with "znvault kms get ${keyId}"`);
+    } else if (validTo) {
+      output.warn('The key becomes unusable when the material expires; re-import the same material to extend it.');
+    }
+  } catch (error) {
+    material.fill(0);
+    spinner.fail('Failed to import key material');
+    exitWithError(error);
+  }
 }
 
 async function enableKey(keyId: string): Promise<void> {
@@ -553,8 +1484,7 @@ async function enableKey(keyId: string): Promise<void> {
     output.success(`Key ${keyId} enabled`);
   } catch (error) {
     spinner.fail('Failed to enable key');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -567,8 +1497,7 @@ async function disableKey(keyId: string): Promise<void> {
     output.success(`Key ${keyId} disabled`);
   } catch (error) {
     spinner.fail('Failed to disable key');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -605,8 +1534,7 @@ async function listVersions(keyId: string, options: { json?: boolean }): Promise
     console.log(table.toString());
   } catch (error) {
     spinner.fail('Failed to fetch versions');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -644,6 +1572,7 @@ export function registerKmsCommands(program: Command): void {
     .option('-d, --description <desc>', 'Key description')
     .option('--usage <usage>', 'Key usage (ENCRYPT_DECRYPT, SIGN_VERIFY)', 'ENCRYPT_DECRYPT')
     .option('--spec <spec>', 'Key spec (AES_256, AES_128, RSA_2048, RSA_4096)', 'AES_256')
+    .option('--origin <origin>', 'Key material origin (EXTERNAL to import your own key material)')
     .option('--tags <tags>', 'Comma-separated tags (key=value,...)')
     .option('--json', 'Output as JSON')
     .action(createKey);
@@ -677,6 +1606,129 @@ export function registerKmsCommands(program: Command): void {
     .option('--json', 'Output as JSON')
     .action(generateDataKey);
 
+  // Envelope-encrypt a file locally
+  kms
+    .command('encrypt-file <keyId> <file>')
+    .description('Encrypt a file locally with a KMS data key (any size)')
+    .option('-o, --output <file>', `Output file (default: <file>${ENVELOPE_EXTENSION})`)
+    .option('-c, --context <context>', 'Encryption context (JSON or key=value,...)')
+    .option('--chunk-size <bytes>', 'Plaintext bytes per encrypted chunk', String(DEFAULT_CHUNK_SIZE))
+    .option('-f, --force', 'Overwrite the output file')
+    .option('--json', 'Output as JSON')
+    .action(encryptFileEnvelope);
+
+  // Decrypt an envelope-encrypted file
+  kms
+    .command('decrypt-file <file>')
+    .description('Decrypt a file written by encrypt-file')
+    .option('-o, --output <file>', `Output file (default: <file> without ${ENVELOPE_EXTENSION})`)
+    .option('-f, --force', 'Overwrite the output file')
+    .option('--json', 'Output as JSON')
+    .action(decryptFileEnvelope);
+
+  // Re-encrypt under the current key version or another key
+  kms
+    .command('re-encrypt [ciphertext]')
+    .description('Re-encrypt ciphertexts or envelope files under the latest key version')
+    .option('--key <keyId>', 'Key the raw ciphertext is encrypted under')
+    .option('--destination-key <keyId>', 'Key to re-encrypt under (default: the same key)')
+    .option('-c, --context <context>', 'Encryption context of the raw ciphertext (JSON or key=value,...)')
+    .option('--destination-context <context>', 'New encryption context (default: keep the current one)')
+    .option('--file <path>', 'File with a base64 ciphertext or an envelope file (rewritten in place)')
+    .option('--dir <path>', `Directory of ${ENVELOPE_EXTENSION} envelope files (rewritten in place)`)
+    .option('-o, --output <file>', 'Write to this file instead')
+    .option('-f, --force', 'Re-encrypt envelope files already on the latest key version')
+    .option('--json', 'Output as JSON')
+    .action(reencrypt);
+
+  // Sign a file with a SIGN_VERIFY key
+  kms
+    .command('sign <keyId>')
+    .description('Create a detached signature for a file')
+    .requiredOption('--file <file>', 'File to sign')
+    .option('--algorithm <algorithm>', `Signing algorithm (${SIGNING_ALGORITHMS.join(', ')})`, 'RSASSA_PSS_SHA_256')
+    .option('--format <format>', 'Signature format (raw, base64, jws)', 'base64')
+    .option('-o, --output <file>', 'Write the signature to a file')
+    .option('--json', 'Output as JSON')
+    .action(signFile);
+
+  // Verify a detached signature
+  kms
+    .command('verify <keyId>')
+    .description('Verify a detached signature for a file')
+    .requiredOption('--file <file>', 'Signed file')
+    .requiredOption('--signature <signature>', 'Signature file, or the signature itself')
+    .option('--algorithm <algorithm>', 'Signing algorithm (taken from the header for JWS)', 'RSASSA_PSS_SHA_256')
+    .option('--format <format>', 'Signature format (raw, base64, jws)', 'base64')
+    .option('--json', 'Output as JSON')
+    .action(verifySignature);
+
+  // Export the public key of an asymmetric key
+  kms
+    .command('get-public-key <keyId>')
+    .description('Export the public key for offline verification')
+    .option('--format <format>', 'Key format (pem, jwk, der)', 'pem')
+    .option('-o, --output <file>', 'Write the key to a file')
+    .option('--json', 'Output as JSON')
+    .action(getPublicKey);
+
+  // Key policies
+  kms
+    .command('list-policies <keyId>')
+    .description('List ABAC policies attached to a key')
+    .option('--json', 'Output as JSON')
+    .action(listKeyPolicies);
+
+  kms
+    .command('attach-policy <keyId> <policyId>')
+    .description('Attach an ABAC policy to a key')
+    .action(attachKeyPolicy);
+
+  kms
+    .command('detach-policy <keyId> <policyId>')
+    .description('Detach an ABAC policy from a key')
+    .action(detachKeyPolicy);
+
+  // Grants
+  const grant = kms
+    .command('grant')
+    .description('Manage time-limited grants on a key');
+
+  grant
+    .command('create <keyId>')
+    .description('Grant a principal operations on a key')
+    .requiredOption('--principal <principal>', 'Grantee (user, role or API key)')
+    .requiredOption('--operations <operations>', `Allowed operations, comma-separated (${GRANT_OPERATIONS.join(', ')})`)
+    .option('-e, --expires <expiry>', 'Expiry as a duration (30m, 12h, 7d) or a date')
+    .option('-c, --context <context>', 'Require exactly this encryption context (JSON or key=value,...)')
+    .option('--context-subset <context>', 'Require the encryption context to include these pairs')
+    .option('--name <name>', 'Grant name')
+    .option('--json', 'Output as JSON')
+    .action(createGrant);
+
+  grant
+    .command('list <keyId>')
+    .description('List grants on a key')
+    .option('--all', 'Include expired grants')
+    .option('--json', 'Output as JSON')
+    .action(listGrants);
+
+  grant
+    .command('revoke <keyId> <grantId>')
+    .description('Revoke a grant')
+    .option('-f, --force', 'Skip confirmation')
+    .action(revokeGrant);
+
+  // Bring your own key
+  kms
+    .command('import-key-material <keyId>')
+    .description('Import your own key material into a key created with --origin EXTERNAL')
+    .requiredOption('--file <file>', 'Key material file')
+    .option('--encoding <encoding>', 'Key material encoding (raw, base64, hex)', 'raw')
+    .option('-e, --expires <expiry>', 'Material expiry as a duration (30m, 12h, 365d) or a date (default: never)')
+    .option('--json', 'Output as JSON')
+    .action(importKeyMaterial);
+
   // Rotate key
   kms
     .command('rotate <keyId>')
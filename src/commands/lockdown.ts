@@ -4,6 +4,7 @@ import { client } from '../lib/client.js';
 import * as mode from '../lib/mode.js';
 import { promptConfirm } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 
 interface LockdownStatusOptions {
   json?: boolean;
@@ -77,8 +78,7 @@ export function registerLockdownCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to get lockdown status');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -132,8 +132,7 @@ export function registerLockdownCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -174,8 +173,7 @@ export function registerLockdownCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -216,8 +214,7 @@ export function registerLockdownCommands(program: Command): void {
         output.info(`Showing ${history.length} entries`);
       } catch (err) {
         spinner.fail('Failed to get lockdown history');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -279,8 +276,7 @@ export function registerLockdownCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to get threats');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
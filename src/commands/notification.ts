@@ -7,6 +7,7 @@ import Table from 'cli-table3';
 import inquirer from 'inquirer';
 import { client } from '../lib/client.js';
 import * as output from '../lib/output.js';
+import { exitWithError, VaultApiError } from '../lib/errors.js';
 
 // ============================================================================
 // Type Definitions
@@ -88,8 +89,7 @@ async function showStatus(options: StatusOptions): Promise<void> {
     console.log(`  ${status.message}`);
   } catch (error) {
     spinner.fail('Failed to get status');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -124,12 +124,10 @@ async function showConfig(options: ConfigOptions): Promise<void> {
     console.log(table.toString());
   } catch (error) {
     spinner.fail('Failed to get configuration');
-    if ((error as Error).message.includes('404')) {
+    if (error instanceof VaultApiError && error.status === 404) {
       output.info('No SMTP configuration found. Use "znvault notification setup" to configure.');
-    } else {
-      output.error((error as Error).message);
     }
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -266,8 +264,7 @@ async function setupConfig(options: SetupOptions): Promise<void> {
     }
   } catch (error) {
     spinner.fail('Failed to save configuration');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -284,8 +281,7 @@ async function testEmail(options: TestOptions): Promise<void> {
     output.success(result.message);
   } catch (error) {
     spinner.fail('Failed to send test email');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -313,8 +309,7 @@ async function removeConfig(): Promise<void> {
     output.success(result.message);
   } catch (error) {
     spinner.fail('Failed to remove configuration');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -343,8 +338,7 @@ async function showRecipients(options: RecipientsOptions): Promise<void> {
     console.log(`\nTotal: ${emails.length} recipient(s)`);
   } catch (error) {
     spinner.fail('Failed to get recipients');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -372,8 +366,7 @@ async function setRecipients(emails: string): Promise<void> {
     console.log(`  Recipients: ${emailList.join(', ')}`);
   } catch (error) {
     spinner.fail('Failed to update recipients');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -407,8 +400,7 @@ async function addRecipient(email: string): Promise<void> {
     output.success(`Added ${email} to notification recipients`);
   } catch (error) {
     spinner.fail('Failed to add recipient');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -437,8 +429,7 @@ async function removeRecipient(email: string): Promise<void> {
     output.success(`Removed ${email} from notification recipients`);
   } catch (error) {
     spinner.fail('Failed to remove recipient');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -6,6 +6,7 @@ import ora from 'ora';
 import chalk from 'chalk';
 import { client } from '../lib/client.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 
 interface Permission {
   permission: string;
@@ -92,8 +93,7 @@ export function registerPermissionsCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to fetch permissions');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -123,8 +123,7 @@ export function registerPermissionsCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to fetch categories');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -174,8 +173,7 @@ export function registerPermissionsCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to validate permissions');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -218,8 +216,7 @@ export function registerPermissionsCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to search permissions');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
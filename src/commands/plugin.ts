@@ -12,6 +12,8 @@ import { join, dirname } from 'node:path';
 import ora from 'ora';
 import chalk from 'chalk';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
+import { proxyEnv } from '../lib/proxy.js';
 import {
   getPlugins,
   addPlugin,
@@ -95,7 +97,7 @@ function getShortName(packageName: string): string {
  */
 async function packageExists(packageName: string): Promise<boolean> {
   try {
-    execSync(`npm view ${packageName} version`, { stdio: 'pipe' });
+    execSync(`npm view ${packageName} version`, { stdio: 'pipe', env: proxyEnv() });
     return true;
   } catch {
     return false;
@@ -107,7 +109,7 @@ async function packageExists(packageName: string): Promise<boolean> {
  */
 function getPackageVersion(packageName: string): string | null {
   try {
-    return execSync(`npm view ${packageName} version`, { stdio: 'pipe' }).toString().trim();
+    return execSync(`npm view ${packageName} version`, { stdio: 'pipe', env: proxyEnv() }).toString().trim();
   } catch {
     return null;
   }
@@ -136,6 +138,7 @@ function runNpm(args: string[], pluginsDir: string): Promise<{ success: boolean;
   return new Promise((resolve) => {
     const npm = spawn('npm', args, {
       cwd: pluginsDir,
+      env: proxyEnv(),
       stdio: ['ignore', 'pipe', 'pipe'],
     });
 
@@ -303,8 +306,7 @@ export function registerPluginCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Installation failed');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -355,8 +357,7 @@ export function registerPluginCommands(program: Command): void {
         spinner.succeed(`Uninstalled ${chalk.cyan(getShortName(actualPackage))}`);
       } catch (err) {
         spinner.fail('Uninstall failed');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -500,8 +501,7 @@ export function registerPluginCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Update failed');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -597,13 +597,13 @@ export function registerPluginCommands(program: Command): void {
         } | null = null;
 
         try {
-          const infoStr = execSync(`npm view ${packageName} --json`, { stdio: 'pipe' }).toString();
+          const infoStr = execSync(`npm view ${packageName} --json`, { stdio: 'pipe', env: proxyEnv() }).toString();
           npmInfo = JSON.parse(infoStr);
         } catch {
           // Try without prefix
           if (packageName !== name) {
             try {
-              const infoStr = execSync(`npm view ${name} --json`, { stdio: 'pipe' }).toString();
+              const infoStr = execSync(`npm view ${name} --json`, { stdio: 'pipe', env: proxyEnv() }).toString();
               npmInfo = JSON.parse(infoStr);
             } catch {
               // Not found
@@ -653,8 +653,7 @@ export function registerPluginCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to fetch info');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
@@ -6,6 +6,7 @@ import * as fs from 'fs';
 import { client } from '../lib/client.js';
 import { promptConfirm } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import type { CreatePolicyInput, UpdatePolicyInput, PolicyEffect } from '../types/index.js';
 
 // ============ Option Interfaces ============
@@ -148,8 +149,7 @@ export function registerPolicyCommands(program: Command): void {
         output.info(`Total: ${result.total} policy(s)`);
       } catch (err) {
         spinner.fail('Failed to list policies');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -213,8 +213,7 @@ export function registerPolicyCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to get policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -276,8 +275,7 @@ export function registerPolicyCommands(program: Command): void {
           });
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -333,8 +331,7 @@ export function registerPolicyCommands(program: Command): void {
           });
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -359,8 +356,7 @@ export function registerPolicyCommands(program: Command): void {
         await client.deletePolicy(id);
         spinner.succeed(`Policy '${id}' deleted successfully`);
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -381,8 +377,7 @@ export function registerPolicyCommands(program: Command): void {
         });
       } catch (err) {
         spinner.fail('Failed to enable policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -403,8 +398,7 @@ export function registerPolicyCommands(program: Command): void {
         });
       } catch (err) {
         spinner.fail('Failed to disable policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -460,8 +454,7 @@ export function registerPolicyCommands(program: Command): void {
           process.exit(1);
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -513,8 +506,7 @@ export function registerPolicyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to get attachments');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -530,8 +522,7 @@ export function registerPolicyCommands(program: Command): void {
         spinner.succeed('Policy attached to user successfully');
       } catch (err) {
         spinner.fail('Failed to attach policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -547,8 +538,7 @@ export function registerPolicyCommands(program: Command): void {
         spinner.succeed('Policy attached to role successfully');
       } catch (err) {
         spinner.fail('Failed to attach policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -564,8 +554,7 @@ export function registerPolicyCommands(program: Command): void {
         spinner.succeed('Policy detached from user successfully');
       } catch (err) {
         spinner.fail('Failed to detach policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -581,8 +570,7 @@ export function registerPolicyCommands(program: Command): void {
         spinner.succeed('Policy detached from role successfully');
       } catch (err) {
         spinner.fail('Failed to detach policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -622,8 +610,7 @@ export function registerPolicyCommands(program: Command): void {
         output.info(`Total: ${policies.length} policy(s)`);
       } catch (err) {
         spinner.fail('Failed to get user policies');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -663,8 +650,7 @@ export function registerPolicyCommands(program: Command): void {
         output.info(`Total: ${policies.length} policy(s)`);
       } catch (err) {
         spinner.fail('Failed to get role policies');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -735,8 +721,7 @@ export function registerPolicyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to test policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -772,8 +757,7 @@ export function registerPolicyCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to export policy');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -808,8 +792,7 @@ export function registerPolicyCommands(program: Command): void {
           });
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
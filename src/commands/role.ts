@@ -7,6 +7,7 @@ import Table from 'cli-table3';
 import inquirer from 'inquirer';
 import { client } from '../lib/client.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 
 // ============================================================================
 // Type Definitions
@@ -134,8 +135,7 @@ async function listRoles(options: ListOptions): Promise<void> {
     output.info(`Total: ${response.total} role(s)`);
   } catch (error) {
     spinner.fail('Failed to list roles');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -175,8 +175,7 @@ async function getRole(roleId: string, options: GetOptions): Promise<void> {
     }
   } catch (error) {
     spinner.fail('Failed to get role');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -211,8 +210,7 @@ async function createRole(name: string, options: CreateOptions): Promise<void> {
     console.log(`  Permissions: ${result.permissions.length}`);
   } catch (error) {
     spinner.fail('Failed to create role');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -254,8 +252,7 @@ async function updateRole(roleId: string, options: UpdateOptions): Promise<void>
     output.success('Role updated successfully!');
   } catch (error) {
     spinner.fail('Failed to update role');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -291,8 +288,7 @@ async function deleteRole(roleId: string, options: DeleteOptions): Promise<void>
       }
     } catch (error) {
       spinner.fail('Failed to fetch role');
-      output.error((error as Error).message);
-      process.exit(1);
+      exitWithError(error);
     }
   }
 
@@ -304,8 +300,7 @@ async function deleteRole(roleId: string, options: DeleteOptions): Promise<void>
     output.success('Role deleted successfully');
   } catch (error) {
     deleteSpinner.fail('Failed to delete role');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -324,8 +319,7 @@ async function assignRole(roleId: string, userId: string, options: AssignOptions
     output.success(`Role ${roleId} assigned to user ${userId}`);
   } catch (error) {
     spinner.fail('Failed to assign role');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -338,8 +332,7 @@ async function removeRole(roleId: string, userId: string): Promise<void> {
     output.success(`Role ${roleId} removed from user ${userId}`);
   } catch (error) {
     spinner.fail('Failed to remove role');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -395,8 +388,7 @@ async function getUserRoles(userId: string, options: { json?: boolean }): Promis
     }
   } catch (error) {
     spinner.fail('Failed to fetch user roles');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -435,8 +427,7 @@ async function getUserPermissions(userId: string, options: { json?: boolean }):
     }
   } catch (error) {
     spinner.fail('Failed to fetch user permissions');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -0,0 +1,166 @@
+// Path: znvault-cli/src/commands/run.ts
+// Run a child process with secrets injected as environment variables
+
+import { type Command } from 'commander';
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import ora from 'ora';
+import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
+import { parseSecretRef, fetchDecryptedSecret, extractSecretValue } from '../lib/secrets.js';
+import type { DecryptedSecret } from '../types/index.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface RunOptions {
+  env: string[];
+  envFile?: string;
+  tenant?: string;
+}
+
+// Signals forwarded to the child so it can shut down gracefully (e.g. under systemd)
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP', 'SIGQUIT', 'SIGUSR2'];
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parse a "NAME=<id-or-alias>[#field]" mapping
+ */
+export function parseEnvMapping(mapping: string): { name: string; ref: string } {
+  const eqIndex = mapping.indexOf('=');
+  if (eqIndex <= 0 || eqIndex === mapping.length - 1) {
+    throw new Error(`Invalid mapping "${mapping}". Expected NAME=<secret>[#field]`);
+  }
+  const name = mapping.slice(0, eqIndex).trim();
+  const ref = mapping.slice(eqIndex + 1).trim();
+  if (!ENV_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid environment variable name: ${name}`);
+  }
+  return { name, ref };
+}
+
+/**
+ * Parse a manifest file: one NAME=<secret>[#field] mapping per line,
+ * blank lines and lines starting with "#" are ignored
+ */
+export function parseEnvManifest(content: string): Array<{ name: string; ref: string }> {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'))
+    .map(line => parseEnvMapping(line.replace(/^export\s+/, '')));
+}
+
+/**
+ * Decrypt all referenced secrets (once per secret) and build the env map
+ */
+async function resolveEnv(
+  mappings: Array<{ name: string; ref: string }>,
+  tenant?: string
+): Promise<Record<string, string>> {
+  const cache = new Map<string, DecryptedSecret>();
+  const env: Record<string, string> = {};
+
+  for (const { name, ref } of mappings) {
+    const { secret, field } = parseSecretRef(ref);
+    let decrypted = cache.get(secret);
+    if (!decrypted) {
+      decrypted = await fetchDecryptedSecret(secret, tenant);
+      cache.set(secret, decrypted);
+    }
+    env[name] = extractSecretValue(decrypted, field);
+  }
+
+  return env;
+}
+
+// ============================================================================
+// Command Implementation
+// ============================================================================
+
+async function runWithSecrets(command: string, args: string[], options: RunOptions): Promise<void> {
+  let mappings: Array<{ name: string; ref: string }>;
+
+  try {
+    mappings = options.env.map(parseEnvMapping);
+    if (options.envFile) {
+      if (!fs.existsSync(options.envFile)) {
+        throw new Error(`File not found: ${options.envFile}`);
+      }
+      mappings = [...parseEnvManifest(fs.readFileSync(options.envFile, 'utf-8')), ...mappings];
+    }
+  } catch (err) {
+    exitWithError(err);
+  }
+
+  if (mappings.length === 0) {
+    output.error('No secrets mapped. Use --env NAME=<secret>[#field] or --env-file <file>');
+    process.exit(1);
+  }
+
+  const spinner = ora(`Resolving ${mappings.length} secret(s)...`).start();
+  let secretEnv: Record<string, string>;
+
+  try {
+    secretEnv = await resolveEnv(mappings, options.tenant);
+    spinner.stop();
+  } catch (err) {
+    spinner.fail('Failed to resolve secrets');
+    exitWithError(err);
+  }
+
+  // Values only ever live in the child's environment - nothing is written to disk
+  const child = spawn(command, args, {
+    stdio: 'inherit',
+    env: { ...process.env, ...secretEnv },
+  });
+
+  const forward = (signal: NodeJS.Signals): void => {
+    child.kill(signal);
+  };
+  for (const signal of FORWARDED_SIGNALS) {
+    process.on(signal, forward);
+  }
+
+  child.on('error', (err) => {
+    output.error(`Failed to start "${command}": ${err.message}`);
+    process.exit(127);
+  });
+
+  child.on('exit', (code, signal) => {
+    for (const s of FORWARDED_SIGNALS) {
+      process.removeListener(s, forward);
+    }
+
+    if (signal) {
+      // Re-raise so our own exit status reflects the child's signal
+      process.kill(process.pid, signal);
+      return;
+    }
+    process.exit(code ?? 1);
+  });
+}
+
+// ============================================================================
+// Command Registration
+// ============================================================================
+
+export function registerRunCommands(program: Command): void {
+  program
+    .command('run <command> [args...]')
+    .description('Run a command with secrets injected as environment variables (use -- before the command)')
+    .option('-e, --env <mapping>', 'Map NAME=<secret>[#field] (repeatable)', collect, [])
+    .option('--env-file <file>', 'Manifest with one NAME=<secret>[#field] mapping per line')
+    .option('-t, --tenant <id>', 'Tenant used to resolve aliases')
+    .action(runWithSecrets);
+}
@@ -3,40 +3,56 @@
 
 import { type Command } from 'commander';
 import ora from 'ora';
+import chalk from 'chalk';
 import Table from 'cli-table3';
 import inquirer from 'inquirer';
-import { client } from '../lib/client.js';
+import { client, withProfile, type VaultClient } from '../lib/client.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import { getAuthContext } from '../lib/auth-context.js';
+import {
+  fetchDecryptedSecret,
+  fetchSecretVersion,
+  findSecretsByAlias,
+  resolveSecretId,
+  extractSecretValue,
+  writeSecretFile,
+} from '../lib/secrets.js';
+import { kmsDecrypt, kmsGenerateDataKey } from '../lib/kms.js';
+import { promptPassword, promptNewPassword } from '../lib/prompts.js';
+import {
+  sealBundle,
+  openBundle,
+  parseBundle,
+  newPassphraseKey,
+  derivePassphraseKey,
+  type BundleSecret,
+  type SecretBundle,
+} from '../lib/bundle.js';
+import { parseTemplate, renderTemplate } from '../lib/template.js';
+import {
+  findExpiringSecrets,
+  expiryCheckStatus,
+  expirySummary,
+  URGENCY_ORDER,
+  CHECK_EXIT_CODES,
+  type ExpiryUrgency,
+  type SecretExpiryItem,
+} from '../lib/secret-expiry.js';
+import {
+  diffSecretData,
+  diffEnvironments,
+  hashSecretData,
+  parseVersion,
+  type KeyDiff,
+  type KeyHashes,
+} from '../lib/secret-diff.js';
+import type { SecretMetadata, DecryptedSecret } from '../types/index.js';
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
-interface SecretMetadata {
-  id: string;
-  alias: string;
-  tenant: string;
-  type: 'opaque' | 'credential' | 'setting';
-  subType?: string;
-  version: number;
-  fileName?: string;
-  fileSize?: number;
-  fileMime?: string;
-  expiresAt?: string;
-  ttlUntil?: string;
-  tags?: string[];
-  contentType?: string;
-  createdBy?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface DecryptedSecret extends SecretMetadata {
-  data: Record<string, unknown>;
-  content_type?: string;
-}
-
 interface ListOptions {
   tenant?: string;
   type?: string;
@@ -46,6 +62,24 @@ interface ListOptions {
   json?: boolean;
 }
 
+interface ExpiringOptions {
+  tenant?: string;
+  aliasPrefix?: string;
+  days: string;
+  critical: string;
+  rotationDays: string;
+  json?: boolean;
+}
+
+interface DiffOptions {
+  from?: string;
+  to?: string;
+  showValues?: boolean;
+  aliasPrefix?: string;
+  tenant?: string;
+  json?: boolean;
+}
+
 interface GetOptions {
   json?: boolean;
 }
@@ -127,11 +161,59 @@ interface RotateOptions {
   json?: boolean;
 }
 
+interface RollbackOptions {
+  toVersion: string;
+  reason?: string;
+  dryRun?: boolean;
+  force?: boolean;
+  tenant?: string;
+  json?: boolean;
+}
+
 interface CopyOptions {
   noMetadata?: boolean;
   json?: boolean;
 }
 
+interface RenderOptions {
+  output?: string;
+  tenant?: string;
+  watch?: boolean;
+  interval: string;
+}
+
+interface ExportOptions {
+  aliasPrefix: string;
+  tenant?: string;
+  output: string;
+  kmsKey?: string;
+  passphrase?: string;
+}
+
+interface ImportOptions {
+  tenant?: string;
+  passphrase?: string;
+  dryRun?: boolean;
+  onConflict: string;
+  json?: boolean;
+}
+
+type ConflictStrategy = 'skip' | 'overwrite' | 'new-version';
+
+interface ImportResult {
+  alias: string;
+  tenant: string;
+  action?: 'create' | 'skip' | 'overwrite' | 'new-version';
+  status: 'ok' | 'planned' | 'failed';
+  error?: string;
+}
+
+interface RenderResult {
+  content: string;
+  // Secret ID -> version used for this render
+  versions: Map<string, number>;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -377,6 +459,111 @@ function formatExpiry(expiresAt?: string): string {
   return `${days}d`;
 }
 
+// ============================================================================
+// Bundle Helpers
+// ============================================================================
+
+/**
+ * Recover the content key of a bundle (KMS unwrap or passphrase derivation)
+ */
+async function unlockBundle(bundle: SecretBundle, passphrase?: string): Promise<Buffer> {
+  if (bundle.key.keySource === 'kms') {
+    return kmsDecrypt(bundle.key.keyId, bundle.key.encryptedKey);
+  }
+  const secret = passphrase ?? await promptPassword('Bundle passphrase');
+  return derivePassphraseKey(secret, bundle.key);
+}
+
+/**
+ * Apply a single bundled secret to the vault according to the conflict strategy
+ */
+async function importBundleSecret(
+  secret: BundleSecret,
+  tenant: string,
+  strategy: ConflictStrategy,
+  dryRun: boolean
+): Promise<ImportResult> {
+  const existing = (await findSecretsByAlias(secret.alias, tenant)).at(0);
+  const action = existing ? strategy : 'create';
+  const result: ImportResult = { alias: secret.alias, tenant, action, status: dryRun ? 'planned' : 'ok' };
+
+  if (dryRun || action === 'skip') {
+    return result;
+  }
+
+  if (!existing) {
+    const body: Record<string, unknown> = {
+      alias: secret.alias,
+      tenant,
+      type: secret.type,
+      data: secret.data,
+    };
+    if (secret.subType) body.subType = secret.subType;
+    if (secret.tags) body.tags = secret.tags;
+    if (secret.ttlUntil) body.ttlUntil = secret.ttlUntil;
+    if (secret.expiresAt) body.expiresAt = secret.expiresAt;
+    if (secret.contentType) body.contentType = secret.contentType;
+    await client.post<SecretMetadata>('/v1/secrets', body);
+  } else if (action === 'overwrite') {
+    const body: Record<string, unknown> = { data: secret.data };
+    if (secret.tags) body.tags = secret.tags;
+    if (secret.ttlUntil) body.ttlUntil = secret.ttlUntil;
+    if (secret.expiresAt) body.expiresAt = secret.expiresAt;
+    await client.put<SecretMetadata>(`/v1/secrets/${existing.id}`, body);
+  } else {
+    await client.post<SecretMetadata>(`/v1/secrets/${existing.id}/rotate`, { data: secret.data });
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Template Rendering
+// ============================================================================
+
+/**
+ * Render a template against the vault, decrypting each referenced secret once
+ */
+async function renderSecretTemplate(template: string, tenant?: string): Promise<RenderResult> {
+  const cache = new Map<string, DecryptedSecret>();
+
+  const content = await renderTemplate(template, {
+    secret: async (ref, field) => {
+      let decrypted = cache.get(ref);
+      if (!decrypted) {
+        decrypted = await fetchDecryptedSecret(ref, tenant);
+        cache.set(ref, decrypted);
+      }
+      return extractSecretValue(decrypted, field);
+    },
+    kmsDecrypt: async (keyId, ciphertext, context) =>
+      (await kmsDecrypt(keyId, ciphertext, context)).toString('utf-8'),
+  });
+
+  const versions = new Map<string, number>();
+  for (const secret of cache.values()) {
+    versions.set(secret.id, secret.version);
+  }
+  return { content, versions };
+}
+
+/**
+ * Check whether any of the rendered secrets has a newer version
+ */
+async function hasNewSecretVersion(versions: Map<string, number>): Promise<boolean> {
+  for (const [id, version] of versions) {
+    const meta = await client.get<SecretMetadata>(`/v1/secrets/${id}/meta`);
+    if (meta.version !== version) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 // ============================================================================
 // Command Implementations
 // ============================================================================
@@ -432,8 +619,7 @@ async function listSecrets(options: ListOptions): Promise<void> {
     output.info(`Total: ${secrets.length} secret(s)`);
   } catch (error) {
     spinner.fail('Failed to list secrets');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -491,8 +677,7 @@ async function getSecret(id: string, options: GetOptions): Promise<void> {
     console.log(table.toString());
   } catch (error) {
     spinner.fail('Failed to get secret');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -570,8 +755,7 @@ async function decryptSecret(id: string, options: DecryptOptions): Promise<void>
     }
   } catch (error) {
     spinner.fail('Failed to decrypt secret');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -703,8 +887,7 @@ async function createSecret(aliasOrDescription: string, options: CreateOptions):
       console.log();
 
     } catch (err) {
-      spinner.fail('Failed to get AI suggestions');
-      output.error(err instanceof Error ? err.message : String(err));
+      spinner.fail(`Failed to get AI suggestions: ${err instanceof Error ? err.message : String(err)}`);
 
       // Continue without suggestions?
       const { continueWithout } = await inquirer.prompt<{ continueWithout: boolean }>([
@@ -717,7 +900,7 @@ async function createSecret(aliasOrDescription: string, options: CreateOptions):
       ]);
 
       if (!continueWithout) {
-        process.exit(0);
+        exitWithError(err);
       }
 
       // Use the description as alias
@@ -868,8 +1051,7 @@ async function createSecret(aliasOrDescription: string, options: CreateOptions):
     console.log(`  Tenant: ${result.tenant}`);
   } catch (error) {
     spinner.fail('Failed to create secret');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -943,8 +1125,7 @@ async function updateSecret(id: string, options: UpdateOptions): Promise<void> {
       }
     } catch (error) {
       spinner.fail('Failed to fetch current secret');
-      output.error((error as Error).message);
-      process.exit(1);
+      exitWithError(error);
     }
   }
 
@@ -969,8 +1150,7 @@ async function updateSecret(id: string, options: UpdateOptions): Promise<void> {
     console.log(`  Version: ${result.version}`);
   } catch (error) {
     updateSpinner.fail('Failed to update secret');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -997,8 +1177,7 @@ async function deleteSecret(id: string, options: DeleteOptions): Promise<void> {
       }
     } catch (error) {
       spinner.fail('Failed to fetch secret');
-      output.error((error as Error).message);
-      process.exit(1);
+      exitWithError(error);
     }
   }
 
@@ -1010,8 +1189,7 @@ async function deleteSecret(id: string, options: DeleteOptions): Promise<void> {
     output.success('Secret deleted successfully');
   } catch (error) {
     deleteSpinner.fail('Failed to delete secret');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
   }
 }
 
@@ -1073,8 +1251,90 @@ async function rotateSecret(id: string, options: RotateOptions): Promise<void> {
     console.log(`  New Version: ${result.version}`);
   } catch (error) {
     spinner.fail('Failed to rotate secret');
-    output.error((error as Error).message);
-    process.exit(1);
+    exitWithError(error);
+  }
+}
+
+async function rollbackSecret(secret: string, options: RollbackOptions): Promise<void> {
+  const spinner = ora('Fetching secret versions...').start();
+
+  try {
+    const id = await resolveSecretId(secret, options.tenant);
+    const current = await client.get<SecretMetadata>(`/v1/secrets/${id}/meta`);
+    const target = parseVersion(options.toVersion);
+
+    if (target >= current.version) {
+      throw new Error(`Version v${String(target)} is not older than the current version v${String(current.version)}`);
+    }
+
+    const [restored, latest] = await Promise.all([
+      fetchSecretVersion(id, target),
+      fetchSecretVersion(id, current.version),
+    ]);
+    const changes = diffSecretData(latest.data, restored.data);
+    const changed = changes.filter(c => c.change !== 'unchanged').length;
+    spinner.stop();
+
+    // Secret updates have no reason or comment field, so the server's audit log cannot carry it
+    if (options.reason) {
+      output.warn('--reason is not recorded: the server has no field for the reason of a secret update');
+    }
+
+    if (options.dryRun) {
+      if (options.json) {
+        output.json({
+          id,
+          alias: current.alias,
+          from: current.version,
+          to: target,
+          changes: changes.map(c => ({ key: c.key, change: c.change })),
+          dryRun: true,
+        });
+        return;
+      }
+      console.log(`${current.alias}: v${String(current.version)} -> contents of v${String(target)}\n`);
+      printKeyDiff(changes);
+      console.log();
+      output.info(`Dry run: would create v${String(current.version + 1)} from v${String(target)} (${String(changed)} key(s) change)`);
+      return;
+    }
+
+    if (changed === 0) {
+      output.info(`Current version v${String(current.version)} already matches v${String(target)}; nothing to roll back`);
+      return;
+    }
+
+    if (!options.force) {
+      printKeyDiff(changes);
+      const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: `Restore "${current.alias}" to the contents of v${String(target)} as a new version?`,
+          default: false,
+        },
+      ]);
+
+      if (!confirm) {
+        output.info('Rollback cancelled');
+        return;
+      }
+    }
+
+    const rollbackSpinner = ora('Rolling back secret...').start();
+    const result = await client.put<SecretMetadata>(`/v1/secrets/${id}`, { data: restored.data });
+    rollbackSpinner.stop();
+
+    if (options.json) {
+      output.json({ ...result, rolledBackTo: target });
+      return;
+    }
+
+    output.success(`Secret rolled back to the contents of v${String(target)}`);
+    console.log(`  New Version: ${String(result.version)}`);
+  } catch (error) {
+    spinner.fail('Failed to roll back secret');
+    exitWithError(error);
   }
 }
 
@@ -1127,9 +1387,242 @@ async function showHistory(id: string, options: { json?: boolean }): Promise<voi
     console.log(`Total: ${response.count} version(s)`);
   } catch (error) {
     spinner.fail('Failed to fetch history');
-    output.error((error as Error).message);
+    exitWithError(error);
+  }
+}
+
+const URGENCY_LABELS: Record<ExpiryUrgency, string> = {
+  expired: 'EXPIRED',
+  critical: 'CRITICAL',
+  warning: 'WARNING',
+  rotation: 'ROTATE',
+};
+
+function describeExpiry(item: SecretExpiryItem): string {
+  if (item.daysLeft === undefined) return 'never';
+  return formatExpiry(item.expiresAt);
+}
+
+async function expiringSecrets(options: ExpiringOptions): Promise<void> {
+  const thresholds = {
+    warningDays: parseInt(options.days, 10),
+    criticalDays: parseInt(options.critical, 10),
+    rotationDays: parseInt(options.rotationDays, 10),
+  };
+  if (Object.values(thresholds).some(n => Number.isNaN(n) || n < 0) || thresholds.criticalDays > thresholds.warningDays) {
+    output.error('Thresholds must be non-negative numbers, with --critical not above --days');
+    process.exit(CHECK_EXIT_CODES.unknown);
+  }
+
+  const spinner = ora('Checking secret expiry...').start();
+  let items: SecretExpiryItem[];
+
+  try {
+    const query: Record<string, string> = {};
+    if (options.tenant) query.tenant = options.tenant;
+    if (options.aliasPrefix) query.aliasPrefix = options.aliasPrefix;
+
+    const secrets = await client.get<SecretMetadata[]>('/v1/secrets?' + new URLSearchParams(query).toString());
+    items = findExpiringSecrets(secrets, thresholds);
+    spinner.stop();
+  } catch (error) {
+    // Monitoring treats a failed check as UNKNOWN, not as a problem with the secrets
+    spinner.fail('Failed to check secret expiry');
+    output.error(`SECRETS UNKNOWN - ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(CHECK_EXIT_CODES.unknown);
+  }
+
+  const status = expiryCheckStatus(items);
+
+  if (options.json) {
+    output.json({ status, summary: expirySummary(items), thresholds, secrets: items });
+  } else if (items.length > 0) {
+    const tenants = [...new Set(items.map(i => i.tenant))].sort();
+
+    for (const tenant of tenants) {
+      const table = new Table({
+        head: ['Urgency', 'Alias', 'Type', 'Ver', 'Expires', 'Last Rotated'],
+        colWidths: [11, 42, 12, 5, 18, 22],
+        wordWrap: true,
+      });
+
+      for (const urgency of URGENCY_ORDER) {
+        for (const item of items.filter(i => i.tenant === tenant && i.urgency === urgency)) {
+          table.push([
+            URGENCY_LABELS[item.urgency],
+            truncateAlias(item.alias),
+            item.type,
+            String(item.version),
+            describeExpiry(item),
+            `${String(item.rotationAgeDays)}d ago`,
+          ]);
+        }
+      }
+
+      console.log(`\nTenant: ${tenant}`);
+      console.log(table.toString());
+    }
+    console.log();
+  }
+
+  if (!options.json) {
+    console.log(expirySummary(items));
+  }
+
+  process.exit(CHECK_EXIT_CODES[status]);
+}
+
+const MASKED_VALUE = '********';
+
+function formatDiffValue(value: unknown, showValues?: boolean): string {
+  if (!showValues) return MASKED_VALUE;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function printKeyDiff(changes: KeyDiff[], showValues?: boolean): void {
+  for (const { key, change, from, to } of changes) {
+    switch (change) {
+      case 'added':
+        console.log(chalk.green(`+ ${key}: ${formatDiffValue(to, showValues)}`));
+        break;
+      case 'removed':
+        console.log(chalk.red(`- ${key}: ${formatDiffValue(from, showValues)}`));
+        break;
+      case 'changed':
+        console.log(chalk.yellow(`~ ${key}: ${formatDiffValue(from, showValues)} -> ${formatDiffValue(to, showValues)}`));
+        break;
+      default:
+        console.log(chalk.dim(`  ${key}`));
+    }
+  }
+}
+
+async function diffSecretVersions(secret: string, options: DiffOptions): Promise<void> {
+  const spinner = ora('Comparing secret versions...').start();
+
+  try {
+    const id = await resolveSecretId(secret, options.tenant);
+    const current = await client.get<SecretMetadata>(`/v1/secrets/${id}/meta`);
+    const to = options.to ? parseVersion(options.to) : current.version;
+    const from = options.from ? parseVersion(options.from) : to - 1;
+
+    if (from < 1) {
+      throw new Error(`Secret ${current.alias} has no version before v${String(to)}`);
+    }
+
+    const [older, newer] = await Promise.all([fetchSecretVersion(id, from), fetchSecretVersion(id, to)]);
+    const changes = diffSecretData(older.data, newer.data);
+    spinner.stop();
+
+    if (options.json) {
+      output.json({
+        id,
+        alias: current.alias,
+        from,
+        to,
+        changes: changes.map(c => (options.showValues ? c : { key: c.key, change: c.change })),
+      });
+      return;
+    }
+
+    console.log(`${current.alias}: v${String(from)} -> v${String(to)}\n`);
+    printKeyDiff(changes, options.showValues);
+
+    const changed = changes.filter(c => c.change !== 'unchanged').length;
+    console.log();
+    output.info(changed === 0 ? 'No differences' : `${String(changed)} key(s) differ`);
+  } catch (error) {
+    spinner.fail('Failed to compare secret versions');
+    exitWithError(error);
+  }
+}
+
+/**
+ * Hash the data of every secret under a prefix, keyed by alias
+ */
+async function fetchSecretHashes(profileClient: VaultClient, options: DiffOptions): Promise<Map<string, KeyHashes>> {
+  const query: Record<string, string> = { aliasPrefix: options.aliasPrefix ?? '' };
+  if (options.tenant) query.tenant = options.tenant;
+
+  const secrets = await profileClient.get<SecretMetadata[]>('/v1/secrets?' + new URLSearchParams(query).toString());
+  const hashes = new Map<string, KeyHashes>();
+
+  for (const meta of secrets) {
+    if (hashes.has(meta.alias)) {
+      throw new Error(`Alias "${meta.alias}" exists in multiple tenants. Use --tenant to disambiguate.`);
+    }
+    const decrypted = await profileClient.post<DecryptedSecret>(`/v1/secrets/${meta.id}/decrypt`, {});
+    hashes.set(meta.alias, hashSecretData(decrypted.data));
+  }
+  return hashes;
+}
+
+async function diffSecretProfiles(profiles: string[], options: DiffOptions): Promise<void> {
+  const [left, right] = profiles;
+  const spinner = ora(`Comparing ${left} and ${right}...`).start();
+
+  try {
+    const leftHashes = await withProfile(left, c => fetchSecretHashes(c, options));
+    const rightHashes = await withProfile(right, c => fetchSecretHashes(c, options));
+    const diffs = diffEnvironments(leftHashes, rightHashes);
+    spinner.stop();
+
+    if (options.json) {
+      output.json({ left, right, aliasPrefix: options.aliasPrefix, secrets: diffs });
+      return;
+    }
+
+    const differing = diffs.filter(d => d.status !== 'same');
+    if (differing.length === 0) {
+      output.success(`${String(diffs.length)} secret(s) are identical in ${left} and ${right}`);
+      return;
+    }
+
+    const table = new Table({
+      head: ['Alias', 'Status', `Only in ${left}`, `Only in ${right}`, 'Values differ'],
+      colWidths: [42, 14, 20, 20, 20],
+      wordWrap: true,
+    });
+
+    for (const diff of differing) {
+      const status = diff.status === 'only-left' ? `only ${left}` : diff.status === 'only-right' ? `only ${right}` : 'different';
+      table.push([
+        truncateAlias(diff.alias),
+        status,
+        diff.onlyLeft.join(', ') || '-',
+        diff.onlyRight.join(', ') || '-',
+        diff.different.join(', ') || '-',
+      ]);
+    }
+
+    console.log(table.toString());
+    output.info(`${String(differing.length)} of ${String(diffs.length)} secret(s) differ (values compared by hash)`);
+  } catch (error) {
+    spinner.fail('Failed to compare profiles');
+    exitWithError(error);
+  }
+}
+
+async function diffSecret(secret: string | undefined, options: DiffOptions, profiles: string[]): Promise<void> {
+  // A single --profile just selects the profile, as for any other command
+  if (profiles.length < 2) {
+    if (!secret) {
+      output.error('Specify a secret to compare versions, or two profiles (--profile staging --profile prod) to compare environments');
+      process.exit(1);
+    }
+    await diffSecretVersions(secret, options);
+    return;
+  }
+
+  if (profiles.length !== 2 || secret) {
+    output.error('Comparing environments takes two profiles (--profile staging --profile prod) and no secret');
+    process.exit(1);
+  }
+  if (!options.aliasPrefix) {
+    output.error('--alias-prefix is required when comparing environments');
     process.exit(1);
   }
+  await diffSecretProfiles(profiles, options);
 }
 
 interface CopyResponse {
@@ -1177,11 +1670,210 @@ async function copySecret(source: string, destinationAlias: string, options: Cop
     console.log(`    Version:  ${result.copiedFrom.version}`);
   } catch (error) {
     spinner.fail('Failed to copy secret');
-    output.error((error as Error).message);
+    exitWithError(error);
+  }
+}
+
+async function exportSecrets(options: ExportOptions): Promise<void> {
+  const passphrase = options.kmsKey
+    ? undefined
+    : options.passphrase ?? await promptNewPassword('Bundle passphrase');
+
+  const spinner = ora('Exporting secrets...').start();
+
+  try {
+    const query: Record<string, string> = { aliasPrefix: options.aliasPrefix };
+    if (options.tenant) query.tenant = options.tenant;
+    const secrets = await client.get<SecretMetadata[]>('/v1/secrets?' + new URLSearchParams(query).toString());
+
+    if (secrets.length === 0) {
+      spinner.stop();
+      output.info(`No secrets found with alias prefix "${options.aliasPrefix}"`);
+      return;
+    }
+
+    const bundled: BundleSecret[] = [];
+    for (const meta of secrets) {
+      spinner.text = `Decrypting ${meta.alias} (${bundled.length + 1}/${secrets.length})...`;
+      const decrypted = await client.post<DecryptedSecret>(`/v1/secrets/${meta.id}/decrypt`, {});
+      bundled.push({
+        alias: meta.alias,
+        tenant: meta.tenant,
+        type: meta.type,
+        subType: meta.subType,
+        tags: meta.tags,
+        expiresAt: meta.expiresAt,
+        ttlUntil: meta.ttlUntil,
+        contentType: meta.contentType,
+        version: meta.version,
+        data: decrypted.data,
+      });
+    }
+
+    spinner.text = 'Encrypting bundle...';
+    const payload = { exportedAt: new Date().toISOString(), secrets: bundled };
+    let bundle: SecretBundle;
+
+    if (options.kmsKey) {
+      const dataKey = await kmsGenerateDataKey(options.kmsKey);
+      bundle = sealBundle(payload, dataKey.plaintext, {
+        keySource: 'kms',
+        keyId: options.kmsKey,
+        encryptedKey: dataKey.ciphertext,
+      });
+      dataKey.plaintext.fill(0);
+    } else {
+      const key = newPassphraseKey();
+      const contentKey = derivePassphraseKey(passphrase ?? '', key);
+      bundle = sealBundle(payload, contentKey, key);
+      contentKey.fill(0);
+    }
+
+    writeSecretFile(options.output, JSON.stringify(bundle, null, 2));
+    spinner.succeed(`Exported ${bundled.length} secret(s) to ${options.output}`);
+  } catch (error) {
+    spinner.fail('Failed to export secrets');
+    exitWithError(error);
+  }
+}
+
+async function importSecrets(bundlePath: string, options: ImportOptions): Promise<void> {
+  const fs = await import('fs');
+  const strategies: ConflictStrategy[] = ['skip', 'overwrite', 'new-version'];
+  const strategy = options.onConflict as ConflictStrategy;
+  let bundle: SecretBundle;
+
+  try {
+    if (!strategies.includes(strategy)) {
+      throw new Error(`Invalid --on-conflict value. Use one of: ${strategies.join(', ')}`);
+    }
+    if (!fs.existsSync(bundlePath)) {
+      throw new Error(`File not found: ${bundlePath}`);
+    }
+    bundle = parseBundle(fs.readFileSync(bundlePath, 'utf-8'));
+  } catch (error) {
+    exitWithError(error);
+  }
+
+  let secrets: BundleSecret[];
+  try {
+    const contentKey = await unlockBundle(bundle, options.passphrase);
+    secrets = openBundle(bundle, contentKey).secrets;
+    contentKey.fill(0);
+  } catch (error) {
+    exitWithError(error);
+  }
+
+  const spinner = ora(options.dryRun ? 'Planning import...' : 'Importing secrets...').start();
+  const results: ImportResult[] = [];
+
+  for (const secret of secrets) {
+    const tenant = options.tenant ?? secret.tenant;
+    spinner.text = `${options.dryRun ? 'Checking' : 'Importing'} ${secret.alias} (${results.length + 1}/${secrets.length})...`;
+    try {
+      results.push(await importBundleSecret(secret, tenant, strategy, options.dryRun ?? false));
+    } catch (error) {
+      results.push({
+        alias: secret.alias,
+        tenant,
+        status: 'failed',
+        error: (error as Error).message,
+      });
+    }
+  }
+  spinner.stop();
+
+  const failed = results.filter(r => r.status === 'failed').length;
+
+  if (options.json) {
+    output.json({ dryRun: options.dryRun ?? false, results });
+  } else {
+    const table = new Table({
+      head: ['Alias', 'Tenant', 'Action', 'Status'],
+      colWidths: [42, 14, 13, 40],
+      wordWrap: true,
+    });
+    for (const r of results) {
+      table.push([truncateAlias(r.alias), r.tenant, r.action ?? '-', r.error ?? r.status]);
+    }
+    console.log(table.toString());
+
+    const counts = new Map<string, number>();
+    for (const r of results) {
+      if (r.action) counts.set(r.action, (counts.get(r.action) ?? 0) + 1);
+    }
+    const summary = [...counts].map(([action, count]) => `${count} ${action}`).join(', ');
+    const prefix = options.dryRun ? 'Dry run' : 'Imported';
+    output.info(`${prefix}: ${summary || 'nothing to do'}${failed > 0 ? `, ${failed} failed` : ''}`);
+  }
+
+  if (failed > 0) {
     process.exit(1);
   }
 }
 
+async function renderSecretTemplateFile(templatePath: string, options: RenderOptions): Promise<void> {
+  const fs = await import('fs');
+  const interval = parseInt(options.interval, 10);
+  let template: string;
+
+  try {
+    if (!fs.existsSync(templatePath)) {
+      throw new Error(`File not found: ${templatePath}`);
+    }
+    template = fs.readFileSync(templatePath, 'utf-8');
+    parseTemplate(template);
+    if (options.watch && !options.output) {
+      throw new Error('--watch requires --output');
+    }
+    if (isNaN(interval) || interval < 1) {
+      throw new Error('--interval must be a positive number of seconds');
+    }
+  } catch (error) {
+    exitWithError(error);
+  }
+
+  const spinner = ora('Rendering template...').start();
+  let rendered: RenderResult;
+
+  try {
+    rendered = await renderSecretTemplate(template, options.tenant);
+
+    if (options.output) {
+      writeSecretFile(options.output, rendered.content);
+      spinner.succeed(`Rendered ${templatePath} to ${options.output}`);
+    } else {
+      spinner.stop();
+      process.stdout.write(rendered.content);
+    }
+  } catch (error) {
+    spinner.fail('Failed to render template');
+    exitWithError(error);
+  }
+
+  if (!options.watch || !options.output) {
+    return;
+  }
+
+  output.info(`Watching ${rendered.versions.size} secret(s) every ${interval}s (Ctrl+C to stop)`);
+
+  for (;;) {
+    await sleep(interval * 1000);
+
+    try {
+      if (!(await hasNewSecretVersion(rendered.versions))) {
+        continue;
+      }
+      rendered = await renderSecretTemplate(template, options.tenant);
+      writeSecretFile(options.output, rendered.content);
+      output.success(`Secret version changed, re-rendered ${options.output}`);
+    } catch (error) {
+      // Keep the last good file in place and try again on the next tick
+      output.warn(`Render failed: ${(error as Error).message}`);
+    }
+  }
+}
+
 // ============================================================================
 // Command Registration
 // ============================================================================
@@ -1203,6 +1895,18 @@ export function registerSecretCommands(program: Command): void {
     .option('--json', 'Output as JSON')
     .action(listSecrets);
 
+  // Expiry and rotation check (Nagios exit codes)
+  secret
+    .command('expiring')
+    .description('Show secrets expiring or overdue for rotation (exit 0 OK, 1 warning, 2 critical, 3 unknown)')
+    .option('-t, --tenant <id>', 'Filter by tenant')
+    .option('--alias-prefix <prefix>', 'Filter by alias prefix')
+    .option('--days <days>', 'Warn about secrets expiring within N days', '30')
+    .option('--critical <days>', 'Critical for secrets expiring within N days', '7')
+    .option('--rotation-days <days>', 'Warn when a secret has no new version for N days (0 disables)', '90')
+    .option('--json', 'Output as JSON')
+    .action(expiringSecrets);
+
   // Get secret metadata
   secret
     .command('get <id>')
@@ -1264,6 +1968,18 @@ export function registerSecretCommands(program: Command): void {
     .option('--json', 'Output as JSON')
     .action(rotateSecret);
 
+  // Roll back to an earlier version
+  secret
+    .command('rollback <id>')
+    .description('Restore an earlier version as the new current version')
+    .requiredOption('--to-version <version>', 'Version to restore, e.g. 3 or v3')
+    .option('--reason <text>', 'Reason for the rollback (not recorded: the server has no field for it)')
+    .option('--dry-run', 'Show what would change without writing a new version')
+    .option('-f, --force', 'Skip confirmation')
+    .option('-t, --tenant <id>', 'Tenant used to resolve aliases')
+    .option('--json', 'Output as JSON')
+    .action(rollbackSecret);
+
   // Show history
   secret
     .command('history <id>')
@@ -1271,6 +1987,22 @@ export function registerSecretCommands(program: Command): void {
     .option('--json', 'Output as JSON')
     .action(showHistory);
 
+  // The global --profile keeps only its last value; diff compares two when it is repeated
+  const requestedProfiles: string[] = [];
+  program.on('option:profile', (name: string) => requestedProfiles.push(name));
+
+  // Diff versions or environments
+  secret
+    .command('diff [id]')
+    .description('Compare two versions of a secret, or secrets across two profiles (--profile staging --profile prod)')
+    .option('--from <version>', 'Older version, e.g. v3 (default: the one before --to)')
+    .option('--to <version>', 'Newer version (default: current)')
+    .option('--show-values', 'Show values instead of masking them')
+    .option('--alias-prefix <prefix>', 'Secrets to compare across profiles')
+    .option('-t, --tenant <id>', 'Tenant used to resolve aliases')
+    .option('--json', 'Output as JSON')
+    .action((id: string | undefined, options: DiffOptions) => diffSecret(id, options, requestedProfiles));
+
   // Copy secret
   secret
     .command('copy <source> <destination-alias>')
@@ -1278,4 +2010,36 @@ export function registerSecretCommands(program: Command): void {
     .option('--no-metadata', 'Do not copy tags/metadata')
     .option('--json', 'Output as JSON')
     .action(copySecret);
+
+  // Render template
+  secret
+    .command('render <template>')
+    .description('Render a template with {{ secret }} and {{ kms-decrypt }} placeholders')
+    .option('-o, --output <file>', 'Write to file (atomic, mode 0600) instead of stdout')
+    .option('-t, --tenant <id>', 'Tenant used to resolve aliases')
+    .option('-w, --watch', 'Re-render when a referenced secret gets a new version')
+    .option('--interval <seconds>', 'Watch poll interval in seconds', '30')
+    .action(renderSecretTemplateFile);
+
+  // Export secrets to an encrypted bundle
+  secret
+    .command('export')
+    .description('Export secrets to an encrypted bundle')
+    .requiredOption('--alias-prefix <prefix>', 'Export secrets whose alias starts with prefix')
+    .requiredOption('-o, --output <file>', 'Bundle file to write (mode 0600)')
+    .option('-t, --tenant <id>', 'Only export from this tenant')
+    .option('--kms-key <keyId>', 'Encrypt the bundle to a KMS key')
+    .option('--passphrase <passphrase>', 'Encrypt the bundle with a passphrase (prompted if omitted)')
+    .action(exportSecrets);
+
+  // Import secrets from an encrypted bundle
+  secret
+    .command('import <bundle>')
+    .description('Import secrets from an encrypted bundle')
+    .option('-t, --tenant <id>', 'Import into this tenant (default: original tenant)')
+    .option('--passphrase <passphrase>', 'Bundle passphrase (prompted if needed)')
+    .option('--on-conflict <strategy>', 'When the alias exists: skip, overwrite, new-version', 'skip')
+    .option('--dry-run', 'Show what would be imported without making changes')
+    .option('--json', 'Output as JSON')
+    .action(importSecrets);
 }
@@ -12,6 +12,7 @@ import { join, dirname } from 'node:path';
 import ora from 'ora';
 import chalk from 'chalk';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import {
   checkForUpdate,
   performUpdate,
@@ -305,8 +306,7 @@ export function registerSelfUpdateCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Update check failed');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -4,6 +4,7 @@ import { client } from '../lib/client.js';
 import * as mode from '../lib/mode.js';
 import { promptConfirm, promptNewPassword } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 
 interface ListOptions {
   json?: boolean;
@@ -61,8 +62,7 @@ export function registerSuperadminCommands(program: Command): void {
         output.info(`Total: ${admins.length} superadmin(s)`);
       } catch (err) {
         spinner.fail('Failed to list superadmins');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -104,8 +104,7 @@ export function registerSuperadminCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to create superadmin');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -135,8 +134,7 @@ export function registerSuperadminCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -161,8 +159,7 @@ export function registerSuperadminCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to unlock superadmin');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -202,8 +199,7 @@ export function registerSuperadminCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -228,8 +224,7 @@ export function registerSuperadminCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to enable superadmin');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
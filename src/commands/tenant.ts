@@ -4,6 +4,7 @@ import { client } from '../lib/client.js';
 import * as mode from '../lib/mode.js';
 import { promptConfirm } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 
 interface TenantListOptions {
   status?: string;
@@ -96,8 +97,7 @@ export function registerTenantCommands(program: Command): void {
         output.info(`Total: ${tenants.length} tenant(s)`);
       } catch (err) {
         spinner.fail('Failed to list tenants');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -144,8 +144,7 @@ export function registerTenantCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to create tenant');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -197,8 +196,7 @@ export function registerTenantCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to get tenant');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -252,8 +250,7 @@ export function registerTenantCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to update tenant');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -290,8 +287,7 @@ export function registerTenantCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -322,8 +318,7 @@ export function registerTenantCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to get usage');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
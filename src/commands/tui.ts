@@ -4,12 +4,14 @@ import { render } from 'ink';
 import React from 'react';
 import { App } from '../tui/App.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 
-type ScreenType = 'dashboard' | 'secrets' | 'audit' | 'cluster';
+type ScreenType = 'dashboard' | 'secrets' | 'audit' | 'tenants' | 'users' | 'apikeys' | 'cluster';
 
 interface TuiOptions {
   screen?: ScreenType;
   refresh?: string;
+  revealTimeout?: string;
 }
 
 interface DashboardOptions {
@@ -21,21 +23,26 @@ export function registerTuiCommands(program: Command): void {
   program
     .command('tui')
     .description('Launch interactive terminal dashboard')
-    .option('-s, --screen <screen>', 'Initial screen (dashboard, secrets, audit, cluster)', 'dashboard')
+    .option('-s, --screen <screen>', 'Initial screen (dashboard, secrets, audit, tenants, users, apikeys)', 'dashboard')
     .option('-r, --refresh <ms>', 'Refresh interval in milliseconds', '5000')
+    .option('--reveal-timeout <seconds>', 'Seconds a revealed secret stays visible', '15')
     .action(async (options: TuiOptions) => {
       // Check if running in a TTY
       if (!process.stdout.isTTY) {
-        output.error('TUI mode requires an interactive terminal');
         output.info('Use regular commands for non-interactive environments');
-        process.exit(1);
+        exitWithError(new Error('TUI mode requires an interactive terminal'));
       }
 
       const refreshInterval = parseInt(options.refresh ?? '5000', 10);
 
       if (isNaN(refreshInterval) || refreshInterval < 1000) {
-        output.error('Refresh interval must be at least 1000ms');
-        process.exit(1);
+        exitWithError(new Error('Refresh interval must be at least 1000ms'));
+      }
+
+      const revealTimeout = parseInt(options.revealTimeout ?? '15', 10);
+
+      if (isNaN(revealTimeout) || revealTimeout < 1) {
+        exitWithError(new Error('Reveal timeout must be at least 1 second'));
       }
 
       try {
@@ -43,13 +50,13 @@ export function registerTuiCommands(program: Command): void {
           React.createElement(App, {
             initialScreen: options.screen ?? 'dashboard',
             refreshInterval,
+            revealTimeout,
           })
         );
 
         await waitUntilExit();
       } catch (err) {
-        output.error(`TUI error: ${err instanceof Error ? err.message : String(err)}`);
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -61,16 +68,14 @@ export function registerTuiCommands(program: Command): void {
     .action(async (options: DashboardOptions) => {
       // Check if running in a TTY
       if (!process.stdout.isTTY) {
-        output.error('Dashboard mode requires an interactive terminal');
         output.info('Use "znvault status" for non-interactive status');
-        process.exit(1);
+        exitWithError(new Error('Dashboard mode requires an interactive terminal'));
       }
 
       const refreshInterval = parseInt(options.refresh ?? '5000', 10);
 
       if (isNaN(refreshInterval) || refreshInterval < 1000) {
-        output.error('Refresh interval must be at least 1000ms');
-        process.exit(1);
+        exitWithError(new Error('Refresh interval must be at least 1000ms'));
       }
 
       try {
@@ -83,8 +88,7 @@ export function registerTuiCommands(program: Command): void {
 
         await waitUntilExit();
       } catch (err) {
-        output.error(`Dashboard error: ${err instanceof Error ? err.message : String(err)}`);
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
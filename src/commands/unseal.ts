@@ -10,6 +10,7 @@ import { fileURLToPath } from 'node:url';
 import { client } from '../lib/client.js';
 import { promptInput } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import * as visual from '../lib/visual.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -187,8 +188,7 @@ export function registerUnsealCommands(program: Command): void {
           await unsealWithOTP(options);
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -231,8 +231,7 @@ export function registerUnsealCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to check unseal status');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -255,8 +254,7 @@ export function registerUnsealCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to seal vault');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 }
@@ -351,8 +349,7 @@ async function unsealWithDevice(options: UnsealOptions): Promise<void> {
     signSpinner.succeed('Challenge signed');
   } catch (err) {
     signSpinner.fail('Failed to sign challenge');
-    output.error(err instanceof Error ? err.message : String(err));
-    process.exit(1);
+    exitWithError(err);
   }
 
   // Verify signature with server
@@ -13,6 +13,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 import { createUpdateChecker } from '../services/update-checker.js';
 import { createUpdateInstaller } from '../services/update-installer.js';
 import { getPlatform, getPlatformName, ensureConfigDir, isRoot } from '../utils/platform.js';
@@ -187,8 +188,7 @@ export function registerUpdateCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Check failed');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -304,8 +304,7 @@ export function registerUpdateCommands(program: Command): void {
         if (spinner.isSpinning) {
           spinner.fail('Installation failed');
         }
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
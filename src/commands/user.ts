@@ -4,6 +4,7 @@ import { client } from '../lib/client.js';
 import * as mode from '../lib/mode.js';
 import { promptConfirm, promptNewPassword } from '../lib/prompts.js';
 import * as output from '../lib/output.js';
+import { exitWithError } from '../lib/errors.js';
 
 // Option interfaces for each command
 interface ListUserOptions {
@@ -91,8 +92,7 @@ export function registerUserCommands(program: Command): void {
         output.info(`Total: ${users.length} user(s)`);
       } catch (err) {
         spinner.fail('Failed to list users');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -140,8 +140,7 @@ export function registerUserCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to create user');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -185,8 +184,7 @@ export function registerUserCommands(program: Command): void {
         console.log();
       } catch (err) {
         spinner.fail('Failed to get user');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -237,8 +235,7 @@ export function registerUserCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to update user');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -275,8 +272,7 @@ export function registerUserCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       }
     });
 
@@ -309,8 +305,7 @@ export function registerUserCommands(program: Command): void {
         }
       } catch (err) {
         spinner.fail('Failed to unlock user');
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -350,8 +345,7 @@ export function registerUserCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
@@ -401,8 +395,7 @@ export function registerUserCommands(program: Command): void {
           throw err;
         }
       } catch (err) {
-        output.error(err instanceof Error ? err.message : String(err));
-        process.exit(1);
+        exitWithError(err);
       } finally {
         await mode.closeLocalClient();
       }
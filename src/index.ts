@@ -17,10 +17,12 @@ import { registerApiKeyCommands } from './commands/apikey.js';
 import { registerPolicyCommands } from './commands/policy.js';
 import { registerPermissionsCommands } from './commands/permissions.js';
 import { registerSecretCommands } from './commands/secret.js';
+import { registerRunCommands } from './commands/run.js';
 import { registerKmsCommands } from './commands/kms.js';
 import { registerRoleCommands } from './commands/role.js';
 import { registerBackupCommands } from './commands/backup/index.js';
 import { registerNotificationCommands } from './commands/notification.js';
+import { registerApplyCommands } from './commands/apply/index.js';
 import { registerTuiCommands } from './commands/tui.js';
 import { registerSelfUpdateCommands } from './commands/self-update.js';
 import { registerAdvisorCommands } from './commands/advisor.js';
@@ -30,10 +32,19 @@ import { registerDeviceCommands } from './commands/device.js';
 import { registerCryptoCommands } from './commands/crypto.js';
 import { registerPluginCommands } from './commands/plugin.js';
 import { client } from './lib/client.js';
-import { setRuntimeProfile, getActiveProfileName, getConfig, getPlugins } from './lib/config.js';
+import {
+  setRuntimeProfile,
+  getActiveProfileName,
+  getConfig,
+  getPlugins,
+  credentialStoreNeedsPassphrase,
+  unlockCredentialStore,
+} from './lib/config.js';
+import { promptPassword } from './lib/prompts.js';
 import { cliBanner, helpHint } from './lib/visual.js';
 import { runBackgroundUpdateCheck } from './lib/cli-update.js';
 import { setOutputMode } from './lib/output-mode.js';
+import { exitWithError, setJsonErrors } from './lib/errors.js';
 import { profileIndicator } from './lib/output.js';
 import { configureContextHelp } from './lib/context-help.js';
 import { getVersion } from './lib/version.js';
@@ -46,6 +57,16 @@ interface GlobalOptions {
   plain?: boolean;
 }
 
+// Commands that never read stored credentials, so never unlock the credential store
+const COMMANDS_WITHOUT_CREDENTIALS = new Set(['completion', 'version', 'self-update', 'help']);
+
+function readsCredentials(command: Command): boolean {
+  for (let cmd: Command | null = command; cmd; cmd = cmd.parent) {
+    if (COMMANDS_WITHOUT_CREDENTIALS.has(cmd.name())) return false;
+  }
+  return true;
+}
+
 const program = new Command();
 
 program
@@ -56,7 +77,7 @@ program
   .option('--insecure', 'Skip TLS certificate verification')
   .option('--profile <name>', 'Use a specific configuration profile')
   .option('--plain', 'Use plain text output (no colors or TUI)')
-  .hook('preAction', (thisCommand, actionCommand) => {
+  .hook('preAction', async (thisCommand, actionCommand) => {
     // Apply global options
     const opts = thisCommand.opts<GlobalOptions>();
 
@@ -70,11 +91,21 @@ program
       setRuntimeProfile(opts.profile);
     }
 
+    // Errors go to stderr as JSON when the command was asked for JSON output
+    if (actionCommand.opts<{ json?: boolean }>().json) {
+      setJsonErrors(true);
+    }
+
     // Apply URL/insecure overrides
     if (opts.url !== undefined || opts.insecure !== undefined) {
       client.configure(opts.url, opts.insecure);
     }
 
+    // Unlock a passphrase-protected credential store before anything reads it
+    if (readsCredentials(actionCommand) && credentialStoreNeedsPassphrase() && process.stdin.isTTY) {
+      unlockCredentialStore(await promptPassword('Credential store passphrase'));
+    }
+
     // Skip profile indicator for completion commands (output is evaluated by shell)
     const cmdPath = actionCommand.name();
     const parentName = actionCommand.parent?.name();
@@ -104,10 +135,12 @@ registerApiKeyCommands(program);
 registerPolicyCommands(program);
 registerPermissionsCommands(program);
 registerSecretCommands(program);
+registerRunCommands(program);
 registerKmsCommands(program);
 registerRoleCommands(program);
 registerBackupCommands(program);
 registerNotificationCommands(program);
+registerApplyCommands(program);
 registerTuiCommands(program);
 registerSelfUpdateCommands(program);
 registerAdvisorCommands(program);
@@ -149,11 +182,10 @@ async function main(): Promise<void> {
   }
 
   // Parse and execute
-  program.parse();
+  await program.parseAsync();
 }
 
 // Run main
-main().catch((err) => {
-  console.error('CLI error:', err instanceof Error ? err.message : String(err));
-  process.exit(1);
+main().catch((err: unknown) => {
+  exitWithError(err);
 });
@@ -0,0 +1,283 @@
+// Path: znvault-cli/src/lib/audit-formats.ts
+/**
+ * Audit Export Formats
+ *
+ * SIEM formats for audit entries (CEF, LEEF, OCSF JSON, RFC 5424 syslog,
+ * plus local CSV), one event per line, and the checkpoint file used for
+ * incremental exports.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { getVersion } from './version.js';
+import type { AuditEntry } from '../types/index.js';
+
+export type SiemFormat = 'cef' | 'leef' | 'ocsf' | 'syslog';
+
+export const SIEM_FORMATS: SiemFormat[] = ['cef', 'leef', 'ocsf', 'syslog'];
+
+const VENDOR = 'ZnVault';
+const PRODUCT = 'znvault-cli';
+
+// Private enterprise number for syslog structured data (documentation range)
+const SYSLOG_SD_ID = 'audit@32473';
+
+export interface FormatContext {
+  host: string;   // Vault host the events come from
+}
+
+type Severity = 'info' | 'warning' | 'error';
+
+function severityOf(entry: AuditEntry): Severity {
+  if (entry.statusCode >= 500) return 'error';
+  if (entry.statusCode >= 400) return 'warning';
+  return 'info';
+}
+
+function outcome(entry: AuditEntry): 'success' | 'failure' {
+  return entry.statusCode < 400 ? 'success' : 'failure';
+}
+
+// ============================================================================
+// CEF
+// ============================================================================
+
+const CEF_SEVERITY: Record<Severity, number> = { info: 3, warning: 6, error: 8 };
+
+function cefHeader(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|');
+}
+
+function cefValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/=/g, '\\=').replace(/\r?\n/g, '\\n');
+}
+
+export function toCef(entry: AuditEntry, context: FormatContext): string {
+  const extension: Array<[string, string | number | undefined]> = [
+    ['rt', new Date(entry.ts).getTime()],
+    ['dvchost', context.host],
+    ['externalId', entry.id],
+    ['suser', entry.clientCn || undefined],
+    ['src', entry.ip],
+    ['request', entry.resource || undefined],
+    ['outcome', outcome(entry)],
+    ['cn1Label', 'statusCode'],
+    ['cn1', entry.statusCode],
+    ['cs1Label', 'tenant'],
+    ['cs1', entry.tenantId],
+  ];
+
+  return [
+    'CEF:0',
+    VENDOR,
+    PRODUCT,
+    getVersion(),
+    cefHeader(entry.action),
+    cefHeader(entry.action),
+    CEF_SEVERITY[severityOf(entry)],
+    extension
+      .filter((field): field is [string, string | number] => field[1] !== undefined)
+      .map(([key, value]) => `${key}=${cefValue(String(value))}`)
+      .join(' '),
+  ].join('|');
+}
+
+// ============================================================================
+// LEEF
+// ============================================================================
+
+const LEEF_SEVERITY: Record<Severity, number> = { info: 2, warning: 6, error: 8 };
+
+function leefValue(value: string): string {
+  return value.replace(/[\t\r\n]/g, ' ');
+}
+
+export function toLeef(entry: AuditEntry, context: FormatContext): string {
+  const attributes: Array<[string, string | number | undefined]> = [
+    ['devTime', entry.ts],
+    ['devTimeFormat', "yyyy-MM-dd'T'HH:mm:ss.SSSX"],
+    ['identHostName', context.host],
+    ['usrName', entry.clientCn || undefined],
+    ['src', entry.ip],
+    ['sev', LEEF_SEVERITY[severityOf(entry)]],
+    ['cat', outcome(entry)],
+    ['resource', entry.resource || undefined],
+    ['statusCode', entry.statusCode],
+    ['tenant', entry.tenantId],
+    ['eventId', entry.id],
+  ];
+
+  const header = ['LEEF:1.0', VENDOR, PRODUCT, getVersion(), entry.action.replace(/\|/g, '_')].join('|');
+  const body = attributes
+    .filter((field): field is [string, string | number] => field[1] !== undefined)
+    .map(([key, value]) => `${key}=${leefValue(String(value))}`)
+    .join('\t');
+
+  return `${header}|${body}`;
+}
+
+// ============================================================================
+// OCSF (API Activity, class 6003)
+// ============================================================================
+
+const OCSF_CLASS_UID = 6003;
+const OCSF_CATEGORY_UID = 6;
+const OCSF_SEVERITY: Record<Severity, number> = { info: 1, warning: 3, error: 4 };
+
+// OCSF API Activity activity_id from the action verb
+function ocsfActivity(action: string): { id: number; name: string } {
+  const verb = action.toUpperCase();
+  if (/CREATE|ADD|IMPORT|GENERATE/.test(verb)) return { id: 1, name: 'Create' };
+  if (/READ|GET|LIST|DECRYPT|EXPORT|VIEW/.test(verb)) return { id: 2, name: 'Read' };
+  if (/UPDATE|ROTATE|SET|ENABLE|DISABLE|PATCH/.test(verb)) return { id: 3, name: 'Update' };
+  if (/DELETE|REMOVE|REVOKE|DESTROY/.test(verb)) return { id: 4, name: 'Delete' };
+  return { id: 99, name: 'Other' };
+}
+
+export function toOcsf(entry: AuditEntry, context: FormatContext): Record<string, unknown> {
+  const activity = ocsfActivity(entry.action);
+  const severity = severityOf(entry);
+
+  return {
+    class_uid: OCSF_CLASS_UID,
+    class_name: 'API Activity',
+    category_uid: OCSF_CATEGORY_UID,
+    category_name: 'Application Activity',
+    activity_id: activity.id,
+    activity_name: activity.name,
+    type_uid: OCSF_CLASS_UID * 100 + activity.id,
+    severity_id: OCSF_SEVERITY[severity],
+    status_id: entry.statusCode < 400 ? 1 : 2,
+    status: outcome(entry) === 'success' ? 'Success' : 'Failure',
+    status_code: String(entry.statusCode),
+    time: new Date(entry.ts).getTime(),
+    metadata: {
+      version: '1.1.0',
+      uid: String(entry.id),
+      product: { name: PRODUCT, vendor_name: VENDOR, version: getVersion() },
+    },
+    actor: { user: { name: entry.clientCn || undefined } },
+    api: { operation: entry.action },
+    resources: entry.resource ? [{ name: entry.resource }] : undefined,
+    src_endpoint: entry.ip ? { ip: entry.ip } : undefined,
+    dst_endpoint: { hostname: context.host },
+    unmapped: entry.tenantId ? { tenant_id: entry.tenantId } : undefined,
+  };
+}
+
+// ============================================================================
+// Syslog (RFC 5424)
+// ============================================================================
+
+// Facility 13: log audit
+const SYSLOG_FACILITY = 13;
+const SYSLOG_SEVERITY: Record<Severity, number> = { info: 6, warning: 4, error: 3 };
+
+function sdValue(value: string): string {
+  return value.replace(/[\\"\]]/g, c => `\\${c}`);
+}
+
+// PRINTUSASCII without spaces, as header fields require
+function syslogToken(value: string, maxLength: number): string {
+  const token = value.replace(/[^\x21-\x7e]/g, '_').slice(0, maxLength);
+  return token === '' ? '-' : token;
+}
+
+export function toSyslog(entry: AuditEntry, context: FormatContext): string {
+  const pri = SYSLOG_FACILITY * 8 + SYSLOG_SEVERITY[severityOf(entry)];
+  const params: Array<[string, string | number | undefined]> = [
+    ['id', entry.id],
+    ['user', entry.clientCn || undefined],
+    ['action', entry.action],
+    ['status', entry.statusCode],
+    ['resource', entry.resource || undefined],
+    ['ip', entry.ip],
+    ['tenant', entry.tenantId],
+  ];
+  const data = params
+    .filter((param): param is [string, string | number] => param[1] !== undefined)
+    .map(([key, value]) => `${key}="${sdValue(String(value))}"`)
+    .join(' ');
+
+  return [
+    `<${String(pri)}>1`,
+    new Date(entry.ts).toISOString(),
+    syslogToken(context.host, 255),
+    'znvault',
+    '-',
+    syslogToken(entry.action, 32),
+    `[${SYSLOG_SD_ID} ${data}]`,
+    `${entry.action} ${entry.resource || '-'} ${outcome(entry)} (${String(entry.statusCode)})`,
+  ].join(' ');
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const CSV_COLUMNS: Array<keyof AuditEntry> = ['id', 'ts', 'clientCn', 'action', 'resource', 'statusCode', 'tenantId', 'ip'];
+
+function csvValue(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value as string | number);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(entries: AuditEntry[]): string {
+  const lines = entries.map(entry => CSV_COLUMNS.map(column => csvValue(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+/**
+ * Render entries in a SIEM format, one event per line
+ */
+export function formatSiemEvents(entries: AuditEntry[], format: SiemFormat, context: FormatContext): string {
+  const lines = entries.map(entry => {
+    switch (format) {
+      case 'cef': return toCef(entry, context);
+      case 'leef': return toLeef(entry, context);
+      case 'ocsf': return JSON.stringify(toOcsf(entry, context));
+      case 'syslog': return toSyslog(entry, context);
+    }
+  });
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+// ============================================================================
+// Checkpoints
+// ============================================================================
+
+export interface ExportCheckpoint {
+  version: 1;
+  lastId: number;      // Highest entry id exported so far
+  lastTs: string;      // Its timestamp, used as the next start date
+  exportedAt: string;
+}
+
+export function readCheckpoint(filePath: string): ExportCheckpoint | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+
+  const checkpoint = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<ExportCheckpoint>;
+  if (typeof checkpoint.lastId !== 'number' || typeof checkpoint.lastTs !== 'string') {
+    throw new Error(`Invalid checkpoint file: ${filePath}`);
+  }
+  return checkpoint as ExportCheckpoint;
+}
+
+/**
+ * Record the newest exported entry; written atomically so an interrupted
+ * run never leaves a half-written checkpoint
+ */
+export function writeCheckpoint(filePath: string, entries: AuditEntry[]): ExportCheckpoint {
+  const last = entries.reduce((newest, entry) => (entry.id > newest.id ? entry : newest));
+  const checkpoint: ExportCheckpoint = {
+    version: 1,
+    lastId: last.id,
+    lastTs: last.ts,
+    exportedAt: new Date().toISOString(),
+  };
+
+  const tmpPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${String(process.pid)}.tmp`);
+  fs.writeFileSync(tmpPath, JSON.stringify(checkpoint, null, 2) + '\n');
+  fs.renameSync(tmpPath, filePath);
+  return checkpoint;
+}
@@ -0,0 +1,273 @@
+// Path: znvault-cli/src/lib/audit-report.ts
+/**
+ * Audit Report Module
+ *
+ * Summary analytics over audit entries for security reviews: top users and
+ * actions, failure rates, unusual source IPs, after-hours activity and
+ * per-tenant activity. Rendered in the terminal by `audit report`, or as
+ * JSON / a standalone HTML page.
+ */
+
+import type { AuditEntry } from '../types/index.js';
+
+// An IP with this many failures and at least this failure rate is flagged
+const FAILURE_IP_MIN_FAILURES = 5;
+const FAILURE_IP_MIN_RATE = 0.5;
+
+// An IP below this share of all entries is flagged as rare, once there is
+// enough traffic for the share to mean something
+const RARE_IP_MAX_SHARE = 0.01;
+const RARE_IP_MIN_ENTRIES = 100;
+
+export interface WorkHours {
+  start: number;   // First working hour, local time (0-23)
+  end: number;     // First hour after work (1-24)
+}
+
+export interface AuditReportOptions {
+  from: Date;
+  to: Date;
+  top?: number;           // Rows per ranking (default 10)
+  workHours?: WorkHours;  // Default 08-18, Monday to Friday
+}
+
+export interface AuditCountRow {
+  name: string;
+  count: number;
+  failures: number;
+  failureRate: number;
+}
+
+export interface UnusualIp {
+  ip: string;
+  count: number;
+  failures: number;
+  users: string[];
+  reasons: string[];
+}
+
+export interface AuditReport {
+  from: string;
+  to: string;
+  generatedAt: string;
+  totalEntries: number;
+  failures: number;
+  failureRate: number;
+  uniqueUsers: number;
+  uniqueIps: number;
+  topUsers: AuditCountRow[];
+  topActions: AuditCountRow[];
+  tenants: AuditCountRow[];
+  unusualIps: UnusualIp[];
+  afterHours: {
+    workHours: WorkHours;
+    count: number;
+    users: AuditCountRow[];
+  };
+}
+
+export const DEFAULT_WORK_HOURS: WorkHours = { start: 8, end: 18 };
+
+/**
+ * Parse a working hours range such as "08-18"
+ */
+export function parseWorkHours(value: string): WorkHours {
+  const match = /^(\d{1,2})-(\d{1,2})$/.exec(value.trim());
+  const start = match ? Number(match[1]) : NaN;
+  const end = match ? Number(match[2]) : NaN;
+  if (!(start >= 0 && end <= 24 && start < end)) {
+    throw new Error(`Invalid working hours "${value}". Use START-END, e.g. 08-18`);
+  }
+  return { start, end };
+}
+
+function isFailure(entry: AuditEntry): boolean {
+  return entry.statusCode >= 400;
+}
+
+/**
+ * Whether an entry falls outside working hours (local time) or on a weekend
+ */
+export function isAfterHours(entry: AuditEntry, workHours: WorkHours = DEFAULT_WORK_HOURS): boolean {
+  const date = new Date(entry.ts);
+  const day = date.getDay();
+  const hour = date.getHours();
+  return day === 0 || day === 6 || hour < workHours.start || hour >= workHours.end;
+}
+
+function countBy<T extends AuditEntry>(entries: T[], key: (entry: T) => string): AuditCountRow[] {
+  const rows = new Map<string, AuditCountRow>();
+  for (const entry of entries) {
+    const name = key(entry);
+    const row = rows.get(name) ?? { name, count: 0, failures: 0, failureRate: 0 };
+    row.count++;
+    if (isFailure(entry)) row.failures++;
+    rows.set(name, row);
+  }
+  return [...rows.values()]
+    .map(row => ({ ...row, failureRate: row.failures / row.count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+function userOf(entry: AuditEntry): string {
+  return entry.clientCn || '(anonymous)';
+}
+
+function findUnusualIps(entries: AuditEntry[], top: number, workHours: WorkHours): UnusualIp[] {
+  const withIp = entries.filter((e): e is AuditEntry & { ip: string } => Boolean(e.ip));
+  const rareLimit = entries.length >= RARE_IP_MIN_ENTRIES ? entries.length * RARE_IP_MAX_SHARE : 0;
+
+  return countBy(withIp, e => e.ip)
+    .map(row => {
+      const ipEntries = withIp.filter(e => e.ip === row.name);
+      const reasons: string[] = [];
+      if (row.failures >= FAILURE_IP_MIN_FAILURES && row.failureRate >= FAILURE_IP_MIN_RATE) {
+        reasons.push(`${String(Math.round(row.failureRate * 100))}% failed`);
+      }
+      if (row.count < rareLimit) {
+        reasons.push('rarely seen');
+      }
+      if (ipEntries.every(e => isAfterHours(e, workHours))) {
+        reasons.push('only after hours');
+      }
+      return {
+        ip: row.name,
+        count: row.count,
+        failures: row.failures,
+        users: [...new Set(ipEntries.map(userOf))].sort(),
+        reasons,
+      };
+    })
+    .filter(ip => ip.reasons.length > 0)
+    .sort((a, b) => b.reasons.length - a.reasons.length || b.failures - a.failures || b.count - a.count)
+    .slice(0, top);
+}
+
+/**
+ * Summarize audit entries
+ */
+export function buildAuditReport(entries: AuditEntry[], options: AuditReportOptions): AuditReport {
+  const top = options.top ?? 10;
+  const workHours = options.workHours ?? DEFAULT_WORK_HOURS;
+  const failures = entries.filter(isFailure).length;
+  const afterHours = entries.filter(e => isAfterHours(e, workHours));
+
+  return {
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+    generatedAt: new Date().toISOString(),
+    totalEntries: entries.length,
+    failures,
+    failureRate: entries.length > 0 ? failures / entries.length : 0,
+    uniqueUsers: new Set(entries.map(userOf)).size,
+    uniqueIps: new Set(entries.map(e => e.ip).filter(Boolean)).size,
+    topUsers: countBy(entries, userOf).slice(0, top),
+    topActions: countBy(entries, e => e.action).slice(0, top),
+    tenants: countBy(entries, e => e.tenantId ?? '(none)'),
+    unusualIps: findUnusualIps(entries, top, workHours),
+    afterHours: {
+      workHours,
+      count: afterHours.length,
+      users: countBy(afterHours, userOf).slice(0, top),
+    },
+  };
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function htmlCountTable(title: string, label: string, rows: AuditCountRow[]): string {
+  const max = Math.max(1, ...rows.map(r => r.count));
+  const body = rows.length === 0
+    ? '<tr><td colspan="4" class="empty">No entries</td></tr>'
+    : rows.map(row => `
+        <tr>
+          <td>${escapeHtml(row.name)}</td>
+          <td class="num">${String(row.count)}</td>
+          <td class="bar"><span style="width:${String(Math.round((row.count / max) * 100))}%"></span></td>
+          <td class="num${row.failures > 0 ? ' fail' : ''}">${String(row.failures)} (${percent(row.failureRate)})</td>
+        </tr>`).join('');
+
+  return `
+    <h2>${escapeHtml(title)}</h2>
+    <table>
+      <thead><tr><th>${escapeHtml(label)}</th><th>Entries</th><th></th><th>Failures</th></tr></thead>
+      <tbody>${body}
+      </tbody>
+    </table>`;
+}
+
+/**
+ * Render a report as a standalone HTML page
+ */
+export function renderAuditReportHtml(report: AuditReport): string {
+  const hours = `${String(report.afterHours.workHours.start).padStart(2, '0')}:00-${String(report.afterHours.workHours.end).padStart(2, '0')}:00`;
+  const ips = report.unusualIps.length === 0
+    ? '<tr><td colspan="5" class="empty">No unusual source IPs</td></tr>'
+    : report.unusualIps.map(ip => `
+        <tr>
+          <td>${escapeHtml(ip.ip)}</td>
+          <td class="num">${String(ip.count)}</td>
+          <td class="num${ip.failures > 0 ? ' fail' : ''}">${String(ip.failures)}</td>
+          <td>${escapeHtml(ip.users.join(', '))}</td>
+          <td>${escapeHtml(ip.reasons.join(', '))}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>ZnVault Audit Report</title>
+  <style>
+    body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem auto; max-width: 960px; color: #1f2933; }
+    h1 { margin-bottom: 0.25rem; }
+    .range { color: #616e7c; margin-top: 0; }
+    .summary { display: flex; gap: 1rem; flex-wrap: wrap; }
+    .card { border: 1px solid #d9e2ec; border-radius: 6px; padding: 0.75rem 1rem; min-width: 140px; }
+    .card b { display: block; font-size: 1.5rem; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 1rem; }
+    th, td { text-align: left; padding: 0.3rem 0.5rem; border-bottom: 1px solid #e4e7eb; }
+    .num { text-align: right; white-space: nowrap; }
+    .fail { color: #cf1124; }
+    .bar { width: 35%; }
+    .bar span { display: block; height: 0.8rem; background: #2680c2; border-radius: 2px; }
+    .empty { color: #9aa5b1; font-style: italic; }
+  </style>
+</head>
+<body>
+  <h1>ZnVault Audit Report</h1>
+  <p class="range">${escapeHtml(report.from)} &ndash; ${escapeHtml(report.to)} &middot; generated ${escapeHtml(report.generatedAt)}</p>
+  <div class="summary">
+    <div class="card"><b>${String(report.totalEntries)}</b>entries</div>
+    <div class="card"><b class="${report.failures > 0 ? 'fail' : ''}">${percent(report.failureRate)}</b>${String(report.failures)} failures</div>
+    <div class="card"><b>${String(report.uniqueUsers)}</b>users</div>
+    <div class="card"><b>${String(report.uniqueIps)}</b>source IPs</div>
+    <div class="card"><b>${String(report.afterHours.count)}</b>after hours (outside ${hours} Mon-Fri)</div>
+  </div>
+  ${htmlCountTable('Top Users', 'User', report.topUsers)}
+  ${htmlCountTable('Top Actions', 'Action', report.topActions)}
+  ${htmlCountTable('Tenants', 'Tenant', report.tenants)}
+  ${htmlCountTable('After-Hours Activity', 'User', report.afterHours.users)}
+  <h2>Unusual Source IPs</h2>
+  <table>
+    <thead><tr><th>IP</th><th>Entries</th><th>Failures</th><th>Users</th><th>Reasons</th></tr></thead>
+    <tbody>${ips}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
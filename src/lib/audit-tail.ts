@@ -0,0 +1,146 @@
+// Path: znvault-cli/src/lib/audit-tail.ts
+/**
+ * Audit Tail Module
+ *
+ * Follows the audit log by polling `listAudit` with a since-cursor. The
+ * start date filter is inclusive, so entries at the cursor timestamp come
+ * back on the next poll and are dropped by id. Entries can be printed as
+ * table rows, JSON lines or logfmt.
+ */
+
+import chalk from 'chalk';
+import * as mode from './mode.js';
+import type { AuditEntry } from '../types/index.js';
+
+// Entries fetched per poll; more than this between two polls are not all seen
+const PAGE_SIZE = 500;
+
+export interface AuditTailOptions {
+  user?: string;
+  action?: string;
+  backlog?: number;   // Recent entries returned by the first poll (default 20)
+}
+
+type ListAudit = typeof mode.listAudit;
+
+export class AuditCursor {
+  private readonly options: AuditTailOptions;
+  private readonly listAudit: ListAudit;
+  private since?: string;
+  private seen = new Set<number>();
+
+  constructor(options: AuditTailOptions = {}, listAudit: ListAudit = mode.listAudit) {
+    this.options = options;
+    this.listAudit = listAudit;
+  }
+
+  /**
+   * Fetch entries newer than the previous poll, oldest first
+   */
+  async poll(): Promise<AuditEntry[]> {
+    const first = this.since === undefined;
+    const entries = await this.listAudit({
+      user: this.options.user,
+      action: this.options.action,
+      startDate: this.since,
+      limit: first ? this.options.backlog ?? 20 : PAGE_SIZE,
+    });
+
+    const fresh = entries
+      .filter(e => !this.seen.has(e.id))
+      .sort((a, b) => new Date(a.ts).getTime() - new Date(b.ts).getTime() || a.id - b.id);
+
+    const last = fresh.at(-1);
+    if (last) {
+      if (last.ts !== this.since) {
+        this.seen.clear();
+      }
+      this.since = last.ts;
+      // Only entries at the cursor timestamp can be returned again
+      for (const entry of fresh.filter(e => e.ts === last.ts)) {
+        this.seen.add(entry.id);
+      }
+    } else if (first) {
+      this.since = new Date().toISOString();
+    }
+
+    return fresh;
+  }
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export type AuditLineFormat = 'table' | 'json' | 'logfmt';
+
+export const AUDIT_LINE_FORMATS: AuditLineFormat[] = ['table', 'json', 'logfmt'];
+
+// Column widths of the streamed table
+const TABLE_COLUMNS: Array<[string, number]> = [
+  ['TIME', 24],
+  ['USER', 20],
+  ['ACTION', 24],
+  ['STATUS', 6],
+  ['IP', 16],
+  ['RESOURCE', 0],
+];
+
+function columns(values: string[]): string {
+  return values
+    .map((value, i) => (TABLE_COLUMNS[i][1] > 0 ? value.padEnd(TABLE_COLUMNS[i][1]) : value))
+    .join(' ')
+    .trimEnd();
+}
+
+/**
+ * Header line for the table format
+ */
+export function auditTableHeader(): string {
+  return chalk.bold(columns(TABLE_COLUMNS.map(([name]) => name)));
+}
+
+function logfmtValue(value: string | number): string {
+  const text = String(value);
+  if (text !== '' && !/[\s"=\\]/.test(text)) return text;
+  return JSON.stringify(text);
+}
+
+/**
+ * Format one entry as a single output line
+ */
+export function formatAuditLine(entry: AuditEntry, format: AuditLineFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(entry);
+
+    case 'logfmt': {
+      const fields: Record<string, string | number | undefined> = {
+        ts: entry.ts,
+        id: entry.id,
+        user: entry.clientCn || undefined,
+        action: entry.action,
+        status: entry.statusCode,
+        resource: entry.resource || undefined,
+        tenant: entry.tenantId,
+        ip: entry.ip,
+      };
+      return Object.entries(fields)
+        .filter((field): field is [string, string | number] => field[1] !== undefined)
+        .map(([key, value]) => `${key}=${logfmtValue(value)}`)
+        .join(' ');
+    }
+
+    default: {
+      const line = columns([
+        entry.ts,
+        entry.clientCn || '-',
+        entry.action,
+        String(entry.statusCode),
+        entry.ip ?? '-',
+        entry.resource || '-',
+      ]);
+      return entry.statusCode >= 400 ? chalk.red(line) : line;
+    }
+  }
+}
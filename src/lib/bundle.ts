@@ -0,0 +1,166 @@
+// Path: znvault-cli/src/lib/bundle.ts
+/**
+ * Encrypted Secret Bundles
+ *
+ * Portable file format used by `secret export` / `secret import` to move
+ * secrets between tenants or clusters. The payload (secret metadata and
+ * decrypted data) is encrypted with AES-256-GCM. The content key is either
+ * a KMS data key, stored wrapped in the bundle, or derived from a
+ * passphrase with scrypt. The bundle header is authenticated as AAD.
+ */
+
+import crypto from 'node:crypto';
+import type { SecretMetadata } from '../types/index.js';
+
+export const BUNDLE_FORMAT = 'znvault-secret-bundle';
+export const BUNDLE_VERSION = 1;
+
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+
+export interface BundleSecret {
+  alias: string;
+  tenant: string;
+  type: SecretMetadata['type'];
+  subType?: string;
+  tags?: string[];
+  expiresAt?: string;
+  ttlUntil?: string;
+  contentType?: string;
+  version: number;
+  data: Record<string, unknown>;
+}
+
+export interface BundlePayload {
+  exportedAt: string;
+  secrets: BundleSecret[];
+}
+
+export interface KmsBundleKey {
+  keySource: 'kms';
+  keyId: string;
+  encryptedKey: string;
+}
+
+export interface PassphraseBundleKey {
+  keySource: 'passphrase';
+  kdf: 'scrypt';
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+}
+
+export type BundleKey = KmsBundleKey | PassphraseBundleKey;
+
+export interface SecretBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  createdAt: string;
+  count: number;
+  algorithm: 'AES-256-GCM';
+  key: BundleKey;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+/**
+ * Parameters for a new passphrase-protected bundle (fresh random salt)
+ */
+export function newPassphraseKey(): PassphraseBundleKey {
+  return {
+    keySource: 'passphrase',
+    kdf: 'scrypt',
+    salt: crypto.randomBytes(16).toString('base64'),
+    ...SCRYPT_PARAMS,
+  };
+}
+
+/**
+ * Derive the bundle content key from a passphrase
+ */
+export function derivePassphraseKey(passphrase: string, key: PassphraseBundleKey): Buffer {
+  return crypto.scryptSync(passphrase, Buffer.from(key.salt, 'base64'), 32, {
+    N: key.N,
+    r: key.r,
+    p: key.p,
+    maxmem: 128 * key.N * key.r * 2,
+  });
+}
+
+/**
+ * Header fields bound to the ciphertext so they cannot be swapped or edited
+ */
+function headerAad(bundle: Pick<SecretBundle, 'format' | 'version' | 'createdAt' | 'count' | 'algorithm' | 'key'>): Buffer {
+  return Buffer.from(JSON.stringify([
+    bundle.format, bundle.version, bundle.createdAt, bundle.count, bundle.algorithm, bundle.key,
+  ]));
+}
+
+/**
+ * Encrypt a payload into a bundle with a 256-bit content key
+ */
+export function sealBundle(payload: BundlePayload, contentKey: Buffer, key: BundleKey): SecretBundle {
+  const header = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: payload.exportedAt,
+    count: payload.secrets.length,
+    algorithm: 'AES-256-GCM',
+    key,
+  } as const;
+
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', contentKey, iv);
+  cipher.setAAD(headerAad(header));
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf-8'), cipher.final()]);
+
+  return {
+    ...header,
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a bundle. Fails if the key is wrong or the bundle was tampered with.
+ */
+export function openBundle(bundle: SecretBundle, contentKey: Buffer): BundlePayload {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', contentKey, Buffer.from(bundle.iv, 'base64'));
+  decipher.setAAD(headerAad(bundle));
+  decipher.setAuthTag(Buffer.from(bundle.authTag, 'base64'));
+
+  let plaintext: Buffer;
+  try {
+    plaintext = Buffer.concat([decipher.update(Buffer.from(bundle.ciphertext, 'base64')), decipher.final()]);
+  } catch {
+    throw new Error('Unable to decrypt bundle: wrong key or passphrase, or the bundle was modified');
+  }
+
+  return JSON.parse(plaintext.toString('utf-8')) as BundlePayload;
+}
+
+/**
+ * Parse and validate a bundle file
+ */
+export function parseBundle(content: string): SecretBundle {
+  let bundle: Partial<SecretBundle>;
+  try {
+    bundle = JSON.parse(content) as Partial<SecretBundle>;
+  } catch {
+    throw new Error('Invalid bundle: not valid JSON');
+  }
+
+  if (bundle.format !== BUNDLE_FORMAT) {
+    throw new Error('Invalid bundle: unrecognized format');
+  }
+  if (bundle.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version: ${String(bundle.version)}`);
+  }
+  if (!bundle.key || !bundle.iv || !bundle.authTag || !bundle.ciphertext) {
+    throw new Error('Invalid bundle: missing encryption fields');
+  }
+
+  return bundle as SecretBundle;
+}
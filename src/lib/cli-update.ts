@@ -8,10 +8,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import * as https from 'https';
 import { execSync, spawn } from 'child_process';
 import React from 'react';
 import { render } from 'ink';
 import { UpdateBanner } from '../tui/components/UpdateBanner.js';
+import { withProxy, proxyEnv } from './proxy.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -111,13 +113,25 @@ export function getCurrentVersion(): string {
  */
 async function fetchLatestVersion(): Promise<string | null> {
   try {
-    const response = await fetch(`https://registry.npmjs.org/${encodeURIComponent(PACKAGE_NAME)}`);
+    const url = `https://registry.npmjs.org/${encodeURIComponent(PACKAGE_NAME)}`;
+    const body = await new Promise<string | null>((resolve, reject) => {
+      https.get(url, withProxy(url, {}), (res) => {
+        if (res.statusCode !== 200) {
+          res.resume();
+          resolve(null);
+          return;
+        }
+        let data = '';
+        res.on('data', (chunk: Buffer) => { data += chunk.toString(); });
+        res.on('end', () => { resolve(data); });
+      }).on('error', reject);
+    });
 
-    if (!response.ok) {
+    if (body === null) {
       return null;
     }
 
-    const data = await response.json() as NpmPackageInfo;
+    const data = JSON.parse(body) as NpmPackageInfo;
     const distTags = data['dist-tags'];
     return distTags.latest;
   } catch {
@@ -215,6 +229,7 @@ export async function performUpdate(options: {
     if (silent) {
       // Run synchronously and silently
       execSync(`${npmCommand} ${args.join(' ')}`, {
+        env: proxyEnv(),
         stdio: 'ignore',
         timeout: 120000, // 2 minute timeout
       });
@@ -224,6 +239,7 @@ export async function performUpdate(options: {
     // Run with output
     return await new Promise((resolve) => {
       const child = spawn(npmCommand, args, {
+        env: proxyEnv(),
         stdio: 'inherit',
         shell: true,
       });
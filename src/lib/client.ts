@@ -1,5 +1,6 @@
 import https from 'node:https';
 import http from 'node:http';
+import fs from 'node:fs';
 import {
   getConfig,
   getCredentials,
@@ -9,7 +10,13 @@ import {
   isTokenExpired,
   getEnvCredentials,
   hasEnvCredentials,
+  getActiveProfileName,
+  getProfile,
+  getProfileEnvOverrides,
+  setRuntimeProfile,
 } from './config.js';
+import { VaultApiError, NETWORK_ERROR_CODES } from './errors.js';
+import { withProxy } from './proxy.js';
 import type {
   HealthResponse,
   ClusterStatus,
@@ -87,6 +94,93 @@ interface MessageResponse {
   message: string;
 }
 
+// Methods that are safe to send again after an ambiguous failure
+const IDEMPOTENT_METHODS = new Set<RequestOptions['method']>(['GET', 'PUT', 'DELETE']);
+
+// Backoff bounds for retries (ms); Retry-After is honored up to RETRY_AFTER_MAX
+const RETRY_BASE_DELAY = 250;
+const RETRY_MAX_DELAY = 5000;
+const RETRY_AFTER_MAX = 60000;
+
+// Connection failures where the request never reached the server
+const CONNECT_ERRORS = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN']);
+
+interface TlsSettings {
+  caFile?: string;
+  clientCert?: string;
+  clientKey?: string;
+  clientKeyPassphrase?: string;
+  tlsServerName?: string;
+}
+
+interface FailureInfo {
+  retry: boolean;
+  nodeDown: boolean;
+  delay?: number;
+}
+
+/**
+ * Read a PEM file referenced by the TLS settings
+ */
+function readTlsFile(filePath: string, label: string): Buffer {
+  try {
+    return fs.readFileSync(filePath);
+  } catch (error) {
+    throw new Error(`Failed to read ${label} ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Decide whether a failed attempt may be sent again and whether the node
+ * itself looks unavailable (worth failing over to another one)
+ */
+function classifyFailure(error: unknown, method: RequestOptions['method']): FailureInfo {
+  const idempotent = IDEMPOTENT_METHODS.has(method);
+
+  if (error instanceof VaultApiError) {
+    // 429 means the request was rejected before processing, so any method may retry
+    const retry = error.status === 429 || (idempotent && error.status >= 500);
+    const delay = error.status === 429 || error.status === 503 ? error.retryAfter : undefined;
+    return { retry, nodeDown: error.status === 503, delay };
+  }
+
+  const code = (error as NodeJS.ErrnoException).code;
+  if (code && CONNECT_ERRORS.has(code)) {
+    return { retry: true, nodeDown: true };
+  }
+  if (code && NETWORK_ERROR_CODES.has(code)) {
+    return { retry: idempotent, nodeDown: true };
+  }
+  return { retry: false, nodeDown: false };
+}
+
+/**
+ * Exponential backoff with jitter: half the window fixed, half random
+ */
+function backoffDelay(attempt: number): number {
+  const window = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+  return window / 2 + Math.random() * (window / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 /**
  * Convert seconds to human-readable duration (e.g., 86400 -> "24h")
  * Prefers hours for durations up to 7 days, then uses days
@@ -114,29 +208,135 @@ function formatSecondsToHuman(seconds: number): string {
 
 class VaultClient {
   private baseUrl: string;
+  private urls: string[];
   private insecure: boolean;
   private timeout: number;
+  private retries?: number;
+  private tls: TlsSettings;
+  private tlsOptions?: https.RequestOptions;
 
   constructor() {
     const config = getConfig();
     this.baseUrl = config.url;
+    this.urls = config.urls ?? [config.url];
     this.insecure = config.insecure;
     this.timeout = config.timeout;
+    this.tls = {
+      caFile: config.caFile,
+      clientCert: config.clientCert,
+      clientKey: config.clientKey,
+      clientKeyPassphrase: config.clientKeyPassphrase,
+      tlsServerName: config.tlsServerName,
+    };
   }
 
   /**
    * Update client configuration
    */
   configure(url?: string, insecure?: boolean): void {
-    if (url) this.baseUrl = url;
+    if (url) {
+      this.baseUrl = url;
+      this.urls = [url];
+    }
     if (insecure !== undefined) this.insecure = insecure;
   }
 
   /**
-   * Make an HTTP request
+   * Make an HTTP request, retrying transient failures and failing over
+   * to another configured node when the current one is unavailable
    */
   private async request<T>(options: RequestOptions): Promise<T> {
-    const url = new URL(this.baseUrl);
+    // Not read in the constructor: the shared client is created at import time
+    this.retries ??= getConfig().retries;
+    const retries = this.retries;
+    const headers = options.skipAuth ? {} : await this.getAuthHeaders();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(this.baseUrl, options, headers);
+      } catch (error) {
+        const failure = classifyFailure(error, options.method);
+        if (!failure.retry || attempt >= retries) {
+          throw error;
+        }
+
+        // A fresh node can be tried straight away
+        if (failure.nodeDown && await this.failover(headers)) {
+          continue;
+        }
+        await sleep(failure.delay !== undefined ? Math.min(failure.delay, RETRY_AFTER_MAX) : backoffDelay(attempt));
+      }
+    }
+  }
+
+  /**
+   * Switch to another configured node, preferring the cluster leader.
+   * Returns false when no other node is reachable.
+   */
+  private async failover(headers: Record<string, string>): Promise<boolean> {
+    const current = this.urls.indexOf(this.baseUrl);
+    const candidates = [...this.urls.slice(current + 1), ...this.urls.slice(0, Math.max(current, 0))];
+
+    for (const candidate of candidates) {
+      try {
+        const status = await this.send<ClusterStatus>(candidate, { method: 'GET', path: '/v1/admin/cluster' }, headers);
+        this.baseUrl = this.findLeaderUrl(status) ?? candidate;
+        return true;
+      } catch (error) {
+        // Reachable but cluster status is unavailable (e.g. not permitted)
+        if (error instanceof VaultApiError && error.status !== 503) {
+          this.baseUrl = candidate;
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Map the cluster leader to one of the configured node URLs
+   */
+  private findLeaderUrl(status: ClusterStatus): string | undefined {
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- single-node servers omit nodes
+    const leader = (status.nodes ?? []).find(n => n.isLeader && n.isHealthy);
+    if (!leader) return undefined;
+
+    const matches = this.urls.filter(u => new URL(u).hostname === leader.host);
+    return matches.find(u => {
+      const url = new URL(u);
+      return Number(url.port || (url.protocol === 'https:' ? 443 : 80)) === leader.port;
+    }) ?? (matches.length === 1 ? matches[0] : undefined);
+  }
+
+  /**
+   * CA bundle, client certificate and server name for HTTPS requests.
+   * Files are read on first use so commands that never reach the server
+   * do not fail on a missing certificate.
+   */
+  private getTlsOptions(): https.RequestOptions {
+    if (!this.tlsOptions) {
+      const { caFile, clientCert, clientKey, clientKeyPassphrase, tlsServerName } = this.tls;
+      if (clientKey && !clientCert) {
+        throw new Error('clientKey is set but clientCert is missing');
+      }
+
+      this.tlsOptions = {
+        ca: caFile ? readTlsFile(caFile, 'CA file') : undefined,
+        cert: clientCert ? readTlsFile(clientCert, 'client certificate') : undefined,
+        key: clientKey ? readTlsFile(clientKey, 'client key') : undefined,
+        passphrase: clientKeyPassphrase,
+        servername: tlsServerName,
+      };
+    }
+    return this.tlsOptions;
+  }
+
+  /**
+   * Send a single HTTP request to one node
+   */
+  private async send<T>(baseUrl: string, options: RequestOptions, authHeaders: Record<string, string>): Promise<T> {
+    const url = new URL(baseUrl);
     url.pathname = options.path;
 
     if (options.query) {
@@ -149,6 +349,7 @@ class VaultClient {
 
     const headers: Record<string, string> = {
       'Accept': 'application/json',
+      ...authHeaders,
     };
 
     // Only set Content-Type for requests with a body
@@ -156,37 +357,7 @@ class VaultClient {
       headers['Content-Type'] = 'application/json';
     }
 
-    // Add authentication
-    if (!options.skipAuth) {
-      const apiKey = getApiKey();
-      if (hasApiKey() && apiKey) {
-        headers['X-API-Key'] = apiKey;
-      } else {
-        const credentials = getCredentials();
-        if (credentials) {
-          // Check if token is expired and try to refresh
-          if (isTokenExpired() && credentials.refreshToken) {
-            await this.refreshToken();
-          }
-          const updatedCredentials = getCredentials();
-          if (updatedCredentials) {
-            headers.Authorization = `Bearer ${updatedCredentials.accessToken}`;
-          }
-        } else if (hasEnvCredentials()) {
-          // Auto-login with env credentials
-          const envCreds = getEnvCredentials();
-          if (envCreds) {
-            await this.login(envCreds.username, envCreds.password);
-            const newCredentials = getCredentials();
-            if (newCredentials) {
-              headers.Authorization = `Bearer ${newCredentials.accessToken}`;
-            }
-          }
-        }
-      }
-    }
-
-    const requestOptions: https.RequestOptions = {
+    const requestOptions = withProxy(url, {
       hostname: url.hostname,
       port: url.port || (url.protocol === 'https:' ? 443 : 80),
       path: url.pathname + url.search,
@@ -194,7 +365,8 @@ class VaultClient {
       headers,
       timeout: this.timeout,
       rejectUnauthorized: !this.insecure,
-    };
+      ...(url.protocol === 'https:' ? this.getTlsOptions() : {}),
+    });
 
     return new Promise((resolve, reject) => {
       const protocol = url.protocol === 'https:' ? https : http;
@@ -202,17 +374,26 @@ class VaultClient {
         let data = '';
         res.on('data', (chunk: Buffer | string) => (data += String(chunk)));
         res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          const details = {
+            status,
+            requestId: headerValue(res.headers['x-request-id']),
+            retryAfter: parseRetryAfter(res.headers['retry-after']),
+          };
           try {
             const parsed: unknown = data ? JSON.parse(data) : {};
-            if (res.statusCode && res.statusCode >= 400) {
+            if (status >= 400) {
               const error = parsed as ApiError;
-              reject(new Error(error.message || `Request failed with status ${res.statusCode}`));
+              reject(new VaultApiError(error.message || `Request failed with status ${status}`, {
+                ...details,
+                code: error.error,
+              }));
             } else {
               resolve(parsed as T);
             }
           } catch {
-            if (res.statusCode && res.statusCode >= 400) {
-              reject(new Error(`Request failed with status ${res.statusCode}`));
+            if (status >= 400) {
+              reject(new VaultApiError(`Request failed with status ${status}`, details));
             } else {
               resolve(data as unknown as T);
             }
@@ -223,7 +404,7 @@ class VaultClient {
       req.on('error', reject);
       req.on('timeout', () => {
         req.destroy();
-        reject(new Error('Request timeout'));
+        reject(Object.assign(new Error('Request timeout'), { code: 'ETIMEDOUT' }));
       });
 
       if (options.body !== undefined && options.body !== null) {
@@ -1341,5 +1522,28 @@ class VaultClient {
 // Export singleton instance
 export const client = new VaultClient();
 
+/**
+ * Run requests against another configuration profile. Credentials are read
+ * per request, so the profile stays active until fn settles.
+ */
+export async function withProfile<T>(profile: string, fn: (profileClient: VaultClient) => Promise<T>): Promise<T> {
+  if (!getProfile(profile)) {
+    throw new Error(`Profile '${profile}' not found`);
+  }
+  // These would silently replace the profile's server or credentials
+  const overrides = getProfileEnvOverrides();
+  if (overrides.length > 0) {
+    throw new Error(`${overrides.join(', ')} override${overrides.length === 1 ? 's' : ''} profile '${profile}'; unset to use the profile`);
+  }
+
+  const previous = getActiveProfileName();
+  setRuntimeProfile(profile);
+  try {
+    return await fn(new VaultClient());
+  } finally {
+    setRuntimeProfile(previous);
+  }
+}
+
 // Export class for testing
 export { VaultClient };
@@ -1,20 +1,39 @@
 import Conf from 'conf';
+import path from 'node:path';
 import type { CLIConfig, StoredCredentials, FullConfig } from '../types/index.js';
 import type { CLIPluginConfig } from '../plugins/types.js';
+import { InvalidInputError } from './errors.js';
+import {
+  createCredentialStore,
+  hasSecrets,
+  removeCredentialKeyFile,
+  removeEncryptedCredentials,
+  type CredentialStore,
+  type CredentialStoreSettings,
+  type ProfileSecrets,
+} from './credential-store.js';
 
 const CONFIG_DEFAULTS: CLIConfig = {
   url: 'https://localhost:8443',
   insecure: false,
   timeout: 30000,
+  retries: 2,
 };
 
 const DEFAULT_PROFILE = 'default';
 
 export interface Profile {
   url: string;
+  urls?: string[];  // Additional cluster node URLs for failover
   insecure: boolean;
   timeout: number;
+  retries?: number;
   defaultTenant?: string;
+  caFile?: string;
+  clientCert?: string;
+  clientKey?: string;
+  tlsServerName?: string;
+  proxy?: string;  // HTTP(S) proxy URL for this profile
   credentials?: StoredCredentials;
   apiKey?: string;  // Stored API key for this profile
   apiKeyId?: string;  // API key ID (for revocation on logout)
@@ -26,6 +45,8 @@ interface ConfigStore {
   profiles: Record<string, Profile>;
   // Global plugins (shared across all profiles)
   plugins?: CLIPluginConfig[];
+  // Where profile secrets are kept (default: in this file)
+  credentialStore?: CredentialStoreSettings;
   // Legacy fields for migration
   url?: string;
   insecure?: boolean;
@@ -93,14 +114,139 @@ function migrateIfNeeded(): void {
 // Run migration on module load
 migrateIfNeeded();
 
+// ============================================================================
+// Credential Store
+// ============================================================================
+
+// Passphrase for an encrypted-file store, from an interactive prompt
+let storePassphrase: string | undefined;
+
+// Lazily created backend (undefined when secrets stay in the config file)
+let credentialStore: CredentialStore | undefined | null = null;
+
+function getStorePassphrase(): string | undefined {
+  return storePassphrase ?? process.env.ZNVAULT_STORE_PASSPHRASE;
+}
+
 /**
- * Get the current profile data
+ * Get the configured credential store backend
  */
-function getCurrentProfile(): Profile {
-  const profileName = getActiveProfileName();
+export function getCredentialStoreSettings(): CredentialStoreSettings {
+  return store.get('credentialStore') ?? { type: 'config' };
+}
+
+function getCredentialStore(): CredentialStore | undefined {
+  if (credentialStore === null) {
+    credentialStore = createCredentialStore(getCredentialStoreSettings(), path.dirname(store.path), getStorePassphrase);
+  }
+  return credentialStore;
+}
+
+/**
+ * Check whether the credential store needs a passphrase that was not given
+ */
+export function credentialStoreNeedsPassphrase(): boolean {
+  const settings = getCredentialStoreSettings();
+  return settings.type === 'encrypted-file' && settings.keySource === 'passphrase' && !getStorePassphrase();
+}
+
+/**
+ * Provide the passphrase for an encrypted-file credential store
+ */
+export function unlockCredentialStore(passphrase: string): void {
+  storePassphrase = passphrase;
+}
+
+/**
+ * Read a profile's secrets from wherever they are stored
+ */
+function readSecrets(profileName: string): ProfileSecrets {
+  const credStore = getCredentialStore();
+  if (credStore) {
+    return credStore.read(profileName) ?? {};
+  }
+  const profile = readProfile(profileName);
+  return { credentials: profile?.credentials, apiKey: profile?.apiKey };
+}
+
+/**
+ * Move all profile secrets to another credential store. Secrets are
+ * written to the new backend before anything is removed from the old one.
+ * Returns the number of profiles that had secrets.
+ */
+export function migrateCredentialStore(target: CredentialStoreSettings, passphrase?: string): number {
+  const current = getCredentialStoreSettings();
+  const profiles = store.get('profiles');
+  const names = Object.keys(profiles);
+  const secrets = new Map(names.map(name => [name, readSecrets(name)]));
+  const previous = getCredentialStore();
+  const targetPassphrase = passphrase ?? getStorePassphrase();
+  const configDir = path.dirname(store.path);
+  const next = createCredentialStore(target, configDir, () => targetPassphrase);
+
+  // Moving within a backend rewrites the same entries, so start it empty.
+  // The encrypted file resets itself under the target key source instead.
+  const sameBackend = current.type === target.type;
+  if (sameBackend && previous && !next?.reset) {
+    for (const name of names) previous.remove(name);
+  }
+
+  try {
+    next?.reset?.();
+    for (const [name, profileSecrets] of secrets) {
+      if (next && hasSecrets(profileSecrets)) next.write(name, profileSecrets);
+    }
+  } catch (error) {
+    if (sameBackend && previous) {
+      for (const [name, profileSecrets] of secrets) previous.write(name, profileSecrets);
+    }
+    throw error;
+  }
+
+  store.set('credentialStore', target);
+  credentialStore = next;
+  storePassphrase = targetPassphrase;
+
+  for (const name of names) {
+    const profile = profiles[name];
+    delete profile.credentials;
+    delete profile.apiKey;
+    if (!next) Object.assign(profile, secrets.get(name));
+  }
+  store.set('profiles', profiles);
+
+  if (previous && !sameBackend) {
+    if (current.type === 'encrypted-file') {
+      removeEncryptedCredentials(configDir);
+    } else {
+      for (const name of names) previous.remove(name);
+    }
+  } else if (target.type === 'encrypted-file' && target.keySource === 'passphrase') {
+    // Only needed while the file was keyed by it
+    removeCredentialKeyFile(configDir);
+  }
+
+  return [...secrets.values()].filter(hasSecrets).length;
+}
+
+// ============================================================================
+// Profiles
+// ============================================================================
+
+/**
+ * Get a profile's stored settings, without secrets
+ */
+function readProfile(profileName: string): Profile | undefined {
   // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- needed for test mocks
   const profiles = store.get('profiles') ?? {};
-  return profiles[profileName] ?? {
+  return profiles[profileName] as Profile | undefined;
+}
+
+/**
+ * Get the current profile's settings, without secrets
+ */
+function getCurrentProfileSettings(): Profile {
+  return readProfile(getActiveProfileName()) ?? {
     url: CONFIG_DEFAULTS.url,
     insecure: CONFIG_DEFAULTS.insecure,
     timeout: CONFIG_DEFAULTS.timeout,
@@ -108,14 +254,36 @@ function getCurrentProfile(): Profile {
 }
 
 /**
- * Save profile data
+ * Get the current profile data, including secrets
+ */
+function getCurrentProfile(): Profile {
+  return { ...getCurrentProfileSettings(), ...readSecrets(getActiveProfileName()) };
+}
+
+/**
+ * Save profile data, sending secrets to the credential store
  */
 function saveProfile(profileName: string, profile: Profile): void {
   const profiles = store.get('profiles');
-  profiles[profileName] = profile;
+  const credStore = getCredentialStore();
+
+  if (credStore) {
+    const { credentials, apiKey, ...settings } = profile;
+    credStore.write(profileName, { credentials, apiKey });
+    profiles[profileName] = settings;
+  } else {
+    profiles[profileName] = profile;
+  }
   store.set('profiles', profiles);
 }
 
+/**
+ * Parse a comma-separated URL list, dropping blanks and duplicates
+ */
+export function parseUrlList(value: string): string[] {
+  return [...new Set(value.split(',').map(u => u.trim()).filter(u => u))];
+}
+
 /**
  * Get configuration value with priority:
  * 1. Environment variable
@@ -124,17 +292,37 @@ function saveProfile(profileName: string, profile: Profile): void {
  */
 export function getConfig(): FullConfig {
   const envUrl = process.env.ZNVAULT_URL;
+  const envUrls = process.env.ZNVAULT_URLS ? parseUrlList(process.env.ZNVAULT_URLS) : undefined;
   const envInsecure = process.env.ZNVAULT_INSECURE;
   const envTimeout = process.env.ZNVAULT_TIMEOUT;
+  const envRetries = process.env.ZNVAULT_RETRIES;
 
-  const profile = getCurrentProfile();
+  const profile = getCurrentProfileSettings();
+
+  // An explicit URL from the environment replaces the profile's node list
+  const url = envUrl ?? envUrls?.[0] ?? profile.url;
+  const nodes = envUrls ?? (envUrl ? [] : profile.urls ?? []);
 
   return {
-    url: envUrl ?? profile.url,
+    url,
+    urls: [...new Set([url, ...nodes])],
     insecure: envInsecure === 'true' || profile.insecure,
     timeout: envTimeout ? parseInt(envTimeout, 10) : profile.timeout,
+    // Read on access so a bad ZNVAULT_RETRIES only fails commands that send requests
+    get retries() {
+      return envRetries ? parseEnvRetries(envRetries) : profile.retries ?? CONFIG_DEFAULTS.retries;
+    },
     defaultTenant: profile.defaultTenant,
-    credentials: profile.credentials,
+    // Read on access so loading config never has to unlock the credential store
+    get credentials() {
+      return getCredentials();
+    },
+    caFile: process.env.ZNVAULT_CA_FILE ?? profile.caFile,
+    clientCert: process.env.ZNVAULT_CLIENT_CERT ?? profile.clientCert,
+    clientKey: process.env.ZNVAULT_CLIENT_KEY ?? profile.clientKey,
+    clientKeyPassphrase: process.env.ZNVAULT_CLIENT_KEY_PASSPHRASE,
+    tlsServerName: process.env.ZNVAULT_TLS_SERVER_NAME ?? profile.tlsServerName,
+    proxy: profile.proxy,
   };
 }
 
@@ -185,7 +373,7 @@ export function clearCredentials(): void {
  * Get stored credentials
  */
 export function getCredentials(): StoredCredentials | undefined {
-  return getCurrentProfile().credentials;
+  return readSecrets(getActiveProfileName()).credentials;
 }
 
 /**
@@ -202,21 +390,21 @@ export function isTokenExpired(): boolean {
  * Get the effective URL (from env or config)
  */
 export function getEffectiveUrl(): string {
-  return process.env.ZNVAULT_URL ?? getCurrentProfile().url;
+  return process.env.ZNVAULT_URL ?? getCurrentProfileSettings().url;
 }
 
 /**
  * Check if we have API key authentication (env or stored in profile)
  */
 export function hasApiKey(): boolean {
-  return !!(process.env.ZNVAULT_API_KEY ?? getCurrentProfile().apiKey);
+  return !!(process.env.ZNVAULT_API_KEY ?? readSecrets(getActiveProfileName()).apiKey);
 }
 
 /**
  * Get API key (environment takes precedence over stored)
  */
 export function getApiKey(): string | undefined {
-  return process.env.ZNVAULT_API_KEY ?? getCurrentProfile().apiKey;
+  return process.env.ZNVAULT_API_KEY ?? readSecrets(getActiveProfileName()).apiKey;
 }
 
 /**
@@ -260,7 +448,7 @@ export function clearApiKey(): void {
  * Get stored API key from current profile
  */
 export function getStoredApiKey(): string | undefined {
-  return getCurrentProfile().apiKey;
+  return readSecrets(getActiveProfileName()).apiKey;
 }
 
 /**
@@ -270,6 +458,15 @@ export function hasEnvCredentials(): boolean {
   return !!(process.env.ZNVAULT_USERNAME && process.env.ZNVAULT_PASSWORD);
 }
 
+/**
+ * Environment variables set that take precedence over any profile's
+ * server or credentials
+ */
+export function getProfileEnvOverrides(): string[] {
+  return ['ZNVAULT_URL', 'ZNVAULT_URLS', 'ZNVAULT_API_KEY', 'ZNVAULT_USERNAME', 'ZNVAULT_PASSWORD']
+    .filter(name => process.env[name]);
+}
+
 /**
  * Get credentials from environment
  */
@@ -286,7 +483,12 @@ export function getEnvCredentials(): { username: string; password: string } | un
  * Reset all configuration
  */
 export function resetConfig(): void {
+  const credStore = getCredentialStore();
+  if (credStore) {
+    for (const name of Object.keys(store.get('profiles'))) credStore.remove(name);
+  }
   store.clear();
+  credentialStore = null;
 }
 
 /**
@@ -296,6 +498,25 @@ export function getConfigPath(): string {
   return store.path;
 }
 
+/**
+ * Retry count from ZNVAULT_RETRIES; anything but a non-negative integer is
+ * an error rather than NaN, which would never stop retrying
+ */
+function parseEnvRetries(value: string): number {
+  const retries = Number(value);
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(retries)) {
+    throw new InvalidInputError(`ZNVAULT_RETRIES must be a non-negative integer, got "${value}"`);
+  }
+  return retries;
+}
+
+/**
+ * Proxy URL with its user info (`user:password@`) masked, for display
+ */
+export function maskProxyUrl(proxy: string | undefined): string | undefined {
+  return proxy?.replace(/^([a-z][a-z0-9+.-]*:\/\/)?[^@/]*@/i, '$1****@');
+}
+
 /**
  * Get all stored config (for display)
  */
@@ -304,12 +525,20 @@ export function getAllConfig(): Record<string, unknown> {
   return {
     activeProfile: getActiveProfileName(),
     url: profile.url,
+    urls: profile.urls,
     insecure: profile.insecure,
     timeout: profile.timeout,
+    retries: profile.retries ?? CONFIG_DEFAULTS.retries,
     defaultTenant: profile.defaultTenant,
+    caFile: profile.caFile,
+    clientCert: profile.clientCert,
+    clientKey: profile.clientKey,
+    tlsServerName: profile.tlsServerName,
+    proxy: maskProxyUrl(profile.proxy),
     hasCredentials: !!profile.credentials,
     hasApiKey: !!profile.apiKey,
     apiKeyPrefix: profile.apiKey ? profile.apiKey.substring(0, 12) + '...' : undefined,
+    credentialStore: getCredentialStoreSettings().type,
     configPath: store.path,
   };
 }
@@ -325,19 +554,36 @@ export function listProfiles(): Array<{ name: string; url: string; active: boole
   const profiles = store.get('profiles');
   const activeProfile = getActiveProfileName();
 
-  return Object.entries(profiles).map(([name, profile]) => ({
-    name,
-    url: profile.url,
-    active: name === activeProfile,
-    hasCredentials: !!profile.credentials,
-    hasApiKey: !!profile.apiKey,
-  }));
+  return Object.entries(profiles).map(([name, profile]) => {
+    const secrets = readSecrets(name);
+    return {
+      name,
+      url: profile.url,
+      active: name === activeProfile,
+      hasCredentials: !!secrets.credentials,
+      hasApiKey: !!secrets.apiKey,
+    };
+  });
+}
+
+// Connection settings that can be given when creating a profile
+const CONNECTION_PROFILE_KEYS = ['caFile', 'clientCert', 'clientKey', 'tlsServerName', 'proxy'] as const;
+
+export interface ProfileCreateInput {
+  url?: string;
+  insecure?: boolean;
+  copyFrom?: string;
+  caFile?: string;
+  clientCert?: string;
+  clientKey?: string;
+  tlsServerName?: string;
+  proxy?: string;
 }
 
 /**
  * Create a new profile
  */
-export function createProfile(name: string, options: { url?: string; insecure?: boolean; copyFrom?: string }): void {
+export function createProfile(name: string, options: ProfileCreateInput): void {
   const profiles = store.get('profiles');
 
   if (name in profiles) {
@@ -350,7 +596,7 @@ export function createProfile(name: string, options: { url?: string; insecure?:
     if (!(options.copyFrom in profiles)) {
       throw new Error(`Source profile '${options.copyFrom}' not found`);
     }
-    newProfile = { ...profiles[options.copyFrom] };
+    newProfile = { ...profiles[options.copyFrom], apiKey: readSecrets(options.copyFrom).apiKey };
     // Don't copy credentials
     newProfile.credentials = undefined;
   } else {
@@ -367,9 +613,13 @@ export function createProfile(name: string, options: { url?: string; insecure?:
   if (options.insecure !== undefined) {
     newProfile.insecure = options.insecure;
   }
+  for (const key of CONNECTION_PROFILE_KEYS) {
+    if (options[key]) {
+      newProfile[key] = options[key];
+    }
+  }
 
-  profiles[name] = newProfile;
-  store.set('profiles', profiles);
+  saveProfile(name, newProfile);
 }
 
 /**
@@ -386,6 +636,7 @@ export function deleteProfile(name: string): void {
     throw new Error(`Profile '${name}' not found`);
   }
 
+  getCredentialStore()?.remove(name);
   // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
   delete profiles[name];
   store.set('profiles', profiles);
@@ -413,8 +664,8 @@ export function switchProfile(name: string): void {
  * Get a specific profile
  */
 export function getProfile(name: string): Profile | undefined {
-  const profiles = store.get('profiles');
-  return profiles[name];
+  const profile = readProfile(name);
+  return profile ? { ...profile, ...readSecrets(name) } : undefined;
 }
 
 /**
@@ -435,6 +686,12 @@ export function renameProfile(oldName: string, newName: string): void {
     throw new Error(`Profile '${newName}' already exists`);
   }
 
+  const credStore = getCredentialStore();
+  if (credStore) {
+    credStore.write(newName, readSecrets(oldName));
+    credStore.remove(oldName);
+  }
+
   profiles[newName] = profiles[oldName];
   // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
   delete profiles[oldName];
@@ -0,0 +1,285 @@
+// Path: znvault-cli/src/lib/credential-store.ts
+/**
+ * Credential Store Module
+ *
+ * Pluggable storage for the secret parts of a profile (login tokens and
+ * API keys). By default they live in the config file; these backends keep
+ * them out of it:
+ *
+ * - secret-service: the desktop keyring via libsecret's `secret-tool`
+ * - encrypted-file: an AES-256-GCM file next to the config, keyed by a
+ *   passphrase (scrypt) or by a random key file with 0600 permissions
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { newPassphraseKey, derivePassphraseKey, type PassphraseBundleKey } from './bundle.js';
+import type { StoredCredentials } from '../types/index.js';
+
+export type CredentialStoreType = 'config' | 'secret-service' | 'encrypted-file';
+export type CredentialKeySource = 'passphrase' | 'keyfile';
+
+export const CREDENTIAL_STORE_TYPES: CredentialStoreType[] = ['config', 'secret-service', 'encrypted-file'];
+
+export interface CredentialStoreSettings {
+  type: CredentialStoreType;
+  keySource?: CredentialKeySource;  // encrypted-file only
+}
+
+/**
+ * Secret fields of a profile
+ */
+export interface ProfileSecrets {
+  credentials?: StoredCredentials;
+  apiKey?: string;
+}
+
+export interface CredentialStore {
+  read(profile: string): ProfileSecrets | undefined;
+  write(profile: string, secrets: ProfileSecrets): void;
+  remove(profile: string): void;
+  // Discard all contents and start empty, keyed from the store's own settings
+  reset?(): void;
+}
+
+export function hasSecrets(secrets: ProfileSecrets | undefined): secrets is ProfileSecrets {
+  return secrets !== undefined && (secrets.credentials !== undefined || (secrets.apiKey ?? '') !== '');
+}
+
+// ============================================================================
+// Secret Service (libsecret)
+// ============================================================================
+
+const SECRET_SERVICE_NAME = 'znvault';
+
+class SecretServiceStore implements CredentialStore {
+  private cache = new Map<string, ProfileSecrets | undefined>();
+
+  private run(args: string[], input?: string): string {
+    try {
+      return execFileSync('secret-tool', args, {
+        input,
+        encoding: 'utf-8',
+        stdio: [input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe'],
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error('secret-tool not found. Install libsecret tools (e.g. libsecret-tools) to use the secret-service store');
+      }
+      throw error;
+    }
+  }
+
+  read(profile: string): ProfileSecrets | undefined {
+    if (!this.cache.has(profile)) {
+      let value: string;
+      try {
+        value = this.run(['lookup', 'service', SECRET_SERVICE_NAME, 'profile', profile]);
+      } catch (error) {
+        // lookup exits with status 1 when nothing is stored
+        if ((error as { status?: number }).status === 1) {
+          value = '';
+        } else {
+          throw error;
+        }
+      }
+      this.cache.set(profile, value ? JSON.parse(value) as ProfileSecrets : undefined);
+    }
+    return this.cache.get(profile);
+  }
+
+  write(profile: string, secrets: ProfileSecrets): void {
+    if (!hasSecrets(secrets)) {
+      this.remove(profile);
+      return;
+    }
+    this.run(
+      ['store', '--label', `znvault (${profile})`, 'service', SECRET_SERVICE_NAME, 'profile', profile],
+      JSON.stringify(secrets)
+    );
+    this.cache.set(profile, secrets);
+  }
+
+  remove(profile: string): void {
+    try {
+      this.run(['clear', 'service', SECRET_SERVICE_NAME, 'profile', profile]);
+    } catch {
+      // Nothing stored
+    }
+    this.cache.set(profile, undefined);
+  }
+}
+
+// ============================================================================
+// Encrypted File
+// ============================================================================
+
+export const CREDENTIALS_FILE = 'credentials.enc';
+export const CREDENTIALS_KEY_FILE = 'credentials.key';
+
+interface EncryptedCredentialsFile {
+  version: 1;
+  algorithm: 'AES-256-GCM';
+  keySource: CredentialKeySource;
+  kdf?: PassphraseBundleKey;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+/**
+ * Write a file readable only by the owner, replacing it atomically
+ */
+function writePrivateFile(filePath: string, content: string | Buffer): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, content, { mode: 0o600 });
+  fs.chmodSync(tmpPath, 0o600);
+  fs.renameSync(tmpPath, filePath);
+}
+
+class EncryptedFileStore implements CredentialStore {
+  private readonly filePath: string;
+  private readonly keyPath: string;
+  private readonly keySource: CredentialKeySource;
+  private readonly getPassphrase: () => string | undefined;
+  private entries?: Record<string, ProfileSecrets>;
+  private kdf?: PassphraseBundleKey;
+  private key?: Buffer;
+
+  constructor(dir: string, keySource: CredentialKeySource, getPassphrase: () => string | undefined) {
+    this.filePath = path.join(dir, CREDENTIALS_FILE);
+    this.keyPath = path.join(dir, CREDENTIALS_KEY_FILE);
+    this.keySource = keySource;
+    this.getPassphrase = getPassphrase;
+  }
+
+  private keyFromFile(): Buffer {
+    if (!fs.existsSync(this.keyPath)) {
+      writePrivateFile(this.keyPath, crypto.randomBytes(32).toString('base64') + '\n');
+    }
+    const key = Buffer.from(fs.readFileSync(this.keyPath, 'utf-8').trim(), 'base64');
+    if (key.length !== 32) {
+      throw new Error(`Invalid credential key file: ${this.keyPath}`);
+    }
+    return key;
+  }
+
+  private keyFromPassphrase(kdf: PassphraseBundleKey): Buffer {
+    const passphrase = this.getPassphrase();
+    if (!passphrase) {
+      throw new Error('Credential store is locked. Set ZNVAULT_STORE_PASSPHRASE or run interactively');
+    }
+    return derivePassphraseKey(passphrase, kdf);
+  }
+
+  private initialize(): Record<string, ProfileSecrets> {
+    this.kdf = this.keySource === 'passphrase' ? newPassphraseKey() : undefined;
+    this.key = this.kdf ? this.keyFromPassphrase(this.kdf) : this.keyFromFile();
+    this.entries = {};
+    return this.entries;
+  }
+
+  private load(): Record<string, ProfileSecrets> {
+    if (this.entries) return this.entries;
+
+    if (!fs.existsSync(this.filePath)) {
+      return this.initialize();
+    }
+
+    const file = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as EncryptedCredentialsFile;
+    this.kdf = file.kdf;
+    this.key = file.kdf ? this.keyFromPassphrase(file.kdf) : this.keyFromFile();
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.authTag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(file.ciphertext, 'base64')), decipher.final()]);
+      this.entries = JSON.parse(plaintext.toString('utf-8')) as Record<string, ProfileSecrets>;
+    } catch {
+      throw new Error('Unable to unlock credential store: wrong passphrase or key, or the file was modified');
+    }
+    return this.entries;
+  }
+
+  private save(): void {
+    if (!this.entries || !this.key) return;
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(this.entries), 'utf-8'), cipher.final()]);
+
+    const file: EncryptedCredentialsFile = {
+      version: 1,
+      algorithm: 'AES-256-GCM',
+      keySource: this.kdf ? 'passphrase' : 'keyfile',
+      kdf: this.kdf,
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+    writePrivateFile(this.filePath, JSON.stringify(file, null, 2) + '\n');
+  }
+
+  read(profile: string): ProfileSecrets | undefined {
+    return this.load()[profile];
+  }
+
+  write(profile: string, secrets: ProfileSecrets): void {
+    const entries = this.load();
+    if (hasSecrets(secrets)) {
+      entries[profile] = secrets;
+    } else {
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete entries[profile];
+    }
+    this.save();
+  }
+
+  remove(profile: string): void {
+    this.write(profile, {});
+  }
+
+  /**
+   * Replace the file with an empty one under a new key from the configured
+   * key source, whatever key the existing file used
+   */
+  reset(): void {
+    this.initialize();
+    this.save();
+  }
+}
+
+/**
+ * Delete the key file of an encrypted credential store
+ */
+export function removeCredentialKeyFile(configDir: string): void {
+  fs.rmSync(path.join(configDir, CREDENTIALS_KEY_FILE), { force: true });
+}
+
+/**
+ * Delete the encrypted credential file and its key file
+ */
+export function removeEncryptedCredentials(configDir: string): void {
+  fs.rmSync(path.join(configDir, CREDENTIALS_FILE), { force: true });
+  removeCredentialKeyFile(configDir);
+}
+
+/**
+ * Create the backend for the given settings; `config` has no external store
+ */
+export function createCredentialStore(
+  settings: CredentialStoreSettings,
+  configDir: string,
+  getPassphrase: () => string | undefined
+): CredentialStore | undefined {
+  switch (settings.type) {
+    case 'secret-service':
+      return new SecretServiceStore();
+    case 'encrypted-file':
+      return new EncryptedFileStore(configDir, settings.keySource ?? 'keyfile', getPassphrase);
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,318 @@
+// Path: znvault-cli/src/lib/envelope.ts
+/**
+ * Envelope-Encrypted Files
+ *
+ * File format used by `kms encrypt-file`, `kms decrypt-file` and
+ * `kms re-encrypt`. Data is encrypted locally with a KMS data key
+ * (AES-256-GCM) in fixed-size chunks, so files of any size are processed in
+ * constant memory:
+ *
+ *   "ZNVE" | version (1 byte) | header length (uint32 BE) | header JSON | chunks
+ *
+ * The header holds the wrapped data key, KMS key ID and version, encryption
+ * context, chunk size and a random 8-byte nonce prefix. Each chunk is the
+ * ciphertext followed by its 16-byte GCM tag. Chunk i uses the nonce
+ * prefix || i (uint32 BE) and authenticates SHA-256(header) || i || final
+ * flag as AAD, so the header cannot be altered and chunks cannot be
+ * reordered, dropped or truncated. Every chunk except the last is full size;
+ * an empty file is a single empty final chunk.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+export const ENVELOPE_MAGIC = 'ZNVE';
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_EXTENSION = '.znve';
+
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+// Refuse headers that would make us allocate unreasonable buffers
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+const MAX_HEADER_SIZE = 64 * 1024;
+
+const TAG_LENGTH = 16;
+const PREAMBLE_LENGTH = ENVELOPE_MAGIC.length + 1 + 4;
+
+export interface EnvelopeHeader {
+  algorithm: 'AES-256-GCM';
+  keyId: string;
+  keyVersion?: string;
+  encryptedKey: string;                   // Data key wrapped by KMS (base64)
+  context: Record<string, string>;        // Encryption context used to wrap the key
+  chunkSize: number;
+  noncePrefix: string;                    // base64, 8 bytes
+  createdAt: string;
+}
+
+export type EnvelopeKeyInfo = Pick<EnvelopeHeader, 'keyId' | 'keyVersion' | 'encryptedKey' | 'context'>;
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+function chunkIv(prefix: Buffer, index: number): Buffer {
+  const iv = Buffer.alloc(12);
+  prefix.copy(iv, 0, 0, 8);
+  iv.writeUInt32BE(index, 8);
+  return iv;
+}
+
+function chunkAad(headerDigest: Buffer, index: number, final: boolean): Buffer {
+  const aad = Buffer.alloc(headerDigest.length + 5);
+  headerDigest.copy(aad);
+  aad.writeUInt32BE(index, headerDigest.length);
+  aad[headerDigest.length + 4] = final ? 1 : 0;
+  return aad;
+}
+
+function serializeHeader(header: EnvelopeHeader): { preamble: Buffer; headerDigest: Buffer } {
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf-8');
+  const preamble = Buffer.alloc(PREAMBLE_LENGTH);
+  preamble.write(ENVELOPE_MAGIC, 0, 'ascii');
+  preamble[ENVELOPE_MAGIC.length] = ENVELOPE_VERSION;
+  preamble.writeUInt32BE(headerBytes.length, ENVELOPE_MAGIC.length + 1);
+  return {
+    preamble: Buffer.concat([preamble, headerBytes]),
+    headerDigest: crypto.createHash('sha256').update(headerBytes).digest(),
+  };
+}
+
+function newHeader(keyInfo: EnvelopeKeyInfo, chunkSize: number): EnvelopeHeader {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`Chunk size must be between 1 and ${String(MAX_CHUNK_SIZE)} bytes`);
+  }
+  return {
+    algorithm: 'AES-256-GCM',
+    ...keyInfo,
+    chunkSize,
+    noncePrefix: crypto.randomBytes(8).toString('base64'),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function encryptChunk(dataKey: Buffer, header: EnvelopeHeader, headerDigest: Buffer, index: number, final: boolean, plaintext: Buffer): Buffer {
+  const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, chunkIv(Buffer.from(header.noncePrefix, 'base64'), index));
+  cipher.setAAD(chunkAad(headerDigest, index, final));
+  return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+async function readExactly(handle: fs.promises.FileHandle, length: number, position: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  let offset = 0;
+  while (offset < length) {
+    const { bytesRead } = await handle.read(buffer, offset, length - offset, position + offset);
+    if (bytesRead === 0) {
+      throw new Error('Envelope file is truncated');
+    }
+    offset += bytesRead;
+  }
+  return buffer;
+}
+
+/**
+ * Write through a temporary file that is renamed into place on success, so
+ * a failed run never leaves partial (or unauthenticated) output behind
+ */
+async function writeAtomically(
+  outputPath: string,
+  write: (handle: fs.promises.FileHandle) => Promise<void>
+): Promise<void> {
+  const target = path.resolve(outputPath);
+  const tmp = path.join(path.dirname(target), `.${path.basename(target)}.${String(process.pid)}.tmp`);
+  const handle = await fs.promises.open(tmp, 'w', 0o600);
+
+  try {
+    await write(handle);
+    await handle.close();
+    await fs.promises.rename(tmp, target);
+  } catch (err) {
+    await handle.close().catch(() => undefined);
+    await fs.promises.rm(tmp, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Encrypt a file with a plaintext data key
+ */
+export async function encryptFile(
+  inputPath: string,
+  outputPath: string,
+  dataKey: Buffer,
+  keyInfo: EnvelopeKeyInfo,
+  options: { chunkSize?: number; onProgress?: ProgressCallback } = {}
+): Promise<EnvelopeHeader> {
+  const header = newHeader(keyInfo, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  const { preamble, headerDigest } = serializeHeader(header);
+
+  const input = await fs.promises.open(inputPath, 'r');
+  try {
+    const { size } = await input.stat();
+    const chunks = Math.max(1, Math.ceil(size / header.chunkSize));
+
+    await writeAtomically(outputPath, async out => {
+      await out.write(preamble);
+
+      for (let index = 0; index < chunks; index++) {
+        const position = index * header.chunkSize;
+        const plaintext = await readExactly(input, Math.min(header.chunkSize, size - position), position);
+        await out.write(encryptChunk(dataKey, header, headerDigest, index, index === chunks - 1, plaintext));
+        options.onProgress?.(position + plaintext.length, size);
+      }
+    });
+  } finally {
+    await input.close();
+  }
+
+  return header;
+}
+
+/**
+ * Read and validate the header of an envelope file
+ */
+export async function readEnvelopeHeader(filePath: string): Promise<{ header: EnvelopeHeader; dataOffset: number; headerDigest: Buffer }> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const preamble = await readExactly(handle, PREAMBLE_LENGTH, 0).catch(() => {
+      throw new Error(`Not an envelope-encrypted file: ${filePath}`);
+    });
+    if (preamble.toString('ascii', 0, ENVELOPE_MAGIC.length) !== ENVELOPE_MAGIC) {
+      throw new Error(`Not an envelope-encrypted file: ${filePath}`);
+    }
+    const version = preamble[ENVELOPE_MAGIC.length];
+    if (version !== ENVELOPE_VERSION) {
+      throw new Error(`Unsupported envelope version ${String(version)}`);
+    }
+
+    const headerLength = preamble.readUInt32BE(ENVELOPE_MAGIC.length + 1);
+    if (headerLength > MAX_HEADER_SIZE) {
+      throw new Error('Envelope header is too large');
+    }
+    const headerBytes = await readExactly(handle, headerLength, PREAMBLE_LENGTH);
+    const parsed = JSON.parse(headerBytes.toString('utf-8')) as Partial<Record<keyof EnvelopeHeader, unknown>>;
+
+    if (parsed.algorithm !== 'AES-256-GCM' || typeof parsed.encryptedKey !== 'string' || typeof parsed.keyId !== 'string' ||
+        typeof parsed.noncePrefix !== 'string') {
+      throw new Error('Invalid envelope header');
+    }
+    const chunkSize = Number(parsed.chunkSize);
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+      throw new Error(`Invalid envelope chunk size ${String(parsed.chunkSize)}`);
+    }
+
+    return {
+      header: parsed as EnvelopeHeader,
+      dataOffset: PREAMBLE_LENGTH + headerLength,
+      headerDigest: crypto.createHash('sha256').update(headerBytes).digest(),
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Authenticate and decrypt the chunks of an envelope file in order
+ */
+async function* decryptChunks(
+  inputPath: string,
+  dataKey: Buffer
+): AsyncGenerator<{ plaintext: Buffer; index: number; final: boolean; done: number; total: number }> {
+  const { header, dataOffset, headerDigest } = await readEnvelopeHeader(inputPath);
+  const prefix = Buffer.from(header.noncePrefix, 'base64');
+  const blockSize = header.chunkSize + TAG_LENGTH;
+
+  const input = await fs.promises.open(inputPath, 'r');
+  try {
+    const { size } = await input.stat();
+    const dataSize = size - dataOffset;
+    const chunks = Math.max(1, Math.ceil(dataSize / blockSize));
+    const lastBlock = dataSize - (chunks - 1) * blockSize;
+    if (lastBlock < TAG_LENGTH) {
+      throw new Error('Envelope file is truncated');
+    }
+
+    for (let index = 0; index < chunks; index++) {
+      const final = index === chunks - 1;
+      const position = dataOffset + index * blockSize;
+      const block = await readExactly(input, final ? lastBlock : blockSize, position);
+      const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, chunkIv(prefix, index));
+      decipher.setAAD(chunkAad(headerDigest, index, final));
+      decipher.setAuthTag(block.subarray(block.length - TAG_LENGTH));
+
+      let plaintext: Buffer;
+      try {
+        plaintext = Buffer.concat([decipher.update(block.subarray(0, block.length - TAG_LENGTH)), decipher.final()]);
+      } catch {
+        throw new Error(`Authentication failed at chunk ${String(index)}: file is corrupted, truncated or was modified`);
+      }
+      yield { plaintext, index, final, done: position + block.length - dataOffset, total: dataSize };
+    }
+  } finally {
+    await input.close();
+  }
+}
+
+/**
+ * Decrypt an envelope file with its unwrapped data key. Output only appears
+ * once every chunk has been authenticated.
+ */
+export async function decryptFile(
+  inputPath: string,
+  outputPath: string,
+  dataKey: Buffer,
+  options: { onProgress?: ProgressCallback } = {}
+): Promise<EnvelopeHeader> {
+  const { header } = await readEnvelopeHeader(inputPath);
+
+  await writeAtomically(outputPath, async out => {
+    for await (const chunk of decryptChunks(inputPath, dataKey)) {
+      await out.write(chunk.plaintext);
+      options.onProgress?.(chunk.done, chunk.total);
+    }
+  });
+
+  return header;
+}
+
+/**
+ * Re-encrypt an envelope file under a new data key, chunk by chunk, keeping
+ * its chunk size. The header is covered by every chunk's AAD, so the data
+ * is re-encrypted rather than only re-wrapping the old data key. Output may
+ * be the input path; it is replaced once every chunk has been authenticated.
+ */
+export async function reencryptFile(
+  inputPath: string,
+  outputPath: string,
+  oldDataKey: Buffer,
+  newDataKey: Buffer,
+  keyInfo: EnvelopeKeyInfo,
+  options: { onProgress?: ProgressCallback } = {}
+): Promise<EnvelopeHeader> {
+  const { header: oldHeader } = await readEnvelopeHeader(inputPath);
+  const header = newHeader(keyInfo, oldHeader.chunkSize);
+  const { preamble, headerDigest } = serializeHeader(header);
+
+  await writeAtomically(outputPath, async out => {
+    await out.write(preamble);
+    for await (const chunk of decryptChunks(inputPath, oldDataKey)) {
+      await out.write(encryptChunk(newDataKey, header, headerDigest, chunk.index, chunk.final, chunk.plaintext));
+      options.onProgress?.(chunk.done, chunk.total);
+    }
+  });
+
+  return header;
+}
+
+/**
+ * Whether a file starts with the envelope magic
+ */
+export function isEnvelopeFile(filePath: string): boolean {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const magic = Buffer.alloc(ENVELOPE_MAGIC.length);
+    const bytesRead = fs.readSync(fd, magic, 0, magic.length, 0);
+    return bytesRead === magic.length && magic.toString('ascii') === ENVELOPE_MAGIC;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
@@ -0,0 +1,143 @@
+// Path: znvault-cli/src/lib/errors.ts
+/**
+ * Errors Module
+ *
+ * Typed API errors and the stable process exit codes scripts can rely on.
+ */
+
+import * as output from './output.js';
+
+/**
+ * Process exit codes, stable across releases
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  GENERAL: 1,
+  AUTH: 2,             // 401: missing or expired credentials
+  FORBIDDEN: 3,        // 403: authenticated but not permitted
+  NOT_FOUND: 4,        // 404
+  CONFLICT: 5,         // 409: already exists or version mismatch
+  INVALID_REQUEST: 6,  // 400/422: rejected input
+  RATE_LIMITED: 7,     // 429
+  SERVER_ERROR: 8,     // 5xx
+  UNAVAILABLE: 9,      // Server unreachable or timed out
+} as const;
+
+// Node error codes for a server that could not be reached
+export const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EAI_AGAIN',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EPIPE',
+]);
+
+interface VaultApiErrorDetails {
+  status: number;
+  code?: string;
+  requestId?: string;
+  retryAfter?: number;
+}
+
+/**
+ * Error for a non-2xx API response
+ */
+export class VaultApiError extends Error {
+  readonly status: number;
+  readonly code?: string;       // Server error code (ApiError.error)
+  readonly requestId?: string;  // X-Request-Id response header
+  readonly retryAfter?: number; // Retry-After in milliseconds
+
+  constructor(message: string, details: VaultApiErrorDetails) {
+    super(message);
+    this.name = 'VaultApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * Error for invalid local input (flags, environment) caught before any request
+ */
+export class InvalidInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidInputError';
+  }
+}
+
+/**
+ * Map an error to its process exit code
+ */
+export function exitCodeFor(error: unknown): number {
+  if (error instanceof VaultApiError) {
+    switch (error.status) {
+      case 401: return EXIT_CODES.AUTH;
+      case 403: return EXIT_CODES.FORBIDDEN;
+      case 404: return EXIT_CODES.NOT_FOUND;
+      case 409: return EXIT_CODES.CONFLICT;
+      case 400:
+      case 422: return EXIT_CODES.INVALID_REQUEST;
+      case 429: return EXIT_CODES.RATE_LIMITED;
+      default: return error.status >= 500 ? EXIT_CODES.SERVER_ERROR : EXIT_CODES.GENERAL;
+    }
+  }
+  if (error instanceof InvalidInputError) {
+    return EXIT_CODES.INVALID_REQUEST;
+  }
+
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  if (code && NETWORK_ERROR_CODES.has(code)) {
+    return EXIT_CODES.UNAVAILABLE;
+  }
+  return EXIT_CODES.GENERAL;
+}
+
+/**
+ * Machine-readable error body (written to stderr in JSON mode)
+ */
+export function errorBody(error: unknown): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    message: error instanceof Error ? error.message : String(error),
+    exitCode: exitCodeFor(error),
+  };
+
+  if (error instanceof VaultApiError) {
+    body.status = error.status;
+    body.code = error.code;
+    body.requestId = error.requestId;
+  } else if (error instanceof Error && 'code' in error) {
+    body.code = (error as NodeJS.ErrnoException).code;
+  }
+
+  return { error: body };
+}
+
+// Set from the --json flag of the running command
+let jsonErrors = false;
+
+/**
+ * Report errors as JSON on stderr instead of text
+ */
+export function setJsonErrors(enabled: boolean): void {
+  jsonErrors = enabled;
+}
+
+/**
+ * Report an error and exit with its exit code
+ */
+export function exitWithError(error: unknown): never {
+  if (jsonErrors) {
+    process.stderr.write(JSON.stringify(errorBody(error)) + '\n');
+  } else {
+    const message = error instanceof Error ? error.message : String(error);
+    const requestId = error instanceof VaultApiError && error.requestId ? ` (request ${error.requestId})` : '';
+    output.error(message + requestId);
+  }
+  process.exit(exitCodeFor(error));
+}
@@ -0,0 +1,247 @@
+// Path: znvault-cli/src/lib/kms-sign.ts
+/**
+ * KMS Signing Helpers
+ *
+ * Local parts of `kms sign` / `kms verify` / `kms get-public-key`. Messages
+ * are hashed locally and only the digest is sent to KMS, so files of any
+ * size can be signed. Signatures are the raw KMS output (DER for ECDSA), so
+ * they verify with `openssl dgst -verify`; JWS output is a compact
+ * serialization with a detached payload (RFC 7515, Appendix F).
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+
+export const SIGNING_ALGORITHMS = [
+  'RSASSA_PSS_SHA_256',
+  'RSASSA_PSS_SHA_384',
+  'RSASSA_PSS_SHA_512',
+  'RSASSA_PKCS1_V1_5_SHA_256',
+  'RSASSA_PKCS1_V1_5_SHA_384',
+  'RSASSA_PKCS1_V1_5_SHA_512',
+  'ECDSA_SHA_256',
+  'ECDSA_SHA_384',
+  'ECDSA_SHA_512',
+] as const;
+
+export type SigningAlgorithm = typeof SIGNING_ALGORITHMS[number];
+
+export type SignatureFormat = 'raw' | 'base64' | 'jws';
+
+export const SIGNATURE_FORMATS: SignatureFormat[] = ['raw', 'base64', 'jws'];
+
+export type PublicKeyFormat = 'pem' | 'jwk' | 'der';
+
+const JWS_ALGORITHMS: Record<SigningAlgorithm, string> = {
+  RSASSA_PSS_SHA_256: 'PS256',
+  RSASSA_PSS_SHA_384: 'PS384',
+  RSASSA_PSS_SHA_512: 'PS512',
+  RSASSA_PKCS1_V1_5_SHA_256: 'RS256',
+  RSASSA_PKCS1_V1_5_SHA_384: 'RS384',
+  RSASSA_PKCS1_V1_5_SHA_512: 'RS512',
+  ECDSA_SHA_256: 'ES256',
+  ECDSA_SHA_384: 'ES384',
+  ECDSA_SHA_512: 'ES512',
+};
+
+// Size of r and s in a JWS ECDSA signature (P-256, P-384, P-521)
+const ECDSA_COMPONENT_SIZE: Record<string, number> = { ES256: 32, ES384: 48, ES512: 66 };
+
+export function parseSigningAlgorithm(value: string): SigningAlgorithm {
+  const algorithm = value.toUpperCase();
+  if (!(SIGNING_ALGORITHMS as readonly string[]).includes(algorithm)) {
+    throw new Error(`Unsupported signing algorithm "${value}". Use one of: ${SIGNING_ALGORITHMS.join(', ')}`);
+  }
+  return algorithm as SigningAlgorithm;
+}
+
+/**
+ * Hash function used by an algorithm ("sha256", ...)
+ */
+export function digestAlgorithm(algorithm: SigningAlgorithm): string {
+  return `sha${algorithm.slice(-3)}`;
+}
+
+export function jwsAlgorithm(algorithm: SigningAlgorithm): string {
+  return JWS_ALGORITHMS[algorithm];
+}
+
+export function fromJwsAlgorithm(alg: string): SigningAlgorithm {
+  const entry = Object.entries(JWS_ALGORITHMS).find(([, jws]) => jws === alg);
+  if (!entry) {
+    throw new Error(`Unsupported JWS algorithm "${alg}"`);
+  }
+  return entry[0] as SigningAlgorithm;
+}
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+/**
+ * Stream a file through a hash, optionally base64url-encoding it first
+ */
+async function hashFile(hash: crypto.Hash, filePath: string, encode: boolean): Promise<void> {
+  let pending = Buffer.alloc(0);
+  for await (const chunk of fs.createReadStream(filePath)) {
+    if (!encode) {
+      hash.update(chunk as Buffer);
+      continue;
+    }
+    // Encode in multiples of 3 bytes so no padding appears mid-stream
+    const data = Buffer.concat([pending, chunk as Buffer]);
+    const whole = data.length - (data.length % 3);
+    hash.update(data.subarray(0, whole).toString('base64url'));
+    pending = data.subarray(whole);
+  }
+  if (pending.length > 0) {
+    hash.update(pending.toString('base64url'));
+  }
+}
+
+/**
+ * Digest of a file for signing
+ */
+export async function digestFile(filePath: string, algorithm: SigningAlgorithm): Promise<Buffer> {
+  const hash = crypto.createHash(digestAlgorithm(algorithm));
+  await hashFile(hash, filePath, false);
+  return hash.digest();
+}
+
+/**
+ * Protected header of a detached JWS
+ */
+export function jwsHeader(algorithm: SigningAlgorithm, keyId: string): string {
+  return base64url(JSON.stringify({ alg: jwsAlgorithm(algorithm), kid: keyId }));
+}
+
+/**
+ * Digest of the JWS signing input, BASE64URL(header) || '.' || BASE64URL(payload)
+ */
+export async function digestJwsSigningInput(encodedHeader: string, filePath: string, algorithm: SigningAlgorithm): Promise<Buffer> {
+  const hash = crypto.createHash(digestAlgorithm(algorithm));
+  hash.update(`${encodedHeader}.`);
+  await hashFile(hash, filePath, true);
+  return hash.digest();
+}
+
+export interface ParsedJws {
+  encodedHeader: string;
+  header: { alg: string; kid?: string };
+  algorithm: SigningAlgorithm;
+  signature: Buffer;   // As KMS expects it (DER for ECDSA)
+}
+
+/**
+ * Parse a detached compact JWS ("header..signature")
+ */
+export function parseDetachedJws(jws: string): ParsedJws {
+  const parts = jws.trim().split('.');
+  if (parts.length !== 3 || parts[1] !== '') {
+    throw new Error('Not a detached JWS (expected "header..signature")');
+  }
+  const [encodedHeader, , encodedSignature] = parts as [string, string, string];
+
+  const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8')) as { alg?: unknown; kid?: unknown };
+  if (typeof header.alg !== 'string') {
+    throw new Error('JWS header has no "alg"');
+  }
+  const algorithm = fromJwsAlgorithm(header.alg);
+  const raw = Buffer.from(encodedSignature, 'base64url');
+
+  return {
+    encodedHeader,
+    header: { alg: header.alg, kid: typeof header.kid === 'string' ? header.kid : undefined },
+    algorithm,
+    signature: header.alg.startsWith('ES') ? joseToDer(raw, header.alg) : raw,
+  };
+}
+
+/**
+ * Encode a KMS signature as a detached compact JWS
+ */
+export function toDetachedJws(encodedHeader: string, signature: Buffer, algorithm: SigningAlgorithm): string {
+  const alg = jwsAlgorithm(algorithm);
+  const jwsSignature = alg.startsWith('ES') ? derToJose(signature, alg) : signature;
+  return `${encodedHeader}..${base64url(jwsSignature)}`;
+}
+
+// ============================================================================
+// ECDSA signature encodings
+// ============================================================================
+
+function readDerLength(der: Buffer, offset: number): { length: number; offset: number } {
+  const first = der[offset] ?? 0;
+  if (first < 0x80) return { length: first, offset: offset + 1 };
+  const bytes = first & 0x7f;
+  return { length: der.readUIntBE(offset + 1, bytes), offset: offset + 1 + bytes };
+}
+
+/**
+ * DER ECDSA-Sig-Value to the fixed-size r || s that JWS uses
+ */
+export function derToJose(der: Buffer, alg: string): Buffer {
+  const size = ECDSA_COMPONENT_SIZE[alg];
+  if (!size || der[0] !== 0x30) {
+    throw new Error('Invalid ECDSA signature');
+  }
+
+  const seq = readDerLength(der, 1);
+  let offset = seq.offset;
+  const components: Buffer[] = [];
+  for (let i = 0; i < 2; i++) {
+    if (der[offset] !== 0x02) {
+      throw new Error('Invalid ECDSA signature');
+    }
+    const int = readDerLength(der, offset + 1);
+    let value = der.subarray(int.offset, int.offset + int.length);
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    components.push(Buffer.concat([Buffer.alloc(size - value.length), value]));
+    offset = int.offset + int.length;
+  }
+  return Buffer.concat(components);
+}
+
+function derLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  return length < 0x100 ? Buffer.from([0x81, length]) : Buffer.from([0x82, length >> 8, length & 0xff]);
+}
+
+function derInteger(value: Buffer): Buffer {
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) start++;
+  let trimmed = value.subarray(start);
+  if ((trimmed[0] & 0x80) !== 0) trimmed = Buffer.concat([Buffer.from([0]), trimmed]);
+  return Buffer.concat([Buffer.from([0x02]), derLength(trimmed.length), trimmed]);
+}
+
+/**
+ * Fixed-size r || s back to DER
+ */
+export function joseToDer(signature: Buffer, alg: string): Buffer {
+  const size = ECDSA_COMPONENT_SIZE[alg];
+  if (!size || signature.length !== size * 2) {
+    throw new Error('Invalid ECDSA signature length');
+  }
+  const body = Buffer.concat([derInteger(signature.subarray(0, size)), derInteger(signature.subarray(size))]);
+  return Buffer.concat([Buffer.from([0x30]), derLength(body.length), body]);
+}
+
+// ============================================================================
+// Public keys
+// ============================================================================
+
+/**
+ * Convert a base64 DER (SubjectPublicKeyInfo) public key
+ */
+export function exportPublicKey(derBase64: string, format: PublicKeyFormat, keyId?: string): string | Buffer {
+  const der = Buffer.from(derBase64, 'base64');
+  if (format === 'der') return der;
+
+  const key = crypto.createPublicKey({ key: der, format: 'der', type: 'spki' });
+  if (format === 'pem') {
+    return key.export({ type: 'spki', format: 'pem' });
+  }
+  const jwk = { ...key.export({ format: 'jwk' }), kid: keyId, use: 'sig' };
+  return JSON.stringify(jwk, null, 2) + '\n';
+}
@@ -0,0 +1,105 @@
+// Path: znvault-cli/src/lib/kms.ts
+/**
+ * KMS Helpers
+ *
+ * Shared between the kms commands and other commands that consume
+ * KMS-encrypted data (e.g. secret templates).
+ */
+
+import crypto from 'node:crypto';
+import { client } from './client.js';
+
+// Wrapping used for bring-your-own-key imports
+export const IMPORT_WRAPPING_ALGORITHM = 'RSAES_OAEP_SHA_256';
+
+export interface EncryptResponse {
+  keyId: string;
+  ciphertext: string;
+  encryptionContext: Record<string, string>;
+}
+
+export interface DecryptResponse {
+  keyId: string;
+  plaintext: string;
+  encryptionContext: Record<string, string>;
+}
+
+export interface GenerateDataKeyResponse {
+  keyId: string;
+  plaintext?: string;
+  ciphertext: string;
+}
+
+/**
+ * Parse an encryption context given as JSON or "key=value,..."
+ */
+export function parseContext(contextStr?: string): Record<string, string> {
+  if (!contextStr) return {};
+  try {
+    return JSON.parse(contextStr) as Record<string, string>;
+  } catch {
+    // Try key=value format
+    const context: Record<string, string> = {};
+    const pairs = contextStr.split(',');
+    for (const pair of pairs) {
+      const [key, value] = pair.split('=');
+      if (key && value) {
+        context[key.trim()] = value.trim();
+      }
+    }
+    return context;
+  }
+}
+
+/**
+ * Encrypt raw plaintext with a KMS key, returning the resolved key ID and
+ * base64 ciphertext
+ */
+export async function kmsEncrypt(keyId: string, plaintext: Buffer, context?: string): Promise<{ keyId: string; ciphertext: string }> {
+  const result = await client.post<EncryptResponse>('/v1/kms/encrypt', {
+    keyId,
+    plaintext: plaintext.toString('base64'),
+    context: parseContext(context),
+  });
+  return { keyId: result.keyId, ciphertext: result.ciphertext };
+}
+
+/**
+ * Decrypt base64 ciphertext with a KMS key, returning the raw plaintext
+ */
+export async function kmsDecrypt(keyId: string, ciphertext: string, context?: string): Promise<Buffer> {
+  const result = await client.post<DecryptResponse>('/v1/kms/decrypt', {
+    keyId,
+    ciphertext,
+    context: parseContext(context),
+  });
+  return Buffer.from(result.plaintext, 'base64');
+}
+
+/**
+ * Generate a data key, returning the plaintext key, its KMS-wrapped form
+ * and the resolved key ID (when given an alias)
+ */
+export async function kmsGenerateDataKey(
+  keyId: string,
+  context?: string
+): Promise<{ keyId: string; plaintext: Buffer; ciphertext: string }> {
+  const result = await client.post<GenerateDataKeyResponse>('/v1/kms/generate-data-key', {
+    keyId,
+    keySpec: 'AES_256',
+    context: parseContext(context),
+  });
+  if (!result.plaintext) {
+    throw new Error('KMS did not return a plaintext data key');
+  }
+  return { keyId: result.keyId, plaintext: Buffer.from(result.plaintext, 'base64'), ciphertext: result.ciphertext };
+}
+
+/**
+ * Wrap key material for import with the KMS wrapping public key (base64 DER
+ * SubjectPublicKeyInfo), using RSA-OAEP with SHA-256
+ */
+export function wrapKeyMaterial(material: Buffer, wrappingKey: string): Buffer {
+  const key = crypto.createPublicKey({ key: Buffer.from(wrappingKey, 'base64'), format: 'der', type: 'spki' });
+  return crypto.publicEncrypt({ key, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' }, material);
+}
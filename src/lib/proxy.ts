@@ -0,0 +1,148 @@
+// Path: znvault-cli/src/lib/proxy.ts
+/**
+ * Proxy Module
+ *
+ * Routes outgoing HTTP(S) requests through a proxy taken from the profile
+ * `proxy` setting or the standard HTTPS_PROXY / HTTP_PROXY variables,
+ * skipping hosts listed in NO_PROXY. HTTPS is tunneled with CONNECT.
+ */
+
+import http from 'node:http';
+import https from 'node:https';
+import tls from 'node:tls';
+import type { Duplex } from 'node:stream';
+import { getConfig } from './config.js';
+
+function env(name: string): string | undefined {
+  return process.env[name] ?? process.env[name.toLowerCase()];
+}
+
+function defaultPort(url: URL): number {
+  return Number(url.port || (url.protocol === 'https:' ? 443 : 80));
+}
+
+/**
+ * Check a target against a NO_PROXY list: `*`, host names (matching
+ * subdomains too, with or without a leading dot), and optional `:port`
+ */
+export function shouldBypassProxy(target: URL, noProxy = env('NO_PROXY')): boolean {
+  if (!noProxy) return false;
+
+  const host = target.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const port = defaultPort(target);
+
+  return noProxy.split(/[\s,]+/).filter(e => e).some(entry => {
+    if (entry === '*') return true;
+
+    const match = /^(.*?)(?::(\d+))?$/.exec(entry.toLowerCase());
+    const pattern = (match?.[1] ?? '').replace(/^\*?\./, '');
+    if (match?.[2] && Number(match[2]) !== port) return false;
+
+    return host === pattern || host.endsWith(`.${pattern}`);
+  });
+}
+
+/**
+ * Proxy to use for a target URL, if any. The profile setting wins over
+ * the environment; NO_PROXY applies to both.
+ */
+export function getProxyUrl(target: URL): URL | undefined {
+  const proxy = getConfig().proxy ?? env(target.protocol === 'https:' ? 'HTTPS_PROXY' : 'HTTP_PROXY');
+
+  if (!proxy || shouldBypassProxy(target)) return undefined;
+  return new URL(proxy.includes('://') ? proxy : `http://${proxy}`);
+}
+
+function proxyAuthorization(proxy: URL): string | undefined {
+  if (!proxy.username) return undefined;
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * HTTPS agent that opens each connection through a CONNECT tunnel
+ */
+class TunnelAgent extends https.Agent {
+  private readonly proxy: URL;
+
+  constructor(proxy: URL) {
+    super();
+    this.proxy = proxy;
+  }
+
+  override createConnection(
+    options: https.RequestOptions,
+    callback?: (err: Error | null, stream: Duplex) => void
+  ): undefined {
+    const done = callback ?? (() => undefined);
+    const target = `${options.host ?? options.hostname ?? 'localhost'}:${String(options.port ?? 443)}`;
+    const headers: Record<string, string> = { Host: target };
+    const auth = proxyAuthorization(this.proxy);
+    if (auth) headers['Proxy-Authorization'] = auth;
+
+    const protocol = this.proxy.protocol === 'https:' ? https : http;
+    const connectReq = protocol.request({
+      hostname: this.proxy.hostname,
+      port: defaultPort(this.proxy),
+      method: 'CONNECT',
+      path: target,
+      headers,
+      timeout: options.timeout,
+    });
+
+    connectReq.once('connect', (res, socket) => {
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        done(new Error(`Proxy refused tunnel to ${target} (HTTP ${String(res.statusCode)})`), socket);
+        return;
+      }
+      // The request's TLS options (CA, client cert, servername) apply to the tunneled connection
+      done(null, tls.connect({ ...(options as tls.ConnectionOptions), socket }));
+    });
+    connectReq.once('timeout', () => {
+      connectReq.destroy(new Error('Proxy connection timeout'));
+    });
+    connectReq.once('error', (err) => {
+      done(err, connectReq.socket as Duplex);
+    });
+    connectReq.end();
+
+    return undefined;
+  }
+}
+
+/**
+ * Add proxy routing to request options for a target URL. HTTPS targets
+ * get a tunneling agent; plain HTTP is sent to the proxy in absolute form.
+ */
+export function withProxy(target: string | URL, options: https.RequestOptions): https.RequestOptions {
+  const url = typeof target === 'string' ? new URL(target) : target;
+  const proxy = getProxyUrl(url);
+  if (!proxy) return options;
+
+  if (url.protocol === 'https:') {
+    return { ...options, agent: new TunnelAgent(proxy) };
+  }
+
+  const auth = proxyAuthorization(proxy);
+  return {
+    ...options,
+    hostname: proxy.hostname,
+    port: defaultPort(proxy),
+    path: url.href,
+    headers: {
+      ...(options.headers as Record<string, string> | undefined),
+      Host: url.host,
+      ...(auth ? { 'Proxy-Authorization': auth } : {}),
+    },
+  };
+}
+
+/**
+ * Environment for child npm processes, passing on the profile proxy
+ */
+export function proxyEnv(): NodeJS.ProcessEnv {
+  const proxy = getConfig().proxy;
+  if (!proxy) return process.env;
+  return { ...process.env, npm_config_proxy: proxy, npm_config_https_proxy: proxy };
+}
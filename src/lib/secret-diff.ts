@@ -0,0 +1,113 @@
+// Path: znvault-cli/src/lib/secret-diff.ts
+/**
+ * Secret Diff Module
+ *
+ * Key-level comparison of decrypted secret data, between two versions of a
+ * secret or between the same aliases in two environments. Environment
+ * comparisons only look at value hashes, so no values leave this module.
+ */
+
+import crypto from 'node:crypto';
+
+export type KeyChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface KeyDiff {
+  key: string;
+  change: KeyChange;
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * JSON with sorted keys, so equal values compare and hash the same
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(v => canonicalJson(v ?? null)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Compare two decrypted data objects key by key, sorted by key
+ */
+export function diffSecretData(from: Record<string, unknown>, to: Record<string, unknown>): KeyDiff[] {
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+
+  return keys.map(key => {
+    if (!(key in to)) return { key, change: 'removed', from: from[key] };
+    if (!(key in from)) return { key, change: 'added', to: to[key] };
+    const change = canonicalJson(from[key]) === canonicalJson(to[key]) ? 'unchanged' : 'changed';
+    return { key, change, from: from[key], to: to[key] };
+  });
+}
+
+/**
+ * Hash of a value for comparing without revealing it
+ */
+export function valueHash(value: unknown): string {
+  return crypto.createHash('sha256').update(canonicalJson(value), 'utf-8').digest('hex');
+}
+
+/**
+ * Parse a version given as "v3" or "3"
+ */
+export function parseVersion(value: string): number {
+  const match = /^v?(\d+)$/i.exec(value.trim());
+  const version = match ? Number(match[1]) : NaN;
+  if (!(version >= 1)) {
+    throw new Error(`Invalid version "${value}". Use a version number such as v3`);
+  }
+  return version;
+}
+
+// ============================================================================
+// Environment comparison
+// ============================================================================
+
+export type SecretStatus = 'same' | 'different' | 'only-left' | 'only-right';
+
+// Per-key value hashes of one secret
+export type KeyHashes = Record<string, string>;
+
+export interface EnvironmentSecretDiff {
+  alias: string;
+  status: SecretStatus;
+  onlyLeft: string[];      // Keys missing on the right
+  onlyRight: string[];     // Keys missing on the left
+  different: string[];     // Keys whose values differ
+}
+
+export function hashSecretData(data: Record<string, unknown>): KeyHashes {
+  return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, valueHash(value)]));
+}
+
+/**
+ * Compare secrets by alias across two environments
+ */
+export function diffEnvironments(
+  left: Map<string, KeyHashes>,
+  right: Map<string, KeyHashes>
+): EnvironmentSecretDiff[] {
+  const aliases = [...new Set([...left.keys(), ...right.keys()])].sort();
+
+  return aliases.map(alias => {
+    const l = left.get(alias);
+    const r = right.get(alias);
+    if (!r) return { alias, status: 'only-left', onlyLeft: Object.keys(l ?? {}).sort(), onlyRight: [], different: [] };
+    if (!l) return { alias, status: 'only-right', onlyLeft: [], onlyRight: Object.keys(r).sort(), different: [] };
+
+    const onlyLeft = Object.keys(l).filter(k => !(k in r)).sort();
+    const onlyRight = Object.keys(r).filter(k => !(k in l)).sort();
+    const different = Object.keys(l).filter(k => k in r && l[k] !== r[k]).sort();
+    const same = onlyLeft.length === 0 && onlyRight.length === 0 && different.length === 0;
+
+    return { alias, status: same ? 'same' : 'different', onlyLeft, onlyRight, different };
+  });
+}
@@ -0,0 +1,141 @@
+// Path: znvault-cli/src/lib/secret-expiry.ts
+/**
+ * Secret Expiry Module
+ *
+ * Classifies secrets by how soon they expire (`expiresAt` or `ttlUntil`,
+ * whichever comes first) and how long since their last new version, and
+ * maps the result to Nagios plugin status codes for monitoring checks.
+ */
+
+import type { SecretMetadata } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ExpiryUrgency = 'expired' | 'critical' | 'warning' | 'rotation';
+
+export type CheckStatus = 'ok' | 'warning' | 'critical' | 'unknown';
+
+// Nagios plugin exit codes
+export const CHECK_EXIT_CODES: Record<CheckStatus, number> = {
+  ok: 0,
+  warning: 1,
+  critical: 2,
+  unknown: 3,
+};
+
+// Most urgent first
+export const URGENCY_ORDER: ExpiryUrgency[] = ['expired', 'critical', 'warning', 'rotation'];
+
+export interface ExpiryThresholds {
+  warningDays: number;    // Expiring within this many days is a warning
+  criticalDays: number;   // Expiring within this many days is critical
+  rotationDays: number;   // No new version for this many days is overdue (0 disables)
+}
+
+export interface SecretExpiryItem {
+  id: string;
+  alias: string;
+  tenant: string;
+  type: string;
+  version: number;
+  urgency: ExpiryUrgency;
+  expiresAt?: string;
+  daysLeft?: number;        // Negative once expired
+  lastRotated: string;
+  rotationAgeDays: number;
+}
+
+function earliest(...dates: Array<string | undefined>): string | undefined {
+  return dates
+    .filter((d): d is string => Boolean(d))
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0];
+}
+
+/**
+ * Classify one secret, or undefined when it needs no attention
+ */
+export function classifySecret(
+  secret: SecretMetadata,
+  thresholds: ExpiryThresholds,
+  now: Date = new Date()
+): SecretExpiryItem | undefined {
+  const expiresAt = earliest(secret.expiresAt, secret.ttlUntil);
+  const daysLeft = expiresAt ? Math.floor((new Date(expiresAt).getTime() - now.getTime()) / DAY_MS) : undefined;
+  const lastRotated = secret.updatedAt || secret.createdAt;
+  const rotationAgeDays = Math.floor((now.getTime() - new Date(lastRotated).getTime()) / DAY_MS);
+
+  let urgency: ExpiryUrgency | undefined;
+  if (expiresAt && new Date(expiresAt).getTime() <= now.getTime()) {
+    urgency = 'expired';
+  } else if (daysLeft !== undefined && daysLeft < thresholds.criticalDays) {
+    urgency = 'critical';
+  } else if (daysLeft !== undefined && daysLeft < thresholds.warningDays) {
+    urgency = 'warning';
+  } else if (thresholds.rotationDays > 0 && rotationAgeDays >= thresholds.rotationDays) {
+    urgency = 'rotation';
+  }
+
+  if (!urgency) return undefined;
+
+  return {
+    id: secret.id,
+    alias: secret.alias,
+    tenant: secret.tenant,
+    type: secret.type,
+    version: secret.version,
+    urgency,
+    expiresAt,
+    daysLeft,
+    lastRotated,
+    rotationAgeDays,
+  };
+}
+
+/**
+ * Secrets that need attention, most urgent first
+ */
+export function findExpiringSecrets(
+  secrets: SecretMetadata[],
+  thresholds: ExpiryThresholds,
+  now: Date = new Date()
+): SecretExpiryItem[] {
+  return secrets
+    .map(secret => classifySecret(secret, thresholds, now))
+    .filter((item): item is SecretExpiryItem => item !== undefined)
+    .sort((a, b) =>
+      URGENCY_ORDER.indexOf(a.urgency) - URGENCY_ORDER.indexOf(b.urgency) ||
+      (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity) ||
+      b.rotationAgeDays - a.rotationAgeDays ||
+      a.alias.localeCompare(b.alias)
+    );
+}
+
+/**
+ * Overall check status: expired or critical secrets are critical, anything
+ * else needing attention is a warning
+ */
+export function expiryCheckStatus(items: SecretExpiryItem[]): CheckStatus {
+  if (items.some(i => i.urgency === 'expired' || i.urgency === 'critical')) return 'critical';
+  return items.length > 0 ? 'warning' : 'ok';
+}
+
+export function countByUrgency(items: SecretExpiryItem[]): Record<ExpiryUrgency, number> {
+  const counts: Record<ExpiryUrgency, number> = { expired: 0, critical: 0, warning: 0, rotation: 0 };
+  for (const item of items) {
+    counts[item.urgency]++;
+  }
+  return counts;
+}
+
+/**
+ * One-line plugin output, e.g. "SECRETS CRITICAL - 1 expired, 2 critical, 0 warning, 3 rotation overdue"
+ */
+export function expirySummary(items: SecretExpiryItem[]): string {
+  const counts = countByUrgency(items);
+  const status = expiryCheckStatus(items).toUpperCase();
+  if (items.length === 0) {
+    return `SECRETS ${status} - no secrets expiring or overdue for rotation`;
+  }
+  return `SECRETS ${status} - ${String(counts.expired)} expired, ${String(counts.critical)} critical, ` +
+    `${String(counts.warning)} warning, ${String(counts.rotation)} rotation overdue`;
+}
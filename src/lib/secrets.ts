@@ -0,0 +1,152 @@
+// Path: znvault-cli/src/lib/secrets.ts
+/**
+ * Secret Resolution Helpers
+ *
+ * Shared helpers for commands that consume decrypted secret values
+ * (run, render, ...). Secrets can be referenced by ID or by alias; an
+ * optional field selects a single value from the decrypted data.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { client } from './client.js';
+import type { SecretMetadata, DecryptedSecret } from '../types/index.js';
+
+export interface SecretRef {
+  secret: string;
+  field?: string;
+}
+
+/**
+ * Parse a secret reference of the form "<id-or-alias>[#field]"
+ */
+export function parseSecretRef(ref: string): SecretRef {
+  const hashIndex = ref.lastIndexOf('#');
+  if (hashIndex <= 0) {
+    return { secret: ref };
+  }
+  const field = ref.slice(hashIndex + 1);
+  return {
+    secret: ref.slice(0, hashIndex),
+    field: field || undefined,
+  };
+}
+
+/**
+ * Aliases are path-like (e.g. "db/prod/credentials"), IDs never contain a slash
+ */
+export function isAliasRef(secret: string): boolean {
+  return secret.includes('/');
+}
+
+/**
+ * Secrets whose alias is exactly `alias`, in one tenant or in all of them
+ */
+export async function findSecretsByAlias(alias: string, tenant?: string): Promise<SecretMetadata[]> {
+  const query: Record<string, string> = { aliasPrefix: alias };
+  if (tenant) query.tenant = tenant;
+
+  const matches = await client.get<SecretMetadata[]>('/v1/secrets?' + new URLSearchParams(query).toString());
+  return matches.filter(s => s.alias === alias && (!tenant || s.tenant === tenant));
+}
+
+/**
+ * Resolve an alias to a secret ID. IDs are returned unchanged.
+ */
+export async function resolveSecretId(secret: string, tenant?: string): Promise<string> {
+  if (!isAliasRef(secret)) {
+    return secret;
+  }
+
+  const exact = await findSecretsByAlias(secret, tenant);
+
+  if (exact.length === 0) {
+    throw new Error(`Secret not found: ${secret}`);
+  }
+  if (exact.length > 1) {
+    throw new Error(`Alias "${secret}" exists in multiple tenants. Use --tenant to disambiguate.`);
+  }
+  return exact[0].id;
+}
+
+/**
+ * Decrypt a secret by ID or alias
+ */
+export async function fetchDecryptedSecret(secret: string, tenant?: string): Promise<DecryptedSecret> {
+  const id = await resolveSecretId(secret, tenant);
+  return client.post<DecryptedSecret>(`/v1/secrets/${id}/decrypt`, {});
+}
+
+/**
+ * Decrypt a specific version of a secret by ID. Fails rather than return
+ * another version when the server does not honour the version.
+ */
+export async function fetchSecretVersion(id: string, version: number): Promise<DecryptedSecret> {
+  const secret = await client.post<DecryptedSecret>(`/v1/secrets/${id}/decrypt`, { version });
+  if (secret.version !== version) {
+    throw new Error(
+      `Server returned v${String(secret.version)} of ${secret.alias} instead of v${String(version)}; ` +
+      'it does not support decrypting earlier versions'
+    );
+  }
+  return secret;
+}
+
+/**
+ * Convert a decrypted value to the string form used in env vars and templates
+ */
+function stringifyValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+}
+
+/**
+ * Extract a single string value from decrypted secret data.
+ *
+ * Without a field: plain text secrets yield their text, single-key data
+ * yields that value, anything else is returned as JSON.
+ */
+export function extractSecretValue(secret: DecryptedSecret, field?: string): string {
+  const data = secret.data;
+
+  if (field) {
+    if (!(field in data)) {
+      throw new Error(`Field "${field}" not found in secret ${secret.alias}`);
+    }
+    return stringifyValue(data[field]);
+  }
+
+  if (typeof data.text === 'string') {
+    return data.text;
+  }
+
+  const keys = Object.keys(data);
+  if (keys.length === 1) {
+    return stringifyValue(data[keys[0]]);
+  }
+
+  return JSON.stringify(data);
+}
+
+/**
+ * Write secret material to a file atomically with owner-only permissions.
+ *
+ * Content goes to a temporary file in the same directory (created 0600)
+ * which is then renamed over the target, so readers never observe a
+ * partially written file.
+ */
+export function writeSecretFile(filePath: string, content: string | Buffer): void {
+  const target = path.resolve(filePath);
+  const tmp = path.join(path.dirname(target), `.${path.basename(target)}.${process.pid}.tmp`);
+
+  try {
+    fs.writeFileSync(tmp, content, { mode: 0o600 });
+    // mode is subject to umask only on creation; enforce it explicitly
+    fs.chmodSync(tmp, 0o600);
+    fs.renameSync(tmp, target);
+  } catch (err) {
+    fs.rmSync(tmp, { force: true });
+    throw err;
+  }
+}
@@ -0,0 +1,94 @@
+// Path: znvault-cli/src/lib/template.ts
+/**
+ * Secret Template Rendering
+ *
+ * Renders config files containing placeholders resolved against the vault:
+ *
+ *   {{ secret "db/prod" "password" }}        - field of a secret (ID or alias)
+ *   {{ secret "api/token" }}                 - whole value (text, single field or JSON)
+ *   {{ kms-decrypt "key-id" "<base64>" }}    - KMS ciphertext, decoded as UTF-8
+ *   {{ kms-decrypt "key-id" "<base64>" "purpose=db" }}  - with encryption context
+ */
+
+export interface TemplateResolvers {
+  secret: (secret: string, field?: string) => Promise<string>;
+  kmsDecrypt: (keyId: string, ciphertext: string, context?: string) => Promise<string>;
+}
+
+export interface TemplateAction {
+  name: string;
+  args: string[];
+  line: number;
+  start: number;
+  end: number;
+}
+
+const ACTION_PATTERN = /\{\{\s*([a-z][a-z-]*)((?:\s+"(?:[^"\\]|\\.)*")*)\s*\}\}/g;
+const ARG_PATTERN = /"((?:[^"\\]|\\.)*)"/g;
+
+const ARITY: Record<string, { min: number; max: number }> = {
+  'secret': { min: 1, max: 2 },
+  'kms-decrypt': { min: 2, max: 3 },
+};
+
+function unescape(value: string): string {
+  return value.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Find all placeholders in a template, validating names and argument counts
+ */
+export function parseTemplate(template: string): TemplateAction[] {
+  const actions: TemplateAction[] = [];
+
+  for (const match of template.matchAll(ACTION_PATTERN)) {
+    const start = match.index;
+    const name = match[1];
+    const args = [...match[2].matchAll(ARG_PATTERN)].map(m => unescape(m[1]));
+    const line = template.slice(0, start).split('\n').length;
+
+    if (!(name in ARITY)) {
+      throw new Error(`Unknown template function "${name}" on line ${line}`);
+    }
+    const { min, max } = ARITY[name];
+    if (args.length < min || args.length > max) {
+      throw new Error(`"${name}" expects ${min === max ? min : `${min}-${max}`} argument(s) on line ${line}`);
+    }
+
+    actions.push({ name, args, line, start, end: start + match[0].length });
+  }
+
+  // Anything that still looks like a placeholder is malformed
+  const stripped = template.replace(ACTION_PATTERN, '');
+  const leftover = stripped.indexOf('{{');
+  if (leftover >= 0) {
+    const line = stripped.slice(0, leftover).split('\n').length;
+    throw new Error(`Malformed placeholder near line ${line}`);
+  }
+
+  return actions;
+}
+
+/**
+ * Render a template, resolving each placeholder through the given resolvers
+ */
+export async function renderTemplate(template: string, resolvers: TemplateResolvers): Promise<string> {
+  const actions = parseTemplate(template);
+  let result = '';
+  let cursor = 0;
+
+  for (const action of actions) {
+    let value: string;
+    try {
+      value = action.name === 'secret'
+        ? await resolvers.secret(action.args[0], action.args[1])
+        : await resolvers.kmsDecrypt(action.args[0], action.args[1], action.args[2]);
+    } catch (err) {
+      throw new Error(`Line ${action.line}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    result += template.slice(cursor, action.start) + value;
+    cursor = action.end;
+  }
+
+  return result + template.slice(cursor);
+}
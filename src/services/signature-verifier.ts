@@ -12,6 +12,7 @@ import * as crypto from 'crypto';
 import * as https from 'https';
 import * as openpgp from 'openpgp';
 import { getPublicKeyUrl } from '../types/update.js';
+import { withProxy } from '../lib/proxy.js';
 
 /**
  * Embedded public key for verification
@@ -117,7 +118,7 @@ export class SignatureVerifier {
     const url = getPublicKeyUrl();
 
     return new Promise((resolve, reject) => {
-      https.get(url, { rejectUnauthorized: true }, (res) => {
+      https.get(url, withProxy(url, { rejectUnauthorized: true }), (res) => {
         if (res.statusCode !== 200) {
           reject(new Error(`Failed to fetch public key: HTTP ${String(res.statusCode)}`));
           return;
@@ -17,6 +17,7 @@ import type {
 } from '../types/update.js';
 import { getManifestUrl } from '../types/update.js';
 import { getPlatform, getConfigDir } from '../utils/platform.js';
+import { withProxy } from '../lib/proxy.js';
 
 /**
  * Parse a semantic version string into components
@@ -95,7 +96,7 @@ export class UpdateChecker {
     const url = getManifestUrl(this.channel);
 
     return new Promise((resolve, reject) => {
-      https.get(url, { rejectUnauthorized: true }, (res) => {
+      https.get(url, withProxy(url, { rejectUnauthorized: true }), (res) => {
         if (res.statusCode !== 200) {
           reject(new Error(`Failed to fetch manifest: HTTP ${String(res.statusCode)}`));
           return;
@@ -16,6 +16,7 @@ import { promisify } from 'util';
 import { getSignatureVerifier } from './signature-verifier.js';
 import type { ArtifactInfo, UpdateProgress, ProgressCallback } from '../types/update.js';
 import { getInstallPath } from '../utils/platform.js';
+import { withProxy } from '../lib/proxy.js';
 
 const execAsync = promisify(exec);
 
@@ -48,7 +49,7 @@ export class UpdateInstaller {
     return new Promise((resolve, reject) => {
       const file = fs.createWriteStream(destPath);
 
-      https.get(url, { rejectUnauthorized: true }, (res) => {
+      https.get(url, withProxy(url, { rejectUnauthorized: true }), (res) => {
         if (res.statusCode === 301 || res.statusCode === 302) {
           // Handle redirect
           const redirectUrl = res.headers.location;
@@ -1,14 +1,20 @@
 // Path: znvault-cli/src/tui/App.tsx
-import React, { useState } from 'react';
+import React, { useState, useCallback } from 'react';
 import { Box, Text, useApp, useInput } from 'ink';
 import { Dashboard } from './screens/Dashboard.js';
+import { Secrets } from './screens/Secrets.js';
+import { Audit } from './screens/Audit.js';
+import { Tenants } from './screens/Tenants.js';
+import { Users } from './screens/Users.js';
+import { ApiKeys } from './screens/ApiKeys.js';
 import { useDashboard } from './hooks/useApi.js';
 
-type Screen = 'dashboard' | 'secrets' | 'audit' | 'cluster' | 'help';
+type Screen = 'dashboard' | 'secrets' | 'audit' | 'tenants' | 'users' | 'apikeys' | 'cluster' | 'help';
 
 interface AppProps {
   initialScreen?: Screen;
   refreshInterval?: number;
+  revealTimeout?: number;
 }
 
 function HelpOverlay({ onClose }: { onClose: () => void }): React.ReactElement {
@@ -46,6 +52,38 @@ function HelpOverlay({ onClose }: { onClose: () => void }): React.ReactElement {
           <Text color="cyan" bold>{'1'.padEnd(10)}</Text>
           <Text>Dashboard view</Text>
         </Box>
+        <Box>
+          <Text color="cyan" bold>{'2'.padEnd(10)}</Text>
+          <Text>Secrets browser</Text>
+        </Box>
+        <Box>
+          <Text color="cyan" bold>{'/'.padEnd(10)}</Text>
+          <Text>Filter secrets (fuzzy)</Text>
+        </Box>
+        <Box>
+          <Text color="cyan" bold>{'v / c'.padEnd(10)}</Text>
+          <Text>Reveal / copy the selected secret</Text>
+        </Box>
+        <Box>
+          <Text color="cyan" bold>{'h'.padEnd(10)}</Text>
+          <Text>Secret version history</Text>
+        </Box>
+        <Box>
+          <Text color="cyan" bold>{'3'.padEnd(10)}</Text>
+          <Text>Audit log live tail</Text>
+        </Box>
+        <Box>
+          <Text color="cyan" bold>{'Space'.padEnd(10)}</Text>
+          <Text>Pause / resume the audit tail</Text>
+        </Box>
+        <Box>
+          <Text color="cyan" bold>{'4 / 5 / 6'.padEnd(10)}</Text>
+          <Text>Tenants / users / API keys</Text>
+        </Box>
+        <Box>
+          <Text color="cyan" bold>{'Enter'.padEnd(10)}</Text>
+          <Text>Show details of the selected row</Text>
+        </Box>
         <Box>
           <Text color="cyan" bold>{'Esc'.padEnd(10)}</Text>
           <Text>Close overlay / Go back</Text>
@@ -59,10 +97,17 @@ function HelpOverlay({ onClose }: { onClose: () => void }): React.ReactElement {
   );
 }
 
-export function App({ initialScreen = 'dashboard', refreshInterval = 5000 }: AppProps): React.ReactElement {
+export function App({
+  initialScreen = 'dashboard',
+  refreshInterval = 5000,
+  revealTimeout = 15,
+}: AppProps): React.ReactElement {
   const { exit } = useApp();
   const [screen, setScreen] = useState<Screen>(initialScreen);
   const [showHelp, setShowHelp] = useState(false);
+  // Set by screens that need every key (filter input, drill-down views)
+  const [inputCaptured, setInputCaptured] = useState(false);
+  const captureInput = useCallback((captured: boolean) => { setInputCaptured(captured); }, []);
 
   const dashboardData = useDashboard(refreshInterval);
 
@@ -84,7 +129,7 @@ export function App({ initialScreen = 'dashboard', refreshInterval = 5000 }: App
       return;
     }
 
-    if (input === 'r') {
+    if (input === 'r' && screen === 'dashboard') {
       void dashboardData.refresh();
       return;
     }
@@ -95,13 +140,38 @@ export function App({ initialScreen = 'dashboard', refreshInterval = 5000 }: App
       return;
     }
 
+    if (input === '2') {
+      setScreen('secrets');
+      return;
+    }
+
+    if (input === '3') {
+      setScreen('audit');
+      return;
+    }
+
+    if (input === '4') {
+      setScreen('tenants');
+      return;
+    }
+
+    if (input === '5') {
+      setScreen('users');
+      return;
+    }
+
+    if (input === '6') {
+      setScreen('apikeys');
+      return;
+    }
+
     // Escape to go back
     if (key.escape) {
       if (screen !== 'dashboard') {
         setScreen('dashboard');
       }
     }
-  });
+  }, { isActive: !inputCaptured });
 
   // Show help overlay
   if (showHelp) {
@@ -122,6 +192,31 @@ export function App({ initialScreen = 'dashboard', refreshInterval = 5000 }: App
         />
       );
 
+    case 'secrets':
+      return (
+        <Secrets
+          revealTimeout={revealTimeout}
+          onInputCapture={captureInput}
+        />
+      );
+
+    case 'audit':
+      return (
+        <Audit
+          refreshInterval={refreshInterval}
+          onInputCapture={captureInput}
+        />
+      );
+
+    case 'tenants':
+      return <Tenants onInputCapture={captureInput} />;
+
+    case 'users':
+      return <Users onInputCapture={captureInput} />;
+
+    case 'apikeys':
+      return <ApiKeys onInputCapture={captureInput} />;
+
     default:
       return (
         <Box flexDirection="column" padding={1}>
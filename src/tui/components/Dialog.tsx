@@ -0,0 +1,138 @@
+// Path: znvault-cli/src/tui/components/Dialog.tsx
+/**
+ * TUI Dialog Components
+ *
+ * Confirmation, password and message dialogs for screen actions.
+ */
+
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import TextInput from 'ink-text-input';
+
+export interface ConfirmDialogProps {
+  title: string;
+  message: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function ConfirmDialog({ title, message, onConfirm, onCancel }: ConfirmDialogProps): React.ReactElement {
+  useInput((input, key) => {
+    if (input === 'y' || input === 'Y') {
+      onConfirm();
+    } else if (input === 'n' || input === 'N' || key.escape) {
+      onCancel();
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="red" paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color="red">{title}</Text>
+      </Box>
+      <Text>{message}</Text>
+      <Box marginTop={1}>
+        <Text color="gray">Press </Text>
+        <Text color="green" bold>y</Text>
+        <Text color="gray"> to confirm, </Text>
+        <Text color="red" bold>n</Text>
+        <Text color="gray"> to cancel</Text>
+      </Box>
+    </Box>
+  );
+}
+
+export interface PasswordDialogProps {
+  title: string;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Masked password entry, asked twice
+ */
+export function PasswordDialog({ title, onSubmit, onCancel }: PasswordDialogProps): React.ReactElement {
+  const [step, setStep] = useState<'password' | 'confirm'>('password');
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useInput((_input, key) => {
+    if (key.escape) {
+      onCancel();
+    }
+  });
+
+  const submitPassword = (): void => {
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+    setError(null);
+    setStep('confirm');
+  };
+
+  const submitConfirm = (): void => {
+    if (confirm !== password) {
+      setError('Passwords do not match');
+      setConfirm('');
+      setStep('password');
+      setPassword('');
+      return;
+    }
+    onSubmit(password);
+  };
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="yellow" paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color="yellow">{title}</Text>
+      </Box>
+      {step === 'password' ? (
+        <Box>
+          <Text color="gray">New password: </Text>
+          <TextInput value={password} onChange={setPassword} onSubmit={submitPassword} mask="*" />
+        </Box>
+      ) : (
+        <Box>
+          <Text color="gray">Confirm password: </Text>
+          <TextInput value={confirm} onChange={setConfirm} onSubmit={submitConfirm} mask="*" />
+        </Box>
+      )}
+      {error && <Text color="red">{error}</Text>}
+      <Box marginTop={1}>
+        <Text color="gray">Press Enter to continue, Esc to cancel</Text>
+      </Box>
+    </Box>
+  );
+}
+
+export interface MessageDialogProps {
+  title: string;
+  message: string;
+  color?: string;
+  onClose: () => void;
+}
+
+/**
+ * Message that stays until dismissed (e.g. a one-time secret)
+ */
+export function MessageDialog({ title, message, color = 'green', onClose }: MessageDialogProps): React.ReactElement {
+  useInput((_input, key) => {
+    if (key.escape || key.return) {
+      onClose();
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor={color} paddingX={2} paddingY={1}>
+      <Box marginBottom={1}>
+        <Text bold color={color}>{title}</Text>
+      </Box>
+      <Text>{message}</Text>
+      <Box marginTop={1}>
+        <Text color="gray">Press Enter to close</Text>
+      </Box>
+    </Box>
+  );
+}
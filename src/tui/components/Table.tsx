@@ -25,6 +25,8 @@ export interface TableProps {
   headerColor?: string;
   maxRows?: number;
   emptyMessage?: string;
+  selectedIndex?: number;                                          // Highlighted row
+  rowColor?: (row: Record<string, unknown>) => string | undefined; // Overrides cell colors
 }
 
 /**
@@ -126,6 +128,8 @@ export function Table({
   headerColor = 'cyan',
   maxRows,
   emptyMessage = 'No data',
+  selectedIndex,
+  rowColor,
 }: TableProps): React.ReactElement {
   // Calculate column widths
   const colWidths = columns.map(col => {
@@ -198,11 +202,11 @@ export function Table({
             {columns.map((col, colIndex) => {
               const value = row[col.key];
               const formatted = formatCellValue(value, col.format);
-              const color = getCellColor(value, col);
+              const color = rowColor?.(row) ?? getCellColor(value, col);
 
               return (
                 <React.Fragment key={col.key}>
-                  <Text color={color}>
+                  <Text color={color} inverse={rowIndex === selectedIndex}>
                     {padText(formatted, colWidths[colIndex], col.align)}
                   </Text>
                   <Text color={borderColor}>│</Text>
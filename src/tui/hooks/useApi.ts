@@ -1,6 +1,8 @@
 // Path: znvault-cli/src/tui/hooks/useApi.ts
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import * as mode from '../../lib/mode.js';
+import { AuditCursor } from '../../lib/audit-tail.js';
+import type { AuditEntry as AuditLogEntry } from '../../types/index.js';
 
 interface HealthData {
   status: string;
@@ -149,3 +151,57 @@ export function useApiCall<T>(
 
   return { ...state, refresh };
 }
+
+// Entries kept in memory by the audit tail
+const AUDIT_BUFFER_SIZE = 500;
+
+export interface AuditTailData {
+  entries: AuditLogEntry[];
+  error: string | null;
+  lastUpdated: Date | null;
+}
+
+/**
+ * Hook to follow the audit log. Polling stops while paused; the cursor is
+ * kept, so resuming catches up on what arrived in between.
+ */
+export function useAuditTail(refreshInterval = 5000, paused = false): AuditTailData {
+  const cursor = useRef(new AuditCursor({ backlog: 50 }));
+  const [data, setData] = useState<AuditTailData>({ entries: [], error: null, lastUpdated: null });
+
+  const busy = useRef(false);
+
+  const poll = useCallback(async () => {
+    // A slow poll must finish before the cursor moves again
+    if (busy.current) return;
+    busy.current = true;
+    try {
+      const fresh = await cursor.current.poll();
+      setData(prev => ({
+        entries: fresh.length > 0 ? [...prev.entries, ...fresh].slice(-AUDIT_BUFFER_SIZE) : prev.entries,
+        error: null,
+        lastUpdated: new Date(),
+      }));
+    } catch (err) {
+      setData(prev => ({
+        ...prev,
+        error: err instanceof Error ? err.message : 'Failed to fetch audit log',
+      }));
+    } finally {
+      busy.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (paused) return;
+    void poll();
+
+    const interval = setInterval(() => {
+      void poll();
+    }, refreshInterval);
+
+    return () => { clearInterval(interval); };
+  }, [poll, refreshInterval, paused]);
+
+  return data;
+}
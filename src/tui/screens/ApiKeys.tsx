@@ -0,0 +1,194 @@
+// Path: znvault-cli/src/tui/screens/ApiKeys.tsx
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { client } from '../../lib/client.js';
+import * as mode from '../../lib/mode.js';
+import { Header } from '../components/Header.js';
+import { Table, type TableColumn } from '../components/Table.js';
+import { List } from '../components/List.js';
+import { ConfirmDialog, MessageDialog } from '../components/Dialog.js';
+import { useApiCall } from '../hooks/useApi.js';
+import {
+  setApiKeyEnabled,
+  rotateApiKey,
+  daysUntil,
+  expiryColor,
+  EXPIRY_WARNING_DAYS,
+  type ActionResult,
+} from '../utils/admin.js';
+import type { APIKey } from '../../types/index.js';
+
+interface ApiKeysProps {
+  onInputCapture: (captured: boolean) => void;
+}
+
+type Dialog = 'detail' | 'disable' | 'rotate' | 'rotated' | null;
+
+const columns: TableColumn[] = [
+  { header: 'Name', key: 'name', width: 26 },
+  { header: 'Prefix', key: 'prefix', width: 14 },
+  { header: 'Tenant', key: 'tenant_id', width: 16 },
+  { header: 'Enabled', key: 'enabled', width: 9 },
+  { header: 'Expires', key: 'expires', width: 14 },
+  { header: 'Last Used', key: 'last_used', width: 22, format: v => (typeof v === 'string' ? new Date(v).toLocaleString() : 'never') },
+];
+
+function expiresText(key: APIKey): string {
+  const days = daysUntil(key.expires_at);
+  if (days < 0) return 'expired';
+  return days === 0 ? 'today' : `in ${String(days)}d`;
+}
+
+export function ApiKeys({ onInputCapture }: ApiKeysProps): React.ReactElement {
+  const local = mode.getMode() === 'local';
+  const { data, loading, error, refresh } = useApiCall(
+    async () => (local ? [] : (await client.listApiKeys()).keys),
+    []
+  );
+  const [selected, setSelected] = useState(0);
+  const [dialog, setDialog] = useState<Dialog>(null);
+  const [result, setResult] = useState<ActionResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const keys = data ?? [];
+  const key = keys.at(Math.min(selected, keys.length - 1));
+  const expiring = keys.filter(k => daysUntil(k.expires_at) <= EXPIRY_WARNING_DAYS);
+
+  useEffect(() => {
+    onInputCapture(dialog !== null);
+  }, [dialog, onInputCapture]);
+
+  const perform = (action: () => Promise<ActionResult>, next: Dialog = null): void => {
+    setDialog(null);
+    setBusy(true);
+    void action().then(outcome => {
+      setResult(outcome);
+      setBusy(false);
+      if (outcome.success) {
+        setDialog(next);
+        void refresh();
+      }
+    });
+  };
+
+  useInput((input, k) => {
+    if (busy) return;
+
+    if (k.upArrow || input === 'k') {
+      setSelected(i => Math.max(0, i - 1));
+    } else if (k.downArrow || input === 'j') {
+      setSelected(i => Math.min(keys.length - 1, i + 1));
+    } else if (input === 'r') {
+      setResult(null);
+      void refresh();
+    } else if (!key) {
+      return;
+    } else if (k.return) {
+      setDialog('detail');
+    } else if (input === 'e') {
+      if (key.enabled) setDialog('disable'); else perform(() => setApiKeyEnabled(key, true));
+    } else if (input === 'R') {
+      setDialog('rotate');
+    }
+  }, { isActive: dialog === null });
+
+  if (local) {
+    return (
+      <Box flexDirection="column">
+        <Header title="ZN-VAULT API KEYS" />
+        <Text color="yellow">API keys require API mode (login or ZNVAULT_API_KEY)</Text>
+      </Box>
+    );
+  }
+
+  const close = (): void => { setDialog(null); };
+  let overlay: React.ReactElement | null = null;
+
+  if (key && dialog === 'detail') {
+    overlay = <ApiKeyDetail apiKey={key} onClose={close} />;
+  } else if (key && dialog === 'disable') {
+    overlay = (
+      <ConfirmDialog
+        title="Disable API Key"
+        message={`Disable API key ${key.name}? Clients using it will be rejected.`}
+        onConfirm={() => { perform(() => setApiKeyEnabled(key, false)); }}
+        onCancel={close}
+      />
+    );
+  } else if (key && dialog === 'rotate') {
+    overlay = (
+      <ConfirmDialog
+        title="Rotate API Key"
+        message={`Rotate API key ${key.name}? The current key stops working immediately.`}
+        onConfirm={() => { perform(() => rotateApiKey(key), 'rotated'); }}
+        onCancel={close}
+      />
+    );
+  } else if (dialog === 'rotated' && result) {
+    overlay = (
+      <MessageDialog
+        title="API Key Rotated (shown only once)"
+        message={result.message}
+        onClose={() => { setResult(null); close(); }}
+      />
+    );
+  }
+
+  const rows = keys.map(k => ({ ...k, expires: expiresText(k) }));
+
+  return (
+    <Box flexDirection="column">
+      <Header title="ZN-VAULT API KEYS" />
+      {overlay ?? (
+        <>
+          {loading && !data && <Text color="yellow">Loading API keys...</Text>}
+          {error && <Text color="red">Error: {error}</Text>}
+          {expiring.length > 0 && (
+            <Text color="yellow">
+              ⚠ {expiring.length} key(s) expired or expiring within {EXPIRY_WARNING_DAYS} days
+            </Text>
+          )}
+          <Table
+            columns={columns}
+            data={rows as unknown as Array<Record<string, unknown>>}
+            selectedIndex={Math.min(selected, keys.length - 1)}
+            rowColor={row => expiryColor(String(row.expires_at))}
+            emptyMessage={loading ? 'Loading...' : 'No API keys found'}
+          />
+          {busy && <Text color="yellow">Working...</Text>}
+          {result && dialog === null && <Text color={result.success ? 'green' : 'red'}>{result.message}</Text>}
+          <Text color="gray">↑/↓ select  Enter details  e enable/disable  R rotate  r refresh  Esc back</Text>
+        </>
+      )}
+    </Box>
+  );
+}
+
+function ApiKeyDetail({ apiKey, onClose }: { apiKey: APIKey; onClose: () => void }): React.ReactElement {
+  useInput((_input, key) => {
+    if (key.escape || key.return || key.leftArrow) onClose();
+  });
+
+  return (
+    <Box flexDirection="column">
+      <List
+        bordered
+        title={`API KEY: ${apiKey.name}`}
+        items={[
+          { label: 'ID', value: apiKey.id },
+          { label: 'Prefix', value: apiKey.prefix },
+          { label: 'Description', value: apiKey.description },
+          { label: 'Tenant', value: apiKey.tenant_id },
+          { label: 'Enabled', value: apiKey.enabled },
+          { label: 'Expires', value: `${new Date(apiKey.expires_at).toLocaleString()} (${expiresText(apiKey)})`, color: expiryColor(apiKey.expires_at) },
+          { label: 'Last Used', value: apiKey.last_used ? new Date(apiKey.last_used).toLocaleString() : 'never' },
+          { label: 'Created By', value: apiKey.created_by_username ?? apiKey.created_by },
+          { label: 'Rotations', value: apiKey.rotation_count },
+          { label: 'IP Allowlist', value: apiKey.ip_allowlist?.join(', ') },
+          { label: 'Permissions', value: apiKey.permissions.join(', ') },
+        ]}
+      />
+      <Text color="gray">Esc back</Text>
+    </Box>
+  );
+}
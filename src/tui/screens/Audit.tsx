@@ -0,0 +1,180 @@
+// Path: znvault-cli/src/tui/screens/Audit.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import { Box, Text, useInput, useStdout } from 'ink';
+import { Header } from '../components/Header.js';
+import { Table, type TableColumn } from '../components/Table.js';
+import { List } from '../components/List.js';
+import { useAuditTail } from '../hooks/useApi.js';
+import type { AuditEntry } from '../../types/index.js';
+
+type StatusFilter = 'all' | 'failures' | 'success';
+
+const STATUS_FILTERS: StatusFilter[] = ['all', 'failures', 'success'];
+
+interface AuditFilter {
+  user: string;
+  action: string;
+  status: StatusFilter;
+}
+
+interface AuditProps {
+  refreshInterval: number;
+  onInputCapture: (captured: boolean) => void;
+}
+
+const columns: TableColumn[] = [
+  { header: 'Time', key: 'ts', width: 10, format: v => new Date(String(v)).toLocaleTimeString() },
+  { header: 'User', key: 'clientCn', width: 20 },
+  { header: 'Action', key: 'action', width: 24 },
+  { header: 'Status', key: 'statusCode', width: 8, align: 'right' },
+  { header: 'Resource', key: 'resource', width: 36 },
+  { header: 'IP', key: 'ip', width: 16 },
+];
+
+function statusColor(statusCode: number): string {
+  if (statusCode >= 400) return 'red';
+  if (statusCode >= 300) return 'yellow';
+  return 'green';
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter): boolean {
+  if (filter.user && !(entry.clientCn || '').toLowerCase().includes(filter.user.toLowerCase())) return false;
+  if (filter.action && !entry.action.toLowerCase().includes(filter.action.toLowerCase())) return false;
+  if (filter.status === 'failures') return entry.statusCode >= 400;
+  if (filter.status === 'success') return entry.statusCode < 400;
+  return true;
+}
+
+function EntryDetail({ entry }: { entry: AuditEntry }): React.ReactElement {
+  return (
+    <List
+      bordered
+      title={`ENTRY #${String(entry.id)}`}
+      borderColor={statusColor(entry.statusCode)}
+      items={[
+        { label: 'Time', value: new Date(entry.ts).toLocaleString() },
+        { label: 'User', value: entry.clientCn },
+        { label: 'Action', value: entry.action },
+        { label: 'Status', value: entry.statusCode, color: statusColor(entry.statusCode) },
+        { label: 'Resource', value: entry.resource },
+        { label: 'Tenant', value: entry.tenantId },
+        { label: 'IP', value: entry.ip },
+        { label: 'Request', value: entry.requestBody },
+        { label: 'Response', value: entry.responseBody },
+      ]}
+    />
+  );
+}
+
+export function Audit({ refreshInterval, onInputCapture }: AuditProps): React.ReactElement {
+  const { stdout } = useStdout();
+  const [paused, setPaused] = useState(false);
+  const [filter, setFilter] = useState<AuditFilter>({ user: '', action: '', status: 'all' });
+  const [editing, setEditing] = useState<'user' | 'action' | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null); // null follows the newest entry
+  const [expanded, setExpanded] = useState(false);
+
+  const { entries, error, lastUpdated } = useAuditTail(refreshInterval, paused);
+
+  const visible = useMemo(() => entries.filter(e => matches(e, filter)), [entries, filter]);
+
+  useEffect(() => {
+    onInputCapture(editing !== null || expanded);
+  }, [editing, expanded, onInputCapture]);
+
+  const selectedIndex = selectedId === null
+    ? visible.length - 1
+    : Math.max(0, visible.findIndex(e => e.id === selectedId));
+  const selected = visible.at(selectedIndex);
+
+  const select = (index: number): void => {
+    const clamped = Math.max(0, Math.min(visible.length - 1, index));
+    // Moving back onto the newest entry resumes following
+    setSelectedId(clamped >= visible.length - 1 ? null : visible[clamped].id);
+  };
+
+  useInput((input, key) => {
+    if (editing) {
+      if (key.escape) {
+        setFilter(f => ({ ...f, [editing]: '' }));
+        setEditing(null);
+      } else if (key.return) {
+        setEditing(null);
+      } else if (key.backspace || key.delete) {
+        setFilter(f => ({ ...f, [editing]: f[editing].slice(0, -1) }));
+      } else if (input && !key.ctrl && !key.meta) {
+        setFilter(f => ({ ...f, [editing]: f[editing] + input }));
+      }
+      return;
+    }
+
+    if (expanded) {
+      if (key.escape || key.return) setExpanded(false);
+      return;
+    }
+
+    if (input === ' ' || input === 'p') {
+      setPaused(p => !p);
+    } else if (input === 'u') {
+      setEditing('user');
+    } else if (input === 'a') {
+      setEditing('action');
+    } else if (input === 's') {
+      setFilter(f => ({ ...f, status: STATUS_FILTERS[(STATUS_FILTERS.indexOf(f.status) + 1) % STATUS_FILTERS.length] }));
+    } else if (input === 'x') {
+      setFilter({ user: '', action: '', status: 'all' });
+    } else if (key.upArrow || input === 'k') {
+      select(selectedIndex - 1);
+    } else if (key.downArrow || input === 'j') {
+      select(selectedIndex + 1);
+    } else if (input === 'G') {
+      setSelectedId(null);
+    } else if (key.return && selected) {
+      setExpanded(true);
+    }
+  });
+
+  if (expanded && selected) {
+    return (
+      <Box flexDirection="column">
+        <Header title="ZN-VAULT AUDIT" lastUpdated={lastUpdated} />
+        <EntryDetail entry={selected} />
+        <Text color="gray">Esc back</Text>
+      </Box>
+    );
+  }
+
+  // Header, filter bar, table borders and footer take ~12 lines
+  const height = Math.max(5, (stdout.rows || 24) - 12);
+  const start = Math.max(0, Math.min(selectedIndex - height + 1, visible.length - height));
+  const rows = visible.slice(start, start + height);
+
+  const filterText = (name: 'user' | 'action'): string =>
+    editing === name ? `${filter[name]}█` : filter[name] || 'any';
+
+  return (
+    <Box flexDirection="column">
+      <Header title="ZN-VAULT AUDIT" lastUpdated={lastUpdated} />
+
+      <Box gap={2}>
+        <Text color={paused ? 'yellow' : 'green'} bold>{paused ? '❚❚ PAUSED' : '● LIVE'}</Text>
+        <Text color={editing === 'user' ? 'yellow' : 'gray'}>User: {filterText('user')}</Text>
+        <Text color={editing === 'action' ? 'yellow' : 'gray'}>Action: {filterText('action')}</Text>
+        <Text color="gray">Status: {filter.status}</Text>
+        <Text color="gray">{visible.length}/{entries.length} entries</Text>
+      </Box>
+
+      {error && <Text color="red">Error: {error}</Text>}
+
+      <Table
+        columns={columns}
+        data={rows as unknown as Array<Record<string, unknown>>}
+        selectedIndex={selectedIndex - start}
+        rowColor={row => (Number(row.statusCode) >= 400 ? 'red' : undefined)}
+        emptyMessage={entries.length === 0 ? 'Waiting for audit events...' : 'No entries match the filters'}
+      />
+
+      <Text color="gray">Space pause  u user  a action  s status  x clear  ↑/↓ select  G latest  Enter details</Text>
+    </Box>
+  );
+}
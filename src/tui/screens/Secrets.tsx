@@ -0,0 +1,320 @@
+// Path: znvault-cli/src/tui/screens/Secrets.tsx
+import React, { useState, useEffect, useMemo } from 'react';
+import { Box, Text, useInput, useStdout } from 'ink';
+import * as mode from '../../lib/mode.js';
+import { Header } from '../components/Header.js';
+import { useApiCall } from '../hooks/useApi.js';
+import {
+  buildSecretTree,
+  flattenSecretTree,
+  filterSecrets,
+  clipboardText,
+  osc52,
+} from '../utils/secrets.js';
+import type { SecretMetadata, DecryptedSecret } from '../../types/index.js';
+
+interface SecretsProps {
+  revealTimeout: number;                      // Seconds before a revealed value is hidden
+  onInputCapture: (captured: boolean) => void; // Suspend global shortcuts while typing or drilled in
+}
+
+interface HistoryEntry {
+  version: number;
+  createdAt: string;
+  createdBy?: string;
+  supersededAt?: string;
+}
+
+interface Revealed {
+  id: string;
+  data: Record<string, unknown>;
+  hideAt: number;
+}
+
+function formatDate(value?: string): string {
+  return value ? new Date(value).toLocaleString() : '-';
+}
+
+function expiryColor(expiresAt?: string): string | undefined {
+  if (!expiresAt) return undefined;
+  const days = (new Date(expiresAt).getTime() - Date.now()) / 86400000;
+  if (days < 0) return 'red';
+  return days < 14 ? 'yellow' : 'green';
+}
+
+function MetadataPanel({ secret }: { secret: SecretMetadata }): React.ReactElement {
+  const rows: Array<[string, string, string?]> = [
+    ['ID', secret.id],
+    ['Alias', secret.alias],
+    ['Tenant', secret.tenant],
+    ['Type', secret.subType ? `${secret.type} / ${secret.subType}` : secret.type],
+    ['Version', String(secret.version)],
+    ['Tags', secret.tags?.length ? secret.tags.join(', ') : '-'],
+    ['Expires', formatDate(secret.expiresAt), expiryColor(secret.expiresAt)],
+    ['Created By', secret.createdBy ?? '-'],
+    ['Updated', formatDate(secret.updatedAt)],
+  ];
+  if (secret.fileName) {
+    rows.push(['File', `${secret.fileName} (${String(secret.fileSize ?? 0)} bytes)`]);
+  }
+
+  return (
+    <Box flexDirection="column">
+      {rows.map(([label, value, color]) => (
+        <Box key={label}>
+          <Box width={12}>
+            <Text color="gray">{label}</Text>
+          </Box>
+          <Text color={color}>{value}</Text>
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
+function HistoryView({ secret, onClose }: { secret: SecretMetadata; onClose: () => void }): React.ReactElement {
+  const { data, loading, error } = useApiCall(
+    async () => (await mode.apiGet<{ history: HistoryEntry[] }>(`/v1/secrets/${secret.id}/history`)).history,
+    [secret.id]
+  );
+  const [selected, setSelected] = useState(0);
+  const history = data ?? [];
+
+  useInput((input, key) => {
+    if (key.escape || input === 'h' || key.leftArrow) {
+      onClose();
+    } else if (key.upArrow || input === 'k') {
+      setSelected(i => Math.max(0, i - 1));
+    } else if (key.downArrow || input === 'j') {
+      setSelected(i => Math.min(history.length - 1, i + 1));
+    }
+  });
+
+  return (
+    <Box flexDirection="column" borderStyle="round" borderColor="blue" paddingX={1}>
+      <Box justifyContent="center" marginBottom={1}>
+        <Text bold color="cyan">HISTORY: {secret.alias}</Text>
+      </Box>
+      {loading && <Text color="yellow">Loading history...</Text>}
+      {error && <Text color="red">Error: {error}</Text>}
+      {!loading && !error && history.length === 0 && <Text color="gray">No version history found</Text>}
+      {history.length > 0 && (
+        <Box>
+          <Box width={10}><Text bold color="gray">Version</Text></Box>
+          <Box width={26}><Text bold color="gray">Created</Text></Box>
+          <Box width={26}><Text bold color="gray">Superseded</Text></Box>
+          <Text bold color="gray">Created By</Text>
+        </Box>
+      )}
+      {history.map((entry, index) => (
+        <Box key={entry.version}>
+          <Box width={10}>
+            <Text inverse={index === selected} color={entry.version === secret.version ? 'green' : undefined}>
+              v{entry.version}
+            </Text>
+          </Box>
+          <Box width={26}><Text>{formatDate(entry.createdAt)}</Text></Box>
+          <Box width={26}><Text>{formatDate(entry.supersededAt)}</Text></Box>
+          <Text>{entry.createdBy ?? '-'}</Text>
+        </Box>
+      ))}
+      <Box marginTop={1}>
+        <Text color="gray">↑/↓ select  Esc back</Text>
+      </Box>
+    </Box>
+  );
+}
+
+export function Secrets({ revealTimeout, onInputCapture }: SecretsProps): React.ReactElement {
+  const { stdout } = useStdout();
+  const { data, loading, error, refresh } = useApiCall(
+    () => mode.apiGet<SecretMetadata[]>('/v1/secrets'),
+    []
+  );
+
+  const [filter, setFilter] = useState('');
+  const [filtering, setFiltering] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const [revealed, setRevealed] = useState<Revealed | null>(null);
+  const [message, setMessage] = useState<{ text: string; color: string } | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const rows = useMemo(() => {
+    const secrets = filterSecrets(data ?? [], filter);
+    return flattenSecretTree(buildSecretTree(secrets), expanded, filter !== '');
+  }, [data, filter, expanded]);
+
+  const current = rows.at(Math.min(selected, rows.length - 1));
+  const secret = current?.node.secret;
+
+  useEffect(() => {
+    onInputCapture(filtering || showHistory);
+  }, [filtering, showHistory, onInputCapture]);
+
+  // Hide the revealed value after the timeout, with a visible countdown
+  useEffect(() => {
+    if (!revealed) return;
+    const timer = setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      if (time >= revealed.hideAt) {
+        setRevealed(null);
+      }
+    }, 250);
+    return () => { clearInterval(timer); };
+  }, [revealed]);
+
+  // Never keep a value revealed for another secret
+  useEffect(() => {
+    if (revealed && revealed.id !== secret?.id) {
+      setRevealed(null);
+    }
+  }, [secret?.id, revealed]);
+
+  const decrypt = async (target: SecretMetadata): Promise<Record<string, unknown>> => {
+    const result = await mode.apiPost<DecryptedSecret>(`/v1/secrets/${target.id}/decrypt`, {});
+    return result.data;
+  };
+
+  const reveal = (target: SecretMetadata): void => {
+    setMessage({ text: 'Decrypting...', color: 'yellow' });
+    decrypt(target).then(value => {
+      setRevealed({ id: target.id, data: value, hideAt: Date.now() + revealTimeout * 1000 });
+      setMessage(null);
+    }).catch((err: unknown) => {
+      setMessage({ text: `Decrypt failed: ${err instanceof Error ? err.message : String(err)}`, color: 'red' });
+    });
+  };
+
+  const copy = (target: SecretMetadata): void => {
+    const source = revealed?.id === target.id ? Promise.resolve(revealed.data) : decrypt(target);
+    source.then(value => {
+      stdout.write(osc52(clipboardText(value)));
+      setMessage({ text: `Copied ${target.alias} to clipboard`, color: 'green' });
+    }).catch((err: unknown) => {
+      setMessage({ text: `Copy failed: ${err instanceof Error ? err.message : String(err)}`, color: 'red' });
+    });
+  };
+
+  const toggle = (path: string, open: boolean): void => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (open) next.add(path); else next.delete(path);
+      return next;
+    });
+  };
+
+  useInput((input, key) => {
+    if (filtering) {
+      if (key.escape) {
+        setFilter('');
+        setFiltering(false);
+      } else if (key.return) {
+        setFiltering(false);
+      } else if (key.backspace || key.delete) {
+        setFilter(f => f.slice(0, -1));
+        setSelected(0);
+      } else if (input && !key.ctrl && !key.meta) {
+        setFilter(f => f + input);
+        setSelected(0);
+      }
+      return;
+    }
+
+    if (key.upArrow || input === 'k') {
+      setSelected(i => Math.max(0, i - 1));
+    } else if (key.downArrow || input === 'j') {
+      setSelected(i => Math.min(rows.length - 1, i + 1));
+    } else if (input === '/') {
+      setFiltering(true);
+    } else if (input === 'r') {
+      setRevealed(null);
+      void refresh();
+    } else if (current && !current.node.secret && (key.return || key.rightArrow || key.leftArrow)) {
+      toggle(current.node.path, !key.leftArrow && !current.expanded);
+    } else if (secret && input === 'v') {
+      if (revealed?.id === secret.id) setRevealed(null); else reveal(secret);
+    } else if (secret && input === 'c') {
+      copy(secret);
+    } else if (secret && input === 'h') {
+      setShowHistory(true);
+    }
+  }, { isActive: !showHistory });
+
+  if (showHistory && secret) {
+    return (
+      <Box flexDirection="column">
+        <Header title="ZN-VAULT SECRETS" />
+        <HistoryView secret={secret} onClose={() => { setShowHistory(false); }} />
+      </Box>
+    );
+  }
+
+  // Keep the selection in view: header, borders and footer take ~10 lines
+  const height = Math.max(5, (stdout.rows || 24) - 10);
+  const start = Math.max(0, Math.min(selected - Math.floor(height / 2), rows.length - height));
+  const visible = rows.slice(start, start + height);
+
+  return (
+    <Box flexDirection="column">
+      <Header title="ZN-VAULT SECRETS" />
+
+      <Box gap={1}>
+        <Box flexDirection="column" borderStyle="round" borderColor="blue" paddingX={1} width="50%">
+          <Box marginBottom={1}>
+            <Text color={filtering ? 'yellow' : 'gray'}>
+              Filter: {filter}{filtering ? '█' : ''}
+            </Text>
+          </Box>
+          {loading && !data && <Text color="yellow">Loading secrets...</Text>}
+          {error && <Text color="red">Error: {error}</Text>}
+          {!loading && !error && rows.length === 0 && <Text color="gray">No secrets found</Text>}
+          {visible.map((row, index) => {
+            const isSelected = start + index === Math.min(selected, rows.length - 1);
+            const icon = row.node.secret ? ' ' : row.expanded ? '▾' : '▸';
+            return (
+              <Text key={row.node.path} inverse={isSelected} color={row.node.secret ? undefined : 'cyan'}>
+                {'  '.repeat(row.depth)}{icon} {row.node.name}{row.node.secret ? '' : '/'}
+              </Text>
+            );
+          })}
+        </Box>
+
+        <Box flexDirection="column" borderStyle="round" borderColor="blue" paddingX={1} flexGrow={1}>
+          <Box justifyContent="center" marginBottom={1}>
+            <Text bold color="cyan">DETAILS</Text>
+          </Box>
+          {secret ? (
+            <>
+              <MetadataPanel secret={secret} />
+              <Box marginTop={1} flexDirection="column">
+                {revealed?.id === secret.id ? (
+                  <>
+                    <Text color="yellow">Hides in {Math.max(0, Math.ceil((revealed.hideAt - now) / 1000))}s</Text>
+                    {Object.entries(revealed.data).map(([field, value]) => (
+                      <Box key={field}>
+                        <Box width={12}><Text color="gray">{field}</Text></Box>
+                        <Text>{typeof value === 'string' ? value : JSON.stringify(value)}</Text>
+                      </Box>
+                    ))}
+                  </>
+                ) : (
+                  <Text color="gray">Value hidden. Press v to reveal</Text>
+                )}
+              </Box>
+            </>
+          ) : (
+            <Text color="gray">{current ? `${String(current.node.children.length)} item(s)` : ''}</Text>
+          )}
+        </Box>
+      </Box>
+
+      <Box marginTop={1} justifyContent="space-between">
+        <Text color="gray">↑/↓ move  ←/→ fold  / filter  v reveal  c copy  h history  Esc back</Text>
+        {message && <Text color={message.color}>{message.text}</Text>}
+      </Box>
+    </Box>
+  );
+}
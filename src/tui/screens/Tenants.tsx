@@ -0,0 +1,138 @@
+// Path: znvault-cli/src/tui/screens/Tenants.tsx
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import * as mode from '../../lib/mode.js';
+import { Header } from '../components/Header.js';
+import { Table, type TableColumn } from '../components/Table.js';
+import { List, ProgressBar } from '../components/List.js';
+import { StatusCard } from '../components/StatusCard.js';
+import { useApiCall } from '../hooks/useApi.js';
+import type { TenantWithUsage } from '../../types/index.js';
+
+interface TenantsProps {
+  onInputCapture: (captured: boolean) => void;
+}
+
+const columns: TableColumn[] = [
+  { header: 'ID', key: 'id', width: 20 },
+  { header: 'Name', key: 'name', width: 28 },
+  { header: 'Status', key: 'status', width: 11 },
+  { header: 'Plan', key: 'planTier', width: 12 },
+  { header: 'Secrets', key: 'secrets', width: 14, align: 'right' },
+  { header: 'Users', key: 'users', width: 7, align: 'right' },
+];
+
+function TenantDetail({ tenant, onClose }: { tenant: TenantWithUsage; onClose: () => void }): React.ReactElement {
+  const { data: usage, loading, error } = useApiCall(() => mode.getTenantUsage(tenant.id), [tenant.id]);
+
+  useInput((_input, key) => {
+    if (key.escape || key.return || key.leftArrow) onClose();
+  });
+
+  return (
+    <Box gap={1}>
+      <Box flexGrow={1}>
+        <List
+          bordered
+          title={`TENANT: ${tenant.name}`}
+          items={[
+            { label: 'ID', value: tenant.id },
+            { label: 'Status', value: tenant.status },
+            { label: 'Plan', value: tenant.planTier },
+            { label: 'Contact', value: tenant.contactName ?? tenant.contactEmail },
+            { label: 'Email', value: tenant.contactEmail },
+            { label: 'Created', value: new Date(tenant.createdAt).toLocaleString() },
+          ]}
+        />
+      </Box>
+      <Box flexDirection="column" flexGrow={1} marginY={1}>
+        {loading && <Text color="yellow">Loading usage...</Text>}
+        {error && <Text color="red">Error: {error}</Text>}
+        {usage && (
+          <>
+            <StatusCard
+              title="USAGE"
+              items={[
+                { label: 'Secrets', value: `${String(usage.secretsCount)}${tenant.maxSecrets ? ` / ${String(tenant.maxSecrets)}` : ''}` },
+                { label: 'KMS Keys', value: `${String(usage.kmsKeysCount)}${tenant.maxKmsKeys ? ` / ${String(tenant.maxKmsKeys)}` : ''}` },
+                { label: 'Storage', value: `${usage.storageUsedMb.toFixed(1)} MB${tenant.maxStorageMb ? ` / ${String(tenant.maxStorageMb)} MB` : ''}` },
+                { label: 'Users', value: String(usage.usersCount) },
+                { label: 'API Keys', value: String(usage.apiKeysCount) },
+              ]}
+            />
+            <Box flexDirection="column" paddingX={1} marginTop={1}>
+              {tenant.maxSecrets !== undefined && tenant.maxSecrets > 0 && (
+                <ProgressBar label="Secrets " value={usage.secretsCount} max={tenant.maxSecrets} />
+              )}
+              {tenant.maxKmsKeys !== undefined && tenant.maxKmsKeys > 0 && (
+                <ProgressBar label="KMS keys" value={usage.kmsKeysCount} max={tenant.maxKmsKeys} />
+              )}
+              {tenant.maxStorageMb !== undefined && tenant.maxStorageMb > 0 && (
+                <ProgressBar label="Storage " value={usage.storageUsedMb} max={tenant.maxStorageMb} />
+              )}
+            </Box>
+          </>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+export function Tenants({ onInputCapture }: TenantsProps): React.ReactElement {
+  const { data, loading, error, refresh } = useApiCall(() => mode.listTenants({ withUsage: true }), []);
+  const [selected, setSelected] = useState(0);
+  const [detail, setDetail] = useState(false);
+
+  const tenants = data ?? [];
+  const tenant = tenants.at(Math.min(selected, tenants.length - 1));
+
+  useEffect(() => {
+    onInputCapture(detail);
+  }, [detail, onInputCapture]);
+
+  useInput((input, key) => {
+    if (key.upArrow || input === 'k') {
+      setSelected(i => Math.max(0, i - 1));
+    } else if (key.downArrow || input === 'j') {
+      setSelected(i => Math.min(tenants.length - 1, i + 1));
+    } else if (input === 'r') {
+      void refresh();
+    } else if (key.return && tenant) {
+      setDetail(true);
+    }
+  }, { isActive: !detail });
+
+  if (detail && tenant) {
+    return (
+      <Box flexDirection="column">
+        <Header title="ZN-VAULT TENANTS" />
+        <TenantDetail tenant={tenant} onClose={() => { setDetail(false); }} />
+        <Text color="gray">Esc back</Text>
+      </Box>
+    );
+  }
+
+  const rows = tenants.map(t => ({
+    id: t.id,
+    name: t.name,
+    status: t.status,
+    planTier: t.planTier,
+    secrets: t.usage ? `${String(t.usage.secretsCount)}${t.maxSecrets ? `/${String(t.maxSecrets)}` : ''}` : undefined,
+    users: t.usage?.usersCount,
+  }));
+
+  return (
+    <Box flexDirection="column">
+      <Header title="ZN-VAULT TENANTS" />
+      {loading && !data && <Text color="yellow">Loading tenants...</Text>}
+      {error && <Text color="red">Error: {error}</Text>}
+      <Table
+        columns={columns}
+        data={rows}
+        selectedIndex={Math.min(selected, tenants.length - 1)}
+        emptyMessage={loading ? 'Loading...' : 'No tenants found'}
+      />
+      <Text color="gray">↑/↓ select  Enter details  r refresh  Esc back</Text>
+    </Box>
+  );
+}
@@ -0,0 +1,170 @@
+// Path: znvault-cli/src/tui/screens/Users.tsx
+import React, { useState, useEffect } from 'react';
+import { Box, Text, useInput } from 'ink';
+import * as mode from '../../lib/mode.js';
+import { Header } from '../components/Header.js';
+import { Table, type TableColumn } from '../components/Table.js';
+import { List } from '../components/List.js';
+import { ConfirmDialog, PasswordDialog } from '../components/Dialog.js';
+import { useApiCall } from '../hooks/useApi.js';
+import {
+  isUserLocked,
+  lockUser,
+  unlockUser,
+  disableUserTotp,
+  resetUserPassword,
+  type ActionResult,
+} from '../utils/admin.js';
+import type { User } from '../../types/index.js';
+
+interface UsersProps {
+  onInputCapture: (captured: boolean) => void;
+}
+
+type Dialog = 'detail' | 'lock' | 'totp' | 'password' | null;
+
+const columns: TableColumn[] = [
+  { header: 'Username', key: 'username', width: 24 },
+  { header: 'Email', key: 'email', width: 28 },
+  { header: 'Role', key: 'role', width: 12 },
+  { header: 'Tenant', key: 'tenantId', width: 16 },
+  { header: 'Status', key: 'status', width: 10 },
+  { header: '2FA', key: 'totpEnabled', width: 5 },
+];
+
+export function Users({ onInputCapture }: UsersProps): React.ReactElement {
+  const { data, loading, error, refresh } = useApiCall(() => mode.listUsers(), []);
+  const [selected, setSelected] = useState(0);
+  const [dialog, setDialog] = useState<Dialog>(null);
+  const [result, setResult] = useState<ActionResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const users = data ?? [];
+  const user = users.at(Math.min(selected, users.length - 1));
+
+  useEffect(() => {
+    onInputCapture(dialog !== null);
+  }, [dialog, onInputCapture]);
+
+  const perform = (action: () => Promise<ActionResult>): void => {
+    setDialog(null);
+    setBusy(true);
+    void action().then(outcome => {
+      setResult(outcome);
+      setBusy(false);
+      if (outcome.success) void refresh();
+    });
+  };
+
+  useInput((input, key) => {
+    if (busy) return;
+
+    if (key.upArrow || input === 'k') {
+      setSelected(i => Math.max(0, i - 1));
+    } else if (key.downArrow || input === 'j') {
+      setSelected(i => Math.min(users.length - 1, i + 1));
+    } else if (input === 'r') {
+      setResult(null);
+      void refresh();
+    } else if (!user) {
+      return;
+    } else if (key.return) {
+      setDialog('detail');
+    } else if (input === 'l') {
+      // Unlocking is harmless; locking someone out asks first
+      if (isUserLocked(user)) perform(() => unlockUser(user)); else setDialog('lock');
+    } else if (input === 't' && user.totpEnabled) {
+      setDialog('totp');
+    } else if (input === 'p') {
+      setDialog('password');
+    }
+  }, { isActive: dialog === null });
+
+  const renderDialog = (current: User): React.ReactElement | null => {
+    const close = (): void => { setDialog(null); };
+    switch (dialog) {
+      case 'detail':
+        return <UserDetail user={current} onClose={close} />;
+      case 'lock':
+        return (
+          <ConfirmDialog
+            title="Disable User"
+            message={`Disable user ${current.username}? They will not be able to log in until unlocked.`}
+            onConfirm={() => { perform(() => lockUser(current)); }}
+            onCancel={close}
+          />
+        );
+      case 'totp':
+        return (
+          <ConfirmDialog
+            title="Disable 2FA"
+            message={`Disable TOTP for ${current.username}? They will log in with a password only.`}
+            onConfirm={() => { perform(() => disableUserTotp(current)); }}
+            onCancel={close}
+          />
+        );
+      case 'password':
+        return (
+          <PasswordDialog
+            title={`Reset Password: ${current.username}`}
+            onSubmit={password => { perform(() => resetUserPassword(current, password)); }}
+            onCancel={close}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  const overlay = user ? renderDialog(user) : null;
+
+  return (
+    <Box flexDirection="column">
+      <Header title="ZN-VAULT USERS" />
+      {overlay ?? (
+        <>
+          {loading && !data && <Text color="yellow">Loading users...</Text>}
+          {error && <Text color="red">Error: {error}</Text>}
+          <Table
+            columns={columns}
+            data={users as unknown as Array<Record<string, unknown>>}
+            selectedIndex={Math.min(selected, users.length - 1)}
+            rowColor={row => (row.status === 'active' ? undefined : 'yellow')}
+            emptyMessage={loading ? 'Loading...' : 'No users found'}
+          />
+          {busy && <Text color="yellow">Working...</Text>}
+          {result && <Text color={result.success ? 'green' : 'red'}>{result.message}</Text>}
+          <Text color="gray">↑/↓ select  Enter details  l lock/unlock  t disable 2FA  p reset password  r refresh  Esc back</Text>
+        </>
+      )}
+    </Box>
+  );
+}
+
+function UserDetail({ user, onClose }: { user: User; onClose: () => void }): React.ReactElement {
+  useInput((_input, key) => {
+    if (key.escape || key.return || key.leftArrow) onClose();
+  });
+
+  return (
+    <Box flexDirection="column">
+      <List
+        bordered
+        title={`USER: ${user.username}`}
+        items={[
+          { label: 'ID', value: user.id },
+          { label: 'Email', value: user.email },
+          { label: 'Role', value: user.role },
+          { label: 'Tenant', value: user.tenantId },
+          { label: 'Status', value: user.status },
+          { label: '2FA Enabled', value: user.totpEnabled },
+          { label: 'Failed Attempts', value: user.failedAttempts },
+          { label: 'Locked Until', value: user.lockedUntil ? new Date(user.lockedUntil).toLocaleString() : undefined },
+          { label: 'Last Login', value: user.lastLogin ? new Date(user.lastLogin).toLocaleString() : 'never' },
+          { label: 'Created', value: new Date(user.createdAt).toLocaleString() },
+        ]}
+      />
+      <Text color="gray">Esc back</Text>
+    </Box>
+  );
+}
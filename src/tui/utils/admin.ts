@@ -0,0 +1,95 @@
+// Path: znvault-cli/src/tui/utils/admin.ts
+/**
+ * Admin Actions for the TUI
+ *
+ * User and API key actions for the management screens. User actions go
+ * through the local database in local mode and through the API otherwise,
+ * like the `user` commands; API keys are API-only.
+ */
+
+import { client } from '../../lib/client.js';
+import * as mode from '../../lib/mode.js';
+import type { User, APIKey } from '../../types/index.js';
+
+export interface ActionResult {
+  success: boolean;
+  message: string;
+}
+
+// API keys expiring within this many days are flagged
+export const EXPIRY_WARNING_DAYS = 14;
+
+async function run(action: () => Promise<{ message?: string }>, done: string): Promise<ActionResult> {
+  try {
+    const result = await action();
+    return { success: true, message: result.message ?? done };
+  } catch (err) {
+    return { success: false, message: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export function isUserLocked(user: User): boolean {
+  return user.status !== 'active' ||
+    (user.lockedUntil !== undefined && new Date(user.lockedUntil).getTime() > Date.now());
+}
+
+export async function unlockUser(user: User): Promise<ActionResult> {
+  if (mode.getMode() === 'local') {
+    return mode.unlockUser(user.username);
+  }
+  return run(() => client.unlockUser(user.id), `User ${user.username} unlocked`);
+}
+
+export async function lockUser(user: User): Promise<ActionResult> {
+  if (mode.getMode() === 'local') {
+    return { success: false, message: 'Locking users requires API mode' };
+  }
+  return run(async () => {
+    await client.updateUser(user.id, { status: 'disabled' });
+    return {};
+  }, `User ${user.username} disabled`);
+}
+
+export async function disableUserTotp(user: User): Promise<ActionResult> {
+  if (mode.getMode() === 'local') {
+    return mode.disableTotp(user.username);
+  }
+  return run(() => client.disableUserTotp(user.id), `TOTP disabled for ${user.username}`);
+}
+
+export async function resetUserPassword(user: User, password: string): Promise<ActionResult> {
+  if (mode.getMode() === 'local') {
+    return mode.resetPassword(user.username, password);
+  }
+  return run(() => client.resetUserPassword(user.id, password), `Password reset for ${user.username}`);
+}
+
+export async function setApiKeyEnabled(key: APIKey, enabled: boolean): Promise<ActionResult> {
+  return run(async () => {
+    await client.setApiKeyEnabled(key.id, enabled, key.tenant_id);
+    return {};
+  }, `API key ${key.name} ${enabled ? 'enabled' : 'disabled'}`);
+}
+
+/**
+ * Rotate an API key. The new key is only returned once, in the message.
+ */
+export async function rotateApiKey(key: APIKey): Promise<ActionResult> {
+  return run(async () => {
+    const result = await client.rotateApiKey(key.id, undefined, key.tenant_id);
+    return { message: `New key for ${key.name}: ${result.key}` };
+  }, `API key ${key.name} rotated`);
+}
+
+/**
+ * Whole days until a date (negative when past)
+ */
+export function daysUntil(date: string, now = Date.now()): number {
+  return Math.floor((new Date(date).getTime() - now) / 86400000);
+}
+
+export function expiryColor(date: string, now = Date.now()): string | undefined {
+  const days = daysUntil(date, now);
+  if (days < 0) return 'red';
+  return days <= EXPIRY_WARNING_DAYS ? 'yellow' : undefined;
+}
@@ -0,0 +1,150 @@
+// Path: znvault-cli/src/tui/utils/secrets.ts
+/**
+ * Secret Browser Helpers
+ *
+ * Tree grouping by alias prefix, fuzzy filtering and clipboard encoding
+ * for the TUI secrets screen.
+ */
+
+import type { SecretMetadata } from '../../types/index.js';
+
+export interface SecretTreeNode {
+  name: string;
+  path: string;              // Folder paths end with '/'
+  children: SecretTreeNode[];
+  secret?: SecretMetadata;   // Set on leaves only
+}
+
+export interface SecretTreeRow {
+  node: SecretTreeNode;
+  depth: number;
+  expanded: boolean;
+}
+
+/**
+ * Group secrets into folders by the `/`-separated segments of their alias
+ */
+export function buildSecretTree(secrets: SecretMetadata[]): SecretTreeNode[] {
+  const root: SecretTreeNode = { name: '', path: '', children: [] };
+
+  for (const secret of secrets) {
+    const segments = secret.alias.split('/').filter(s => s !== '');
+    let parent = root;
+
+    for (const segment of segments.slice(0, -1)) {
+      const folderPath = `${parent.path}${segment}/`;
+      let folder = parent.children.find(c => !c.secret && c.path === folderPath);
+      if (!folder) {
+        folder = { name: segment, path: folderPath, children: [] };
+        parent.children.push(folder);
+      }
+      parent = folder;
+    }
+
+    parent.children.push({
+      name: segments.at(-1) ?? secret.alias,
+      path: secret.alias,
+      children: [],
+      secret,
+    });
+  }
+
+  sortTree(root.children);
+  return root.children;
+}
+
+// Folders first, then leaves, each alphabetically
+function sortTree(nodes: SecretTreeNode[]): void {
+  nodes.sort((a, b) => {
+    if (!a.secret !== !b.secret) return a.secret ? 1 : -1;
+    return a.name.localeCompare(b.name);
+  });
+  for (const node of nodes) {
+    sortTree(node.children);
+  }
+}
+
+/**
+ * Visible rows of the tree. With `expandAll` (used while filtering) every
+ * folder is open.
+ */
+export function flattenSecretTree(
+  nodes: SecretTreeNode[],
+  expanded: ReadonlySet<string>,
+  expandAll = false,
+  depth = 0
+): SecretTreeRow[] {
+  const rows: SecretTreeRow[] = [];
+
+  for (const node of nodes) {
+    const isOpen = !node.secret && (expandAll || expanded.has(node.path));
+    rows.push({ node, depth, expanded: isOpen });
+    if (isOpen) {
+      rows.push(...flattenSecretTree(node.children, expanded, expandAll, depth + 1));
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Case-insensitive subsequence match. Returns a score (higher is better,
+ * favoring consecutive and early matches) or null when the query does not match.
+ */
+export function fuzzyMatch(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (q === '') return 0;
+
+  // A contiguous match beats any scattered one
+  const substring = t.indexOf(q);
+  if (substring !== -1) {
+    return q.length * 3 + 1 - substring / t.length;
+  }
+
+  let score = 0;
+  let lastIndex = -1;
+
+  for (const char of q) {
+    const index = t.indexOf(char, lastIndex + 1);
+    if (index === -1) return null;
+    score += index === lastIndex + 1 ? 3 : 1;
+    lastIndex = index;
+  }
+
+  return score - t.indexOf(q[0]) / t.length;
+}
+
+/**
+ * Secrets whose alias matches the filter, best matches first
+ */
+export function filterSecrets(secrets: SecretMetadata[], query: string): SecretMetadata[] {
+  if (query === '') return secrets;
+
+  return secrets
+    .map(secret => ({ secret, score: fuzzyMatch(query, secret.alias) }))
+    .filter((m): m is { secret: SecretMetadata; score: number } => m.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map(m => m.secret);
+}
+
+/**
+ * Text to copy for a decrypted secret: a single field is copied as its
+ * raw value, anything else as JSON
+ */
+export function clipboardText(data: Record<string, unknown>): string {
+  const values = Object.values(data);
+  if (values.length === 1 && typeof values[0] === 'string') {
+    return values[0];
+  }
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * OSC 52 escape sequence that sets the terminal clipboard. Inside tmux the
+ * sequence is wrapped in a passthrough so it reaches the outer terminal.
+ */
+export function osc52(text: string, inTmux = process.env.TMUX !== undefined): string {
+  const sequence = `\x1b]52;c;${Buffer.from(text, 'utf-8').toString('base64')}\x07`;
+  return inTmux ? `\x1bPtmux;${sequence.replaceAll('\x1b', '\x1b\x1b')}\x1b\\` : sequence;
+}
@@ -1,9 +1,16 @@
 // Configuration types
 export interface CLIConfig {
   url: string;
+  urls?: string[];  // Additional cluster node URLs for failover
   insecure: boolean;
   timeout: number;
+  retries: number;  // Retries for failed idempotent requests
   defaultTenant?: string;
+  caFile?: string;  // PEM bundle of trusted CAs
+  clientCert?: string;  // PEM client certificate for mutual TLS
+  clientKey?: string;  // PEM client private key for mutual TLS
+  tlsServerName?: string;  // Server name to verify instead of the URL host
+  proxy?: string;  // HTTP(S) proxy URL, overrides HTTPS_PROXY/HTTP_PROXY
 }
 
 export interface StoredCredentials {
@@ -18,6 +25,7 @@ export interface StoredCredentials {
 
 export interface FullConfig extends CLIConfig {
   credentials?: StoredCredentials;
+  clientKeyPassphrase?: string;  // Environment only, never stored
 }
 
 // API Response types
@@ -235,6 +243,31 @@ export interface ThreatListOptions extends GlobalOptions {
 // Output format type
 export type OutputFormat = 'table' | 'json' | 'yaml';
 
+// Secret types
+export interface SecretMetadata {
+  id: string;
+  alias: string;
+  tenant: string;
+  type: 'opaque' | 'credential' | 'setting';
+  subType?: string;
+  version: number;
+  fileName?: string;
+  fileSize?: number;
+  fileMime?: string;
+  expiresAt?: string;
+  ttlUntil?: string;
+  tags?: string[];
+  contentType?: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DecryptedSecret extends SecretMetadata {
+  data: Record<string, unknown>;
+  content_type?: string;
+}
+
 // Certificate types
 export interface CertificateMetadata {
   id: string;
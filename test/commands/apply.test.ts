@@ -0,0 +1,320 @@
+// Path: znvault-cli/test/commands/apply.test.ts
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Command } from 'commander';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Mock dependencies
+vi.mock('ora', () => ({
+  default: () => ({
+    start: () => ({ stop: vi.fn(), succeed: vi.fn(), fail: vi.fn() }),
+  }),
+}));
+
+vi.mock('inquirer', () => ({
+  default: {
+    prompt: vi.fn().mockResolvedValue({ confirm: true }),
+  },
+}));
+
+const mockRoles = [
+  { id: 'role-1', name: 'readers', is_system: false, permissions: ['secret:read'] },
+  { id: 'role-2', name: 'legacy', is_system: false, permissions: ['secret:list'] },
+];
+
+const mockPolicies = [
+  {
+    id: 'pol-1',
+    name: 'read-prod',
+    effect: 'allow',
+    actions: ['secret:read'],
+    priority: 100,
+    isActive: true,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  },
+];
+
+vi.mock('../../src/lib/client.js', () => ({
+  client: {
+    get: vi.fn().mockImplementation((p: string) => {
+      if (p.startsWith('/v1/roles')) return Promise.resolve({ data: mockRoles });
+      if (p.startsWith('/v1/kms/keys/key-1')) {
+        return Promise.resolve({ keyMetadata: { keyId: 'key-1', alias: 'alias/app', keyState: 'Enabled' } });
+      }
+      if (p.startsWith('/v1/kms/keys')) {
+        return Promise.resolve({ keys: [{ keyId: 'key-1', alias: 'alias/app', keyState: 'Enabled' }] });
+      }
+      if (p.includes('/notifications/recipients')) return Promise.resolve({ recipients: 'ops@example.com' });
+      return Promise.resolve({});
+    }),
+    post: vi.fn().mockImplementation((p: string) => {
+      if (p === '/v1/roles') return Promise.resolve({ id: 'role-new' });
+      return Promise.resolve({});
+    }),
+    patch: vi.fn().mockResolvedValue({}),
+    delete: vi.fn().mockResolvedValue({}),
+    listPolicies: vi.fn().mockResolvedValue({ data: mockPolicies }),
+    getPolicyAttachments: vi.fn().mockResolvedValue({ users: [], roles: [] }),
+    createPolicy: vi.fn().mockResolvedValue({ id: 'pol-new' }),
+    updatePolicy: vi.fn().mockResolvedValue({}),
+    deletePolicy: vi.fn().mockResolvedValue(undefined),
+    togglePolicy: vi.fn().mockResolvedValue({}),
+    attachPolicyToRole: vi.fn().mockResolvedValue({ message: 'ok' }),
+    attachPolicyToUser: vi.fn().mockResolvedValue({ message: 'ok' }),
+    listUsers: vi.fn().mockResolvedValue([]),
+    listTenants: vi.fn().mockResolvedValue([
+      { id: 'acme', name: 'Acme Corp', status: 'active', maxSecrets: 500, createdAt: '', updatedAt: '' },
+    ]),
+    createTenant: vi.fn().mockResolvedValue({}),
+    updateTenant: vi.fn().mockResolvedValue({}),
+    listManagedApiKeys: vi.fn().mockResolvedValue({ keys: [], total: 0 }),
+    createManagedApiKey: vi.fn().mockResolvedValue({}),
+    configure: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/lib/auth-context.js', () => ({
+  getAuthContext: vi.fn().mockReturnValue({ tenantId: 'acme' }),
+}));
+
+vi.mock('../../src/lib/output.js', () => ({
+  success: vi.fn(),
+  error: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  json: vi.fn(),
+}));
+
+const manifest = `
+apiVersion: znvault/v1
+tenant: acme
+roles:
+  - name: readers
+    permissions: [secret:read, secret:list]
+  - name: writers
+    permissions: [secret:write]
+policies:
+  - name: read-prod
+    effect: allow
+    actions: [secret:read]
+    priority: 100
+    attachments:
+      roles: [writers]
+  - name: deny-delete
+    effect: deny
+    actions: [secret:delete]
+kmsKeys:
+  - alias: app
+notifications:
+  recipients: [ops@example.com]
+`;
+
+describe('plan/apply commands', () => {
+  let program: Command;
+  let tmpDir: string;
+  let manifestPath: string;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let exitSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    program = new Command();
+    program.exitOverride();
+
+    const { registerApplyCommands } = await import('../../src/commands/apply/index.js');
+    registerApplyCommands(program);
+
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-apply-'));
+    manifestPath = path.join(tmpDir, 'vault.yaml');
+    fs.writeFileSync(manifestPath, manifest);
+
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    consoleSpy.mockRestore();
+    exitSpy.mockRestore();
+    vi.clearAllMocks();
+  });
+
+  describe('plan', () => {
+    it('should list creates and updates in dependency order', async () => {
+      const { json } = await import('../../src/lib/output.js');
+
+      await program.parseAsync(['node', 'test', 'plan', '-f', manifestPath, '--json']);
+
+      const plan = vi.mocked(json).mock.calls[0][0] as { changes: Array<{ action: string; kind: string; name: string }> };
+      expect(plan.changes.map(c => `${c.action} ${c.kind} ${c.name}`)).toEqual([
+        'create role writers',
+        'update role readers',
+        'create policy deny-delete',
+        'create attachment read-prod -> role:writers',
+      ]);
+    });
+
+    it('should only plan deletions with --prune', async () => {
+      const { json } = await import('../../src/lib/output.js');
+
+      await program.parseAsync(['node', 'test', 'plan', '-f', manifestPath, '--prune', '--json']);
+
+      const plan = vi.mocked(json).mock.calls[0][0] as { changes: Array<{ action: string; kind: string; name: string }> };
+      expect(plan.changes.filter(c => c.action === 'delete').map(c => `${c.kind} ${c.name}`)).toEqual(['role legacy']);
+    });
+
+    it('should read every page of policies and KMS keys', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { json } = await import('../../src/lib/output.js');
+      vi.mocked(client.listPolicies)
+        .mockResolvedValueOnce({ data: [], page: 1, pageSize: 100, total: 1, totalPages: 2 })
+        .mockResolvedValueOnce({ data: mockPolicies as never, page: 2, pageSize: 100, total: 1, totalPages: 2 });
+      vi.mocked(client.get)
+        .mockResolvedValueOnce({ data: mockRoles })
+        .mockResolvedValueOnce({ keys: [], nextMarker: 'm-1', truncated: true });
+
+      await program.parseAsync(['node', 'test', 'plan', '-f', manifestPath, '--json']);
+
+      expect(client.listPolicies).toHaveBeenCalledWith({ tenantId: 'acme', page: 2 });
+      expect(client.get).toHaveBeenCalledWith('/v1/kms/keys?tenant=acme&marker=m-1');
+      const plan = vi.mocked(json).mock.calls[0][0] as { changes: Array<{ action: string; kind: string; name: string }> };
+      // Same plan as when everything fits on one page
+      expect(plan.changes.map(c => `${c.action} ${c.kind} ${c.name}`)).toEqual([
+        'create role writers',
+        'update role readers',
+        'create policy deny-delete',
+        'create attachment read-prod -> role:writers',
+      ]);
+    });
+
+    it('should reject invalid manifests', async () => {
+      const { error } = await import('../../src/lib/output.js');
+      fs.writeFileSync(manifestPath, 'apiVersion: znvault/v1\npolicies:\n  - name: x\n    effect: maybe\n    actions: []\n');
+
+      await expect(
+        program.parseAsync(['node', 'test', 'plan', '-f', manifestPath])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith('Invalid manifest: policies[0].effect must be "allow" or "deny"');
+    });
+  });
+
+  describe('apply', () => {
+    it('should create parents before attaching policies', async () => {
+      const { client } = await import('../../src/lib/client.js');
+
+      await program.parseAsync(['node', 'test', 'apply', '-f', manifestPath, '--yes']);
+
+      expect(client.post).toHaveBeenCalledWith('/v1/roles', {
+        name: 'writers',
+        permissions: ['secret:write'],
+        tenantId: 'acme',
+      });
+      expect(client.patch).toHaveBeenCalledWith('/v1/roles/role-1', {
+        description: undefined,
+        permissions: ['secret:read', 'secret:list'],
+      });
+      expect(client.createPolicy).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'deny-delete',
+        effect: 'deny',
+        tenantId: 'acme',
+      }));
+      expect(client.attachPolicyToRole).toHaveBeenCalledWith('pol-1', 'role-new');
+      expect(client.delete).not.toHaveBeenCalled();
+    });
+
+    it('should stop at the first failing change and exit with its error', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { error } = await import('../../src/lib/output.js');
+      vi.mocked(client.createPolicy).mockRejectedValueOnce(new Error('Policy limit reached'));
+
+      await expect(
+        program.parseAsync(['node', 'test', 'apply', '-f', manifestPath, '--yes'])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith('Policy limit reached');
+      expect(exitSpy).toHaveBeenCalledWith(1);
+      expect(client.attachPolicyToRole).not.toHaveBeenCalled();
+    });
+
+    it('should not change anything when the user declines', async () => {
+      const inquirer = await import('inquirer');
+      const { client } = await import('../../src/lib/client.js');
+      vi.mocked(inquirer.default.prompt).mockResolvedValueOnce({ confirm: false });
+
+      await program.parseAsync(['node', 'test', 'apply', '-f', manifestPath]);
+
+      expect(client.post).not.toHaveBeenCalled();
+      expect(client.createPolicy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dump-config', () => {
+    it('should export tenant resources without secret values', async () => {
+      const writeSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      await program.parseAsync(['node', 'test', 'dump-config', '-t', 'acme', '--format', 'json']);
+
+      const dumped = JSON.parse(String(writeSpy.mock.calls[0][0])) as Record<string, unknown>;
+      writeSpy.mockRestore();
+
+      expect(dumped).toEqual({
+        apiVersion: 'znvault/v1',
+        tenant: 'acme',
+        roles: [
+          { name: 'readers', permissions: ['secret:read'] },
+          { name: 'legacy', permissions: ['secret:list'] },
+        ],
+        policies: [{ name: 'read-prod', effect: 'allow', actions: ['secret:read'], priority: 100, enabled: true }],
+        kmsKeys: [{ alias: 'alias/app', enabled: true }],
+        managedApiKeys: [],
+        notifications: { recipients: ['ops@example.com'] },
+      });
+    });
+
+    it('should walk all tenants when no tenant is given', async () => {
+      const dumpPath = path.join(tmpDir, 'dump.yaml');
+
+      await program.parseAsync(['node', 'test', 'dump-config', '-o', dumpPath]);
+
+      const content = fs.readFileSync(dumpPath, 'utf-8');
+      expect(content).toContain('tenants:\n  - id: acme\n    name: Acme Corp\n    status: active\n    maxSecrets: 500\n');
+      expect(fs.statSync(dumpPath).mode & 0o777).toBe(0o600);
+    });
+
+    it('should produce a manifest that plans no changes', async () => {
+      const { json } = await import('../../src/lib/output.js');
+      const dumpPath = path.join(tmpDir, 'dump.yaml');
+
+      await program.parseAsync(['node', 'test', 'dump-config', '-o', dumpPath]);
+      await program.parseAsync(['node', 'test', 'plan', '-f', dumpPath, '--json']);
+
+      expect(json).toHaveBeenCalledWith({ changes: [], warnings: [] });
+    });
+
+    it('should keep attachments to system roles without managing the roles', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { json } = await import('../../src/lib/output.js');
+      const dumpPath = path.join(tmpDir, 'dump.yaml');
+      const withSystem = { data: [...mockRoles, { id: 'role-sys', name: 'admin', is_system: true, permissions: [] }] };
+      vi.mocked(client.get).mockResolvedValueOnce(withSystem);
+      vi.mocked(client.getPolicyAttachments).mockResolvedValueOnce({ users: [], roles: [{ roleId: 'role-sys', roleName: 'admin' }] } as never);
+
+      await program.parseAsync(['node', 'test', 'dump-config', '-t', 'acme', '-o', dumpPath]);
+
+      const content = fs.readFileSync(dumpPath, 'utf-8');
+      expect(content).toContain('roles:\n        - admin\n');
+      expect(content).not.toContain('name: admin');
+
+      vi.mocked(client.get).mockResolvedValueOnce(withSystem);
+      vi.mocked(client.getPolicyAttachments).mockResolvedValueOnce({ users: [], roles: [{ roleId: 'role-sys', roleName: 'admin' }] } as never);
+      await program.parseAsync(['node', 'test', 'plan', '-f', dumpPath, '--prune', '--json']);
+
+      expect(json).toHaveBeenCalledWith({ changes: [], warnings: [] });
+    });
+  });
+});
@@ -13,6 +13,8 @@ vi.mock('ora', () => ({
 vi.mock('node:fs', () => ({
   default: {
     writeFileSync: vi.fn(),
+    existsSync: vi.fn().mockReturnValue(false),
+    renameSync: vi.fn(),
   },
   writeFileSync: vi.fn(),
 }));
@@ -37,6 +39,7 @@ vi.mock('../../src/lib/mode.js', () => ({
 vi.mock('../../src/lib/client.js', () => ({
   client: {
     exportAudit: vi.fn().mockResolvedValue(mockAuditEntries),
+    listAudit: vi.fn().mockResolvedValue(mockAuditEntries),
     configure: vi.fn(),
   },
 }));
@@ -142,6 +145,70 @@ describe('audit commands', () => {
     });
   });
 
+  describe('audit tail', () => {
+    it('should print recent entries oldest first', async () => {
+      const mode = await import('../../src/lib/mode.js');
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await program.parseAsync(['node', 'test', 'audit', 'tail', '-n', '5', '--user', 'alice', '--format', 'logfmt']);
+
+      expect(mode.listAudit).toHaveBeenCalledWith({ user: 'alice', action: undefined, startDate: undefined, limit: 5 });
+      expect(logSpy.mock.calls.map(c => String(c[0]).split(' ')[1])).toEqual(['id=audit-1', 'id=audit-2']);
+      logSpy.mockRestore();
+    });
+
+    it('should keep polling with --follow and skip entries already printed', async () => {
+      const mode = await import('../../src/lib/mode.js');
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const newer = { ...mockAuditEntries[1], id: 'audit-3', ts: new Date(Date.now() + 1000).toISOString() };
+
+      vi.mocked(mode.listAudit)
+        .mockResolvedValueOnce([mockAuditEntries[0]] as never)
+        .mockImplementationOnce(() => {
+          // Ctrl-C after the second poll
+          setTimeout(() => process.emit('SIGINT'), 0);
+          return Promise.resolve([newer, mockAuditEntries[0]] as never);
+        });
+
+      await program.parseAsync(['node', 'test', 'audit', 'tail', '-f', '--format', 'json', '--interval', '500']);
+
+      expect(mode.listAudit).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(mode.listAudit).mock.calls[1][0]).toMatchObject({ startDate: mockAuditEntries[0].ts, limit: 500 });
+      expect(logSpy.mock.calls.map(c => (JSON.parse(String(c[0])) as { id: string }).id)).toEqual(['audit-1', 'audit-3']);
+      logSpy.mockRestore();
+    });
+
+    it('should reject an invalid --lines', async () => {
+      const mode = await import('../../src/lib/mode.js');
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      await expect(
+        program.parseAsync(['node', 'test', 'audit', 'tail', '-n', 'all'])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith('Number of lines must be at least 1');
+      expect(mode.listAudit).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+    });
+
+    it('should reject unknown formats', async () => {
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      await expect(
+        program.parseAsync(['node', 'test', 'audit', 'tail', '--format', 'xml'])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith('Invalid format. Use table, json, logfmt');
+      exitSpy.mockRestore();
+    });
+  });
+
   describe('audit verify', () => {
     it('should verify audit chain', async () => {
       const mode = await import('../../src/lib/mode.js');
@@ -163,6 +230,70 @@ describe('audit commands', () => {
     });
   });
 
+  describe('audit report', () => {
+    it('should summarize entries over the requested range', async () => {
+      const mode = await import('../../src/lib/mode.js');
+      const { table } = await import('../../src/lib/output.js');
+
+      await program.parseAsync(['node', 'test', 'audit', 'report', '--from', '2026-03-01', '--to', '2026-04-01']);
+
+      expect(mode.listAudit).toHaveBeenCalledWith({
+        startDate: '2026-03-01T00:00:00.000Z',
+        endDate: '2026-04-01T00:00:00.000Z',
+        limit: 10000,
+      });
+      expect(table).toHaveBeenCalledWith(['User', 'Entries', '', 'Failures'], expect.arrayContaining([
+        expect.arrayContaining(['alice', 1]),
+        expect.arrayContaining(['bob', 1]),
+      ]));
+      expect(mode.closeLocalClient).toHaveBeenCalled();
+    });
+
+    it('should output JSON and write HTML', async () => {
+      const { json } = await import('../../src/lib/output.js');
+      const fs = await import('node:fs');
+
+      await program.parseAsync(['node', 'test', 'audit', 'report', '--json', '--html', '/tmp/report.html']);
+
+      expect(json).toHaveBeenCalledWith(expect.objectContaining({ totalEntries: 2, failures: 0 }));
+      expect(fs.default.writeFileSync).toHaveBeenCalledWith('/tmp/report.html', expect.stringContaining('<!DOCTYPE html>'));
+    });
+
+    it('should reject invalid working hours', async () => {
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      await expect(
+        program.parseAsync(['node', 'test', 'audit', 'report', '--work-hours', '18-8'])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Invalid working hours'));
+      exitSpy.mockRestore();
+    });
+
+    it('should reject non-numeric --days and --top', async () => {
+      const mode = await import('../../src/lib/mode.js');
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      await expect(
+        program.parseAsync(['node', 'test', 'audit', 'report', '--days', 'week'])
+      ).rejects.toThrow('process.exit');
+      await expect(
+        program.parseAsync(['node', 'test', 'audit', 'report', '--top', '0'])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith('--days must be a whole number of at least 1');
+      expect(error).toHaveBeenCalledWith('--top must be a whole number of at least 1');
+      expect(mode.listAudit).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+    });
+  });
+
   describe('audit export', () => {
     it('should export audit to JSON by default', async () => {
       const { client } = await import('../../src/lib/client.js');
@@ -198,5 +329,48 @@ describe('audit commands', () => {
       );
       expect(fs.default.writeFileSync).toHaveBeenCalled();
     });
+
+    it('should render SIEM formats from the audit entries', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const fs = await import('node:fs');
+
+      await program.parseAsync(['node', 'test', 'audit', 'export', '--format', 'syslog', '--output', '/tmp/audit.log']);
+
+      expect(client.exportAudit).not.toHaveBeenCalled();
+      expect(client.listAudit).toHaveBeenCalledWith(expect.objectContaining({ limit: 10000 }));
+      const written = vi.mocked(fs.default.writeFileSync).mock.calls[0][1] as string;
+      expect(written.trimEnd().split('\n')).toHaveLength(2);
+      expect(written).toMatch(/^<110>1 \S+ localhost znvault /);
+    });
+
+    it('should keep stdout to event lines when exporting incrementally', async () => {
+      const { info } = await import('../../src/lib/output.js');
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await program.parseAsync(['node', 'test', 'audit', 'export', '--format', 'syslog', '--checkpoint', '/tmp/audit.checkpoint']);
+
+      const stdout = logSpy.mock.calls.map(call => String(call[0])).join('\n').split('\n');
+      expect(stdout).toHaveLength(2);
+      for (const line of stdout) expect(line).toMatch(/^<110>1 /);
+      expect(errorSpy).toHaveBeenCalledWith('Checkpoint saved at entry audit-2');
+      expect(info).not.toHaveBeenCalled();
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it('should reject unknown formats', async () => {
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      await expect(
+        program.parseAsync(['node', 'test', 'audit', 'export', '--format', 'xml'])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith('Invalid format. Use json, csv, cef, leef, ocsf, syslog');
+      exitSpy.mockRestore();
+    });
   });
 });
@@ -2,6 +2,9 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Command } from 'commander';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 
 // Mock dependencies
 vi.mock('ora', () => ({
@@ -128,6 +131,38 @@ describe('auth commands', () => {
       expect(success).toHaveBeenCalled();
     });
 
+    it('should store TLS file settings as absolute paths', async () => {
+      const { setConfigValue } = await import('../../src/lib/config.js');
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-auth-'));
+      fs.writeFileSync(path.join(tmpDir, 'ca.pem'), 'PEM');
+      const cwd = process.cwd();
+
+      try {
+        process.chdir(tmpDir);
+        await program.parseAsync(['node', 'test', 'config', 'set', 'caFile', 'ca.pem']);
+        expect(setConfigValue).toHaveBeenCalledWith('caFile', path.join(process.cwd(), 'ca.pem'));
+      } finally {
+        process.chdir(cwd);
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject TLS files that do not exist', async () => {
+      const { setConfigValue } = await import('../../src/lib/config.js');
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      await expect(
+        program.parseAsync(['node', 'test', 'config', 'set', 'clientCert', '/nonexistent/client.pem'])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith('File not found: /nonexistent/client.pem');
+      expect(setConfigValue).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+    });
+
     it('should get all config values', async () => {
       const { keyValue } = await import('../../src/lib/output.js');
 
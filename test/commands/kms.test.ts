@@ -2,6 +2,10 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Command } from 'commander';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 
 // Mock dependencies
 vi.mock('ora', () => ({
@@ -299,6 +303,433 @@ describe('kms commands', () => {
     });
   });
 
+  describe('kms encrypt-file / decrypt-file', () => {
+    let dir: string;
+    const dataKey = crypto.randomBytes(32);
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-kms-'));
+      fs.writeFileSync(path.join(dir, 'report.pdf'), crypto.randomBytes(5000));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should encrypt a file with a data key and decrypt it by unwrapping the key', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const input = path.join(dir, 'report.pdf');
+      const restored = path.join(dir, 'restored.pdf');
+
+      vi.mocked(client.post).mockResolvedValueOnce({ ...mockDataKeyResponse, plaintext: dataKey.toString('base64') });
+      await program.parseAsync(['node', 'test', 'kms', 'encrypt-file', 'key-001', input, '--context', 'purpose=backup', '--chunk-size', '1024']);
+
+      expect(client.post).toHaveBeenCalledWith('/v1/kms/generate-data-key', expect.objectContaining({
+        keyId: 'key-001',
+        context: { purpose: 'backup' },
+      }));
+      expect(client.get).toHaveBeenCalledWith('/v1/kms/keys/key-001');
+
+      vi.mocked(client.post).mockResolvedValueOnce({ keyId: 'key-001', plaintext: dataKey.toString('base64') });
+      await program.parseAsync(['node', 'test', 'kms', 'decrypt-file', `${input}.znve`, '-o', restored]);
+
+      expect(client.post).toHaveBeenLastCalledWith('/v1/kms/decrypt', {
+        keyId: 'key-001',
+        ciphertext: mockDataKeyResponse.ciphertext,
+        context: { purpose: 'backup' },
+      });
+      expect(fs.readFileSync(restored)).toEqual(fs.readFileSync(input));
+    });
+
+    it('should record the key version in the header', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { json } = await import('../../src/lib/output.js');
+      const input = path.join(dir, 'report.pdf');
+
+      vi.mocked(client.post).mockResolvedValueOnce({ ...mockDataKeyResponse, plaintext: dataKey.toString('base64') });
+      await program.parseAsync(['node', 'test', 'kms', 'encrypt-file', 'key-001', input, '--json']);
+
+      expect(json).toHaveBeenCalledWith(expect.objectContaining({
+        output: `${input}.znve`,
+        bytes: 5000,
+        keyId: 'key-001',
+        keyVersion: 'v1',
+      }));
+    });
+
+    it('should refuse to overwrite an existing output without --force', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { error } = await import('../../src/lib/output.js');
+      const input = path.join(dir, 'report.pdf');
+      fs.writeFileSync(`${input}.znve`, 'existing');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+
+      await expect(program.parseAsync(['node', 'test', 'kms', 'encrypt-file', 'key-001', input])).rejects.toThrow('exit');
+
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('already exists'));
+      expect(client.post).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+    });
+  });
+
+  describe('kms re-encrypt', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-kms-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should re-encrypt a raw ciphertext under another key', async () => {
+      const { client } = await import('../../src/lib/client.js');
+
+      vi.mocked(client.post)
+        .mockResolvedValueOnce(mockDecryptResponse)
+        .mockResolvedValueOnce({ keyId: 'key-002', ciphertext: 'bmV3Y2lwaGVydGV4dA==', encryptionContext: {} });
+      await program.parseAsync(['node', 'test', 'kms', 're-encrypt', 'Y2lwaGVydGV4dA==', '--key', 'key-001', '--destination-key', 'key-002', '-c', 'purpose=test']);
+
+      expect(client.post).toHaveBeenNthCalledWith(1, '/v1/kms/decrypt', {
+        keyId: 'key-001',
+        ciphertext: 'Y2lwaGVydGV4dA==',
+        context: { purpose: 'test' },
+      });
+      expect(client.post).toHaveBeenNthCalledWith(2, '/v1/kms/encrypt', {
+        keyId: 'key-002',
+        plaintext: mockDecryptResponse.plaintext,
+        context: { purpose: 'test' },
+      });
+      expect(consoleSpy).toHaveBeenCalledWith('bmV3Y2lwaGVydGV4dA==');
+    });
+
+    it('should require --key for a raw ciphertext', async () => {
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+
+      await expect(program.parseAsync(['node', 'test', 'kms', 're-encrypt', 'Y2lwaGVydGV4dA=='])).rejects.toThrow('exit');
+
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('--key is required'));
+      exitSpy.mockRestore();
+    });
+
+    it('should re-encrypt a directory of envelope files and report each file', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { json } = await import('../../src/lib/output.js');
+      const { encryptFile, decryptFile, readEnvelopeHeader } = await import('../../src/lib/envelope.js');
+      const oldKey = crypto.randomBytes(32);
+      const newKey = crypto.randomBytes(32);
+      const plaintext = crypto.randomBytes(3000);
+      const keyInfo = { keyId: 'key-001', encryptedKey: 'b2xkd3JhcHBlZA==', context: { purpose: 'backup' } };
+
+      fs.writeFileSync(path.join(dir, 'a.bin'), plaintext);
+      await encryptFile(path.join(dir, 'a.bin'), path.join(dir, 'a.bin.znve'), oldKey, { ...keyInfo, keyVersion: 'v0' }, { chunkSize: 1000 });
+      await encryptFile(path.join(dir, 'a.bin'), path.join(dir, 'b.bin.znve'), oldKey, { ...keyInfo, keyVersion: 'v1' });
+      fs.writeFileSync(path.join(dir, 'c.bin.znve'), 'not an envelope');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+
+      vi.mocked(client.post)
+        .mockResolvedValueOnce({ keyId: 'key-001', plaintext: oldKey.toString('base64') })
+        .mockResolvedValueOnce({ keyId: 'key-001', plaintext: newKey.toString('base64'), ciphertext: 'bmV3d3JhcHBlZA==' });
+      await expect(program.parseAsync(['node', 'test', 'kms', 're-encrypt', '--dir', dir, '--json'])).rejects.toThrow('exit');
+
+      expect(client.post).toHaveBeenNthCalledWith(1, '/v1/kms/decrypt', {
+        keyId: 'key-001',
+        ciphertext: 'b2xkd3JhcHBlZA==',
+        context: { purpose: 'backup' },
+      });
+      expect(json).toHaveBeenCalledWith(expect.objectContaining({
+        processed: 3,
+        reEncrypted: 1,
+        skipped: 1,
+        failed: 1,
+        files: [
+          expect.objectContaining({ file: path.join(dir, 'a.bin.znve'), status: 're-encrypted', fromVersion: 'v0', toVersion: 'v1' }),
+          expect.objectContaining({ file: path.join(dir, 'b.bin.znve'), status: 'skipped' }),
+          expect.objectContaining({ file: path.join(dir, 'c.bin.znve'), status: 'failed', error: expect.stringContaining('Not an envelope') }),
+        ],
+      }));
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      const { header } = await readEnvelopeHeader(path.join(dir, 'a.bin.znve'));
+      expect(header).toMatchObject({ keyId: 'key-001', keyVersion: 'v1', encryptedKey: 'bmV3d3JhcHBlZA==', chunkSize: 1000 });
+      await decryptFile(path.join(dir, 'a.bin.znve'), path.join(dir, 'restored.bin'), newKey);
+      expect(fs.readFileSync(path.join(dir, 'restored.bin'))).toEqual(plaintext);
+      exitSpy.mockRestore();
+    });
+  });
+
+  describe('kms sign / verify / get-public-key', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-kms-'));
+      file = path.join(dir, 'release.tar');
+      fs.writeFileSync(file, 'release contents');
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should sign the file digest', async () => {
+      const { client } = await import('../../src/lib/client.js');
+
+      vi.mocked(client.post).mockResolvedValueOnce({ keyId: 'key-001', signature: 'c2lnbmF0dXJl', signingAlgorithm: 'RSASSA_PSS_SHA_256' });
+      await program.parseAsync(['node', 'test', 'kms', 'sign', 'key-001', '--file', file]);
+
+      expect(client.post).toHaveBeenCalledWith('/v1/kms/sign', {
+        keyId: 'key-001',
+        message: crypto.createHash('sha256').update('release contents').digest('base64'),
+        messageType: 'DIGEST',
+        signingAlgorithm: 'RSASSA_PSS_SHA_256',
+      });
+      expect(consoleSpy).toHaveBeenCalledWith('c2lnbmF0dXJl');
+    });
+
+    it('should write a detached JWS', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const output = path.join(dir, 'release.tar.jws');
+
+      vi.mocked(client.post).mockResolvedValueOnce({ keyId: 'key-001', signature: 'c2lnbmF0dXJl', signingAlgorithm: 'RSASSA_PKCS1_V1_5_SHA_256' });
+      await program.parseAsync(['node', 'test', 'kms', 'sign', 'key-001', '--file', file, '--algorithm', 'RSASSA_PKCS1_V1_5_SHA_256', '--format', 'jws', '-o', output]);
+
+      const [header, payload, signature] = fs.readFileSync(output, 'utf-8').trim().split('.');
+      expect(JSON.parse(Buffer.from(header ?? '', 'base64url').toString())).toEqual({ alg: 'RS256', kid: 'key-001' });
+      expect(payload).toBe('');
+      expect(signature).toBe(Buffer.from('signature').toString('base64url'));
+    });
+
+    it('should require --output for raw signatures', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+
+      await expect(program.parseAsync(['node', 'test', 'kms', 'sign', 'key-001', '--file', file, '--format', 'raw'])).rejects.toThrow('exit');
+
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('--output'));
+      expect(client.post).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+    });
+
+    it('should exit 1 when the signature is not valid', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+
+      vi.mocked(client.post).mockResolvedValueOnce({ keyId: 'key-001', signatureValid: false, signingAlgorithm: 'RSASSA_PSS_SHA_256' });
+      await expect(program.parseAsync(['node', 'test', 'kms', 'verify', 'key-001', '--file', file, '--signature', 'c2lnbmF0dXJl'])).rejects.toThrow('exit');
+
+      expect(client.post).toHaveBeenCalledWith('/v1/kms/verify', expect.objectContaining({
+        signature: 'c2lnbmF0dXJl',
+        messageType: 'DIGEST',
+      }));
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('NOT valid'));
+      expect(exitSpy).toHaveBeenCalledWith(1);
+      exitSpy.mockRestore();
+    });
+
+    it('should export the public key as PEM', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const der = publicKey.export({ type: 'spki', format: 'der' });
+      const output = path.join(dir, 'key.pem');
+
+      vi.mocked(client.get).mockResolvedValueOnce({ keyId: 'key-001', publicKey: der.toString('base64'), keySpec: 'ECC_NIST_P256' });
+      await program.parseAsync(['node', 'test', 'kms', 'get-public-key', 'key-001', '-o', output]);
+
+      expect(client.get).toHaveBeenCalledWith('/v1/kms/keys/key-001/public-key');
+      expect(fs.readFileSync(output, 'utf-8')).toBe(publicKey.export({ type: 'spki', format: 'pem' }));
+    });
+  });
+
+  describe('kms key policies', () => {
+    it('should list attached policies', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { info } = await import('../../src/lib/output.js');
+
+      vi.mocked(client.get).mockResolvedValueOnce({
+        policies: [{ policyId: 'pol-1', policyName: 'kms-decrypt-only', effect: 'allow', attachedAt: new Date().toISOString() }],
+      });
+      await program.parseAsync(['node', 'test', 'kms', 'list-policies', 'key-001']);
+
+      expect(client.get).toHaveBeenCalledWith('/v1/kms/keys/key-001/policies');
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('kms-decrypt-only'));
+      expect(info).toHaveBeenCalledWith('Total: 1 policy/policies');
+    });
+
+    it('should attach and detach a policy', async () => {
+      const { client } = await import('../../src/lib/client.js');
+
+      await program.parseAsync(['node', 'test', 'kms', 'attach-policy', 'key-001', 'pol-1']);
+      await program.parseAsync(['node', 'test', 'kms', 'detach-policy', 'key-001', 'pol-1']);
+
+      expect(client.post).toHaveBeenCalledWith('/v1/kms/keys/key-001/policies/pol-1', {});
+      expect(client.delete).toHaveBeenCalledWith('/v1/kms/keys/key-001/policies/pol-1');
+    });
+  });
+
+  describe('kms grant', () => {
+    const grant = {
+      grantId: 'grant-1',
+      keyId: 'key-001',
+      granteePrincipal: 'role:ci-deployer',
+      operations: ['decrypt'],
+      constraints: { encryptionContextEquals: { app: 'billing' } },
+      createdAt: new Date().toISOString(),
+    };
+
+    it('should create a time-limited grant with context constraints', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { success } = await import('../../src/lib/output.js');
+
+      vi.mocked(client.post).mockResolvedValueOnce({ ...grant, expiresAt: new Date(Date.now() + 86_400_000).toISOString() });
+      await program.parseAsync([
+        'node', 'test', 'kms', 'grant', 'create', 'key-001',
+        '--principal', 'role:ci-deployer',
+        '--operations', 'Decrypt, generate-data-key',
+        '--expires', '7d',
+        '--context', 'app=billing',
+        '--context-subset', 'env=prod',
+      ]);
+
+      expect(client.post).toHaveBeenCalledWith('/v1/kms/keys/key-001/grants', {
+        granteePrincipal: 'role:ci-deployer',
+        operations: ['decrypt', 'generate-data-key'],
+        expiresAt: expect.any(String),
+        constraints: {
+          encryptionContextEquals: { app: 'billing' },
+          encryptionContextSubset: { env: 'prod' },
+        },
+      });
+      const body = vi.mocked(client.post).mock.calls[0]?.[1] as { expiresAt: string };
+      expect(new Date(body.expiresAt).getTime() - Date.now()).toBeGreaterThan(6.9 * 86_400_000);
+      expect(success).toHaveBeenCalledWith('Grant created');
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('app=billing'));
+    });
+
+    it('should reject unknown operations', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+
+      await expect(program.parseAsync([
+        'node', 'test', 'kms', 'grant', 'create', 'key-001', '--principal', 'user:bob', '--operations', 'decrypt,delete',
+      ])).rejects.toThrow('exit');
+
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Invalid operations: delete'));
+      expect(client.post).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+    });
+
+    it('should hide expired grants unless --all is given', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { json } = await import('../../src/lib/output.js');
+      const expired = { ...grant, grantId: 'grant-0', expiresAt: new Date(Date.now() - 1000).toISOString() };
+
+      vi.mocked(client.get).mockResolvedValueOnce({ grants: [expired, grant] });
+      await program.parseAsync(['node', 'test', 'kms', 'grant', 'list', 'key-001', '--json']);
+      expect(json).toHaveBeenLastCalledWith([grant]);
+
+      vi.mocked(client.get).mockResolvedValueOnce({ grants: [expired, grant] });
+      await program.parseAsync(['node', 'test', 'kms', 'grant', 'list', 'key-001', '--all', '--json']);
+      expect(json).toHaveBeenLastCalledWith([expired, grant]);
+      expect(client.get).toHaveBeenCalledWith('/v1/kms/keys/key-001/grants');
+    });
+
+    it('should revoke a grant', async () => {
+      const { client } = await import('../../src/lib/client.js');
+
+      await program.parseAsync(['node', 'test', 'kms', 'grant', 'revoke', 'key-001', 'grant-1', '--force']);
+
+      expect(client.delete).toHaveBeenCalledWith('/v1/kms/keys/key-001/grants/grant-1');
+    });
+  });
+
+  describe('kms import-key-material', () => {
+    let dir: string;
+    let materialFile: string;
+    const material = crypto.randomBytes(32);
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-kms-'));
+      materialFile = path.join(dir, 'key.bin');
+      fs.writeFileSync(materialFile, material);
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should wrap the material with RSA-OAEP-SHA256 and wait for the key to be enabled', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { success } = await import('../../src/lib/output.js');
+      const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+      vi.mocked(client.get)
+        .mockResolvedValueOnce({ keyMetadata: { ...mockKeyDetails, keyState: 'PendingImport', origin: 'EXTERNAL' } })
+        .mockResolvedValueOnce({ keyMetadata: { ...mockKeyDetails, origin: 'EXTERNAL' } });
+      vi.mocked(client.post)
+        .mockResolvedValueOnce({
+          keyId: 'key-001',
+          publicKey: publicKey.export({ type: 'spki', format: 'der' }).toString('base64'),
+          importToken: 'aW1wb3J0LXRva2Vu',
+          parametersValidTo: new Date(Date.now() + 86_400_000).toISOString(),
+        })
+        .mockResolvedValueOnce({});
+
+      await program.parseAsync(['node', 'test', 'kms', 'import-key-material', 'key-001', '--file', materialFile, '--expires', '365d']);
+
+      expect(client.post).toHaveBeenNthCalledWith(1, '/v1/kms/keys/key-001/import-parameters', {
+        wrappingAlgorithm: 'RSAES_OAEP_SHA_256',
+        wrappingKeySpec: 'RSA_4096',
+      });
+      const body = vi.mocked(client.post).mock.calls[1]?.[1] as { importToken: string; encryptedKeyMaterial: string; expirationModel: string; validTo: string };
+      expect(vi.mocked(client.post).mock.calls[1]?.[0]).toBe('/v1/kms/keys/key-001/import');
+      expect(body.importToken).toBe('aW1wb3J0LXRva2Vu');
+      expect(body.expirationModel).toBe('KEY_MATERIAL_EXPIRES');
+      expect(new Date(body.validTo).getTime()).toBeGreaterThan(Date.now() + 364 * 86_400_000);
+
+      const unwrapped = crypto.privateDecrypt(
+        { key: privateKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+        Buffer.from(body.encryptedKeyMaterial, 'base64')
+      );
+      expect(unwrapped).toEqual(material);
+      expect(success).toHaveBeenCalledWith('Key material imported');
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Pending Import -> Enabled'));
+    });
+
+    it('should refuse keys that are not pending import', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+
+      await expect(program.parseAsync(['node', 'test', 'kms', 'import-key-material', 'key-001', '--file', materialFile])).rejects.toThrow('exit');
+
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Only keys created with --origin EXTERNAL'));
+      expect(client.post).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+    });
+
+    it('should check the material length against the key spec', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => { throw new Error('exit'); });
+      fs.writeFileSync(materialFile, material.toString('hex'));
+
+      vi.mocked(client.get).mockResolvedValueOnce({ keyMetadata: { ...mockKeyDetails, keyState: 'PendingImport', keySpec: 'AES_128' } });
+      await expect(program.parseAsync([
+        'node', 'test', 'kms', 'import-key-material', 'key-001', '--file', materialFile, '--encoding', 'hex',
+      ])).rejects.toThrow('exit');
+
+      expect(error).toHaveBeenCalledWith('AES_128 key material must be 16 bytes, got 32');
+      expect(client.post).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+    });
+  });
+
   describe('kms rotate', () => {
     it('should rotate key', async () => {
       const { client } = await import('../../src/lib/client.js');
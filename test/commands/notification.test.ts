@@ -132,6 +132,22 @@ describe('notification commands', () => {
 
       expect(json).toHaveBeenCalledWith(mockConfig.config);
     });
+
+    it('should exit with the not-found code when nothing is configured', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { info } = await import('../../src/lib/output.js');
+      const { VaultApiError, EXIT_CODES } = await import('../../src/lib/errors.js');
+      vi.mocked(client.get).mockRejectedValueOnce(new VaultApiError('Not Found', { status: 404 }));
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      await expect(program.parseAsync(['node', 'test', 'notification', 'config'])).rejects.toThrow('process.exit');
+
+      expect(info).toHaveBeenCalledWith('No SMTP configuration found. Use "znvault notification setup" to configure.');
+      expect(exitSpy).toHaveBeenCalledWith(EXIT_CODES.NOT_FOUND);
+      exitSpy.mockRestore();
+    });
   });
 
   describe('notification setup', () => {
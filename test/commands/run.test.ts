@@ -0,0 +1,155 @@
+// Path: znvault-cli/test/commands/run.test.ts
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Command } from 'commander';
+import { EventEmitter } from 'node:events';
+
+// Mock dependencies
+vi.mock('ora', () => ({
+  default: () => ({
+    start: () => ({ stop: vi.fn(), succeed: vi.fn(), fail: vi.fn() }),
+  }),
+}));
+
+class MockChild extends EventEmitter {
+  kill = vi.fn();
+}
+
+let lastChild: MockChild;
+
+vi.mock('node:child_process', () => ({
+  spawn: vi.fn().mockImplementation(() => {
+    lastChild = new MockChild();
+    return lastChild;
+  }),
+}));
+
+const mockSecretList = [
+  { id: 'secret-db', alias: 'db/prod/credentials', tenant: 'acme', type: 'credential', version: 3 },
+];
+
+const mockDecrypted: Record<string, unknown> = {
+  'secret-db': {
+    id: 'secret-db',
+    alias: 'db/prod/credentials',
+    tenant: 'acme',
+    type: 'credential',
+    version: 3,
+    data: { username: 'app', password: 's3cret' },
+  },
+  'secret-token': {
+    id: 'secret-token',
+    alias: 'api/token',
+    tenant: 'acme',
+    type: 'opaque',
+    version: 1,
+    data: { text: 'tok-123' },
+  },
+};
+
+vi.mock('../../src/lib/client.js', () => ({
+  client: {
+    get: vi.fn().mockImplementation(() => Promise.resolve(mockSecretList)),
+    post: vi.fn().mockImplementation((path: string) => {
+      const id = path.split('/')[3];
+      return Promise.resolve(mockDecrypted[id]);
+    }),
+    configure: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/lib/output.js', () => ({
+  success: vi.fn(),
+  error: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  json: vi.fn(),
+}));
+
+describe('run command', () => {
+  let program: Command;
+  let exitSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    program = new Command();
+    program.exitOverride();
+
+    const { registerRunCommands } = await import('../../src/commands/run.js');
+    registerRunCommands(program);
+
+    // Mock process.exit
+    exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+  });
+
+  afterEach(() => {
+    exitSpy.mockRestore();
+    vi.clearAllMocks();
+  });
+
+  it('should inject mapped secret fields into the child environment', async () => {
+    const { spawn } = await import('node:child_process');
+
+    await program.parseAsync([
+      'node', 'test', 'run',
+      '-e', 'DB_USER=db/prod/credentials#username',
+      '-e', 'DB_PASSWORD=db/prod/credentials#password',
+      '-e', 'API_TOKEN=secret-token',
+      '--', 'node', 'server.js', '--port', '8080',
+    ]);
+
+    expect(spawn).toHaveBeenCalledWith('node', ['server.js', '--port', '8080'], expect.objectContaining({
+      stdio: 'inherit',
+      env: expect.objectContaining({
+        DB_USER: 'app',
+        DB_PASSWORD: 's3cret',
+        API_TOKEN: 'tok-123',
+      }),
+    }));
+  });
+
+  it('should decrypt each secret only once', async () => {
+    const { client } = await import('../../src/lib/client.js');
+
+    await program.parseAsync([
+      'node', 'test', 'run',
+      '-e', 'DB_USER=db/prod/credentials#username',
+      '-e', 'DB_PASSWORD=db/prod/credentials#password',
+      '--', 'true',
+    ]);
+
+    expect(client.post).toHaveBeenCalledTimes(1);
+    expect(client.post).toHaveBeenCalledWith('/v1/secrets/secret-db/decrypt', {});
+  });
+
+  it('should pass the child exit code through', async () => {
+    await program.parseAsync(['node', 'test', 'run', '-e', 'API_TOKEN=secret-token', '--', 'false']);
+
+    expect(() => lastChild.emit('exit', 3, null)).toThrow('process.exit');
+
+    expect(exitSpy).toHaveBeenCalledWith(3);
+  });
+
+  it('should reject invalid mappings', async () => {
+    const { error } = await import('../../src/lib/output.js');
+
+    await expect(
+      program.parseAsync(['node', 'test', 'run', '-e', '1BAD=secret-token', '--', 'true'])
+    ).rejects.toThrow('process.exit');
+
+    expect(error).toHaveBeenCalledWith('Invalid environment variable name: 1BAD');
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should fail when a field does not exist', async () => {
+    const { error } = await import('../../src/lib/output.js');
+
+    await expect(
+      program.parseAsync(['node', 'test', 'run', '-e', 'X=db/prod/credentials#missing', '--', 'true'])
+    ).rejects.toThrow('process.exit');
+
+    expect(error).toHaveBeenCalledWith('Field "missing" not found in secret db/prod/credentials');
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+});
@@ -2,6 +2,9 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Command } from 'commander';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 
 // Mock dependencies
 vi.mock('ora', () => ({
@@ -62,7 +65,23 @@ const mockDecryptedSecret = {
   data: { apiKey: 'sk-test-123', endpoint: 'https://api.example.com' },
 };
 
+const profileSecrets: Record<string, Record<string, Record<string, unknown>>> = {
+  staging: { 'app/db': { user: 'app', password: 'staging-pw' }, 'app/cache': { url: 'redis://a' } },
+  prod: { 'app/db': { user: 'app', password: 'prod-pw' }, 'app/cache': { url: 'redis://a' } },
+};
+
+function profileClient(profile: string) {
+  const secrets = profileSecrets[profile];
+  return {
+    get: vi.fn().mockResolvedValue(Object.keys(secrets).map((alias, i) => ({ id: `id-${String(i)}`, alias, tenant: 'acme' }))),
+    post: vi.fn().mockImplementation((path: string) => Promise.resolve({
+      data: Object.values(secrets)[Number(path.split('/')[3].slice(3))],
+    })),
+  };
+}
+
 vi.mock('../../src/lib/client.js', () => ({
+  withProfile: vi.fn().mockImplementation((profile: string, fn: (c: unknown) => Promise<unknown>) => fn(profileClient(profile))),
   client: {
     get: vi.fn().mockImplementation((path: string) => {
       if (path.includes('/v1/secrets?')) return Promise.resolve(mockSecrets);
@@ -75,6 +94,7 @@ vi.mock('../../src/lib/client.js', () => ({
       if (path.includes('/rotate')) return Promise.resolve({ ...mockSecretMetadata, version: 2 });
       return Promise.resolve(mockSecretMetadata);
     }),
+    put: vi.fn().mockResolvedValue(mockSecretMetadata),
     patch: vi.fn().mockResolvedValue(mockSecretMetadata),
     delete: vi.fn().mockResolvedValue(undefined),
     configure: vi.fn(),
@@ -101,6 +121,8 @@ describe('secret commands', () => {
   beforeEach(async () => {
     program = new Command();
     program.exitOverride();
+    // Global option from src/index.ts, repeated by `secret diff` to compare profiles
+    program.option('--profile <name>', 'Use a specific configuration profile');
 
     const { registerSecretCommands } = await import('../../src/commands/secret.js');
     registerSecretCommands(program);
@@ -149,6 +171,159 @@ describe('secret commands', () => {
     });
   });
 
+  describe('secret expiring', () => {
+    let exitSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      exitSpy = vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+        throw new Error(`process.exit(${String(code)})`);
+      }) as never);
+    });
+
+    afterEach(() => {
+      exitSpy.mockRestore();
+    });
+
+    it('should exit 0 when nothing needs attention', async () => {
+      await expect(
+        program.parseAsync(['node', 'test', 'secret', 'expiring'])
+      ).rejects.toThrow('process.exit(0)');
+
+      expect(consoleSpy).toHaveBeenCalledWith('SECRETS OK - no secrets expiring or overdue for rotation');
+    });
+
+    it('should exit 2 for expired secrets', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { json } = await import('../../src/lib/output.js');
+      vi.mocked(client.get).mockResolvedValueOnce([
+        { ...mockSecrets[0], expiresAt: new Date(Date.now() - 86400000).toISOString() },
+        mockSecrets[1],
+      ]);
+
+      await expect(
+        program.parseAsync(['node', 'test', 'secret', 'expiring', '--tenant', 'acme', '--json'])
+      ).rejects.toThrow('process.exit(2)');
+
+      expect(client.get).toHaveBeenCalledWith('/v1/secrets?tenant=acme');
+      expect(json).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'critical',
+        secrets: [expect.objectContaining({ alias: 'web/prod/api-key', urgency: 'expired' })],
+      }));
+    });
+
+    it('should exit 1 for secrets overdue for rotation', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      vi.mocked(client.get).mockResolvedValueOnce([
+        { ...mockSecrets[0], updatedAt: new Date(Date.now() - 100 * 86400000).toISOString() },
+      ]);
+
+      await expect(
+        program.parseAsync(['node', 'test', 'secret', 'expiring'])
+      ).rejects.toThrow('process.exit(1)');
+
+      expect(client.post).not.toHaveBeenCalled();
+    });
+
+    it('should exit 3 when the check cannot run', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { error } = await import('../../src/lib/output.js');
+      vi.mocked(client.get).mockRejectedValueOnce(new Error('connection refused'));
+
+      await expect(
+        program.parseAsync(['node', 'test', 'secret', 'expiring'])
+      ).rejects.toThrow('process.exit(3)');
+
+      expect(error).toHaveBeenCalledWith('SECRETS UNKNOWN - connection refused');
+    });
+  });
+
+  describe('secret diff', () => {
+    it('should diff the current version against the previous one with masked values', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      vi.mocked(client.get).mockResolvedValueOnce({ ...mockSecretMetadata, version: 5 });
+      vi.mocked(client.post)
+        .mockResolvedValueOnce({ version: 4, data: { apiKey: 'sk-old', endpoint: 'https://api.example.com' } })
+        .mockResolvedValueOnce({ version: 5, data: { apiKey: 'sk-new', endpoint: 'https://api.example.com', region: 'eu' } });
+
+      await program.parseAsync(['node', 'test', 'secret', 'diff', 'secret-1']);
+
+      expect(client.post).toHaveBeenCalledWith('/v1/secrets/secret-1/decrypt', { version: 4 });
+      expect(client.post).toHaveBeenCalledWith('/v1/secrets/secret-1/decrypt', { version: 5 });
+      const printed = consoleSpy.mock.calls.map(c => String(c[0])).join('\n');
+      expect(printed).toContain('apiKey: ******** -> ********');
+      expect(printed).toContain('region: ********');
+      expect(printed).not.toContain('sk-');
+    });
+
+    it('should reveal values with --show-values', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { json } = await import('../../src/lib/output.js');
+      vi.mocked(client.post)
+        .mockResolvedValueOnce({ version: 3, data: { apiKey: 'sk-v3' } })
+        .mockResolvedValueOnce({ version: 5, data: { apiKey: 'sk-v5' } });
+
+      await program.parseAsync(['node', 'test', 'secret', 'diff', 'secret-1', '--from', 'v3', '--to', 'v5', '--show-values', '--json']);
+
+      expect(json).toHaveBeenCalledWith(expect.objectContaining({
+        from: 3,
+        to: 5,
+        changes: [{ key: 'apiKey', change: 'changed', from: 'sk-v3', to: 'sk-v5' }],
+      }));
+    });
+
+    it('should fail when the server returns another version', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+      vi.mocked(client.get).mockResolvedValueOnce({ ...mockSecretMetadata, version: 5 });
+      vi.mocked(client.post)
+        .mockResolvedValueOnce({ ...mockDecryptedSecret, version: 5 })
+        .mockResolvedValueOnce({ ...mockDecryptedSecret, version: 5 });
+
+      await expect(
+        program.parseAsync(['node', 'test', 'secret', 'diff', 'secret-1'])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith(expect.stringContaining('Server returned v5 of web/prod/api-key instead of v4'));
+      exitSpy.mockRestore();
+    });
+
+    it('should compare secrets across two profiles by hash', async () => {
+      const { withProfile } = await import('../../src/lib/client.js');
+      const { json } = await import('../../src/lib/output.js');
+
+      await program.parseAsync(['node', 'test', 'secret', 'diff', '--profile', 'staging', '--profile', 'prod', '--alias-prefix', 'app/', '--json']);
+
+      expect(withProfile).toHaveBeenCalledWith('staging', expect.any(Function));
+      expect(withProfile).toHaveBeenCalledWith('prod', expect.any(Function));
+      expect(json).toHaveBeenCalledWith({
+        left: 'staging',
+        right: 'prod',
+        aliasPrefix: 'app/',
+        secrets: [
+          { alias: 'app/cache', status: 'same', onlyLeft: [], onlyRight: [], different: [] },
+          { alias: 'app/db', status: 'different', onlyLeft: [], onlyRight: [], different: ['password'] },
+        ],
+      });
+    });
+
+    it('should require an alias prefix when comparing profiles', async () => {
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      await expect(
+        program.parseAsync(['node', 'test', 'secret', 'diff', '--profile', 'staging', '--profile', 'prod'])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith('--alias-prefix is required when comparing environments');
+      exitSpy.mockRestore();
+    });
+  });
+
   describe('secret get', () => {
     it('should get secret metadata', async () => {
       const { client } = await import('../../src/lib/client.js');
@@ -215,6 +390,68 @@ describe('secret commands', () => {
     });
   });
 
+  describe('secret rollback', () => {
+    beforeEach(async () => {
+      const { client } = await import('../../src/lib/client.js');
+      vi.mocked(client.get).mockResolvedValueOnce({ ...mockSecretMetadata, version: 5, tags: ['production'] });
+      vi.mocked(client.post)
+        .mockResolvedValueOnce({ version: 3, data: { apiKey: 'sk-v3' } })
+        .mockResolvedValueOnce({ version: 5, data: { apiKey: 'sk-v5' } });
+    });
+
+    it('should write the old version as a new one without touching tags', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { warn } = await import('../../src/lib/output.js');
+
+      await program.parseAsync(['node', 'test', 'secret', 'rollback', 'secret-1', '--to-version', '3', '--reason', 'bad rotation']);
+
+      expect(client.post).toHaveBeenCalledWith('/v1/secrets/secret-1/decrypt', { version: 3 });
+      expect(client.put).toHaveBeenCalledWith('/v1/secrets/secret-1', { data: { apiKey: 'sk-v3' } });
+      expect(warn).toHaveBeenCalledWith('--reason is not recorded: the server has no field for the reason of a secret update');
+    });
+
+    it('should only show the diff on --dry-run', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const inquirer = await import('inquirer');
+
+      await program.parseAsync(['node', 'test', 'secret', 'rollback', 'secret-1', '--to-version', 'v3', '--dry-run']);
+
+      expect(inquirer.default.prompt).not.toHaveBeenCalled();
+      expect(client.put).not.toHaveBeenCalled();
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('apiKey: ******** -> ********'));
+    });
+
+    it('should not roll back when the prompt is declined', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const inquirer = await import('inquirer');
+      vi.mocked(inquirer.default.prompt).mockResolvedValueOnce({ confirm: false });
+
+      await program.parseAsync(['node', 'test', 'secret', 'rollback', 'secret-1', '--to-version', '3']);
+
+      expect(client.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('secret rollback version check', () => {
+    it('should refuse to roll back when the server returns another version', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+      vi.mocked(client.get).mockResolvedValueOnce({ ...mockSecretMetadata, version: 5 });
+      vi.mocked(client.post)
+        .mockResolvedValueOnce({ ...mockDecryptedSecret, version: 5 })
+        .mockResolvedValueOnce({ ...mockDecryptedSecret, version: 5 });
+
+      await expect(
+        program.parseAsync(['node', 'test', 'secret', 'rollback', 'secret-1', '--to-version', '3', '--force'])
+      ).rejects.toThrow('process.exit');
+
+      expect(client.put).not.toHaveBeenCalled();
+      exitSpy.mockRestore();
+    });
+  });
+
   describe('secret history', () => {
     it('should show secret history', async () => {
       const { client } = await import('../../src/lib/client.js');
@@ -224,4 +461,112 @@ describe('secret commands', () => {
       expect(client.get).toHaveBeenCalledWith('/v1/secrets/secret-1/history');
     });
   });
+
+  describe('secret render', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-render-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should render secret fields into a 0600 file', async () => {
+      const templatePath = path.join(tmpDir, 'app.properties.tpl');
+      const outputPath = path.join(tmpDir, 'app.properties');
+      fs.writeFileSync(templatePath, 'api.key={{ secret "web/prod/api-key" "apiKey" }}\n');
+
+      await program.parseAsync(['node', 'test', 'secret', 'render', templatePath, '-o', outputPath]);
+
+      expect(fs.readFileSync(outputPath, 'utf-8')).toBe('api.key=sk-test-123\n');
+      expect(fs.statSync(outputPath).mode & 0o777).toBe(0o600);
+      expect(fs.readdirSync(tmpDir)).toEqual(['app.properties', 'app.properties.tpl']);
+    });
+
+    it('should reject --watch without --output', async () => {
+      const { error } = await import('../../src/lib/output.js');
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+      const templatePath = path.join(tmpDir, 'app.tpl');
+      fs.writeFileSync(templatePath, 'x={{ secret "secret-1" }}');
+
+      await expect(
+        program.parseAsync(['node', 'test', 'secret', 'render', templatePath, '--watch'])
+      ).rejects.toThrow('process.exit');
+
+      expect(error).toHaveBeenCalledWith('--watch requires --output');
+      exitSpy.mockRestore();
+    });
+  });
+
+  describe('secret export/import', () => {
+    let tmpDir: string;
+    let bundlePath: string;
+
+    beforeEach(async () => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-bundle-'));
+      bundlePath = path.join(tmpDir, 'prod.bundle');
+      await program.parseAsync([
+        'node', 'test', 'secret', 'export', '--alias-prefix', 'web/', '-o', bundlePath, '--passphrase', 'pass-123',
+      ]);
+      vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should write an encrypted 0600 bundle', () => {
+      const content = fs.readFileSync(bundlePath, 'utf-8');
+
+      expect(JSON.parse(content)).toMatchObject({ format: 'znvault-secret-bundle', count: 2 });
+      expect(content).not.toContain('sk-test-123');
+      expect(fs.statSync(bundlePath).mode & 0o777).toBe(0o600);
+    });
+
+    it('should plan creates in a new tenant on --dry-run', async () => {
+      const { client } = await import('../../src/lib/client.js');
+      const { json } = await import('../../src/lib/output.js');
+
+      await program.parseAsync([
+        'node', 'test', 'secret', 'import', bundlePath, '--passphrase', 'pass-123', '-t', 'globex', '--dry-run', '--json',
+      ]);
+
+      expect(json).toHaveBeenCalledWith({
+        dryRun: true,
+        results: [
+          { alias: 'web/prod/api-key', tenant: 'globex', action: 'create', status: 'planned' },
+          { alias: 'db/prod/credentials', tenant: 'globex', action: 'create', status: 'planned' },
+        ],
+      });
+      expect(client.post).not.toHaveBeenCalled();
+    });
+
+    it('should rotate existing secrets with --on-conflict new-version', async () => {
+      const { client } = await import('../../src/lib/client.js');
+
+      await program.parseAsync([
+        'node', 'test', 'secret', 'import', bundlePath, '--passphrase', 'pass-123', '--on-conflict', 'new-version',
+      ]);
+
+      expect(client.post).toHaveBeenCalledWith('/v1/secrets/secret-1/rotate', { data: mockDecryptedSecret.data });
+      expect(client.post).toHaveBeenCalledWith('/v1/secrets/secret-2/rotate', { data: mockDecryptedSecret.data });
+    });
+
+    it('should overwrite existing secrets with --on-conflict overwrite', async () => {
+      const { client } = await import('../../src/lib/client.js');
+
+      await program.parseAsync([
+        'node', 'test', 'secret', 'import', bundlePath, '--passphrase', 'pass-123', '--on-conflict', 'overwrite',
+      ]);
+
+      expect(client.put).toHaveBeenCalledWith('/v1/secrets/secret-1', {
+        data: mockDecryptedSecret.data,
+        tags: ['production'],
+      });
+    });
+  });
 });
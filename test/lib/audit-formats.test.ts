@@ -0,0 +1,120 @@
+// Path: znvault-cli/test/lib/audit-formats.test.ts
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  toCef,
+  toLeef,
+  toOcsf,
+  toSyslog,
+  toCsv,
+  formatSiemEvents,
+  readCheckpoint,
+  writeCheckpoint,
+} from '../../src/lib/audit-formats.js';
+import type { AuditEntry } from '../../src/types/index.js';
+
+const context = { host: 'vault.example.com' };
+
+const entry: AuditEntry = {
+  id: 42,
+  ts: '2026-03-01T12:00:00.000Z',
+  clientCn: 'alice',
+  action: 'SECRET_READ',
+  resource: 'alias:db/prod|primary',
+  statusCode: 200,
+  tenantId: 'acme',
+  ip: '10.0.0.5',
+};
+
+const denied: AuditEntry = { ...entry, id: 43, action: 'SECRET_DELETE', statusCode: 403, resource: 'a=b' };
+
+describe('audit formats', () => {
+  it('should render CEF with escaped header and extension values', () => {
+    const line = toCef(denied, context);
+
+    expect(line).toMatch(/^CEF:0\|ZnVault\|znvault-cli\|[^|]+\|SECRET_DELETE\|SECRET_DELETE\|6\|/);
+    expect(line).toContain('request=a\\=b');
+    expect(line).toContain('outcome=failure');
+    expect(line).toContain('rt=1772366400000');
+    expect(line).toContain('dvchost=vault.example.com');
+  });
+
+  it('should render LEEF with tab separated attributes', () => {
+    const line = toLeef(entry, context);
+    const [header, body] = [line.split('|').slice(0, 5).join('|'), line.split('|').slice(5).join('|')];
+
+    expect(header).toMatch(/^LEEF:1\.0\|ZnVault\|znvault-cli\|[^|]+\|SECRET_READ$/);
+    expect(body.split('\t')).toContain('usrName=alice');
+    expect(body.split('\t')).toContain('resource=alias:db/prod|primary');
+  });
+
+  it('should map entries to OCSF API Activity events', () => {
+    expect(toOcsf(entry, context)).toMatchObject({
+      class_uid: 6003,
+      activity_id: 2,
+      type_uid: 600302,
+      status: 'Success',
+      time: 1772366400000,
+      actor: { user: { name: 'alice' } },
+      src_endpoint: { ip: '10.0.0.5' },
+    });
+    expect(toOcsf(denied, context)).toMatchObject({ activity_id: 4, status_id: 2, severity_id: 3 });
+  });
+
+  it('should render RFC 5424 syslog with structured data', () => {
+    expect(toSyslog(entry, context)).toBe(
+      '<110>1 2026-03-01T12:00:00.000Z vault.example.com znvault - SECRET_READ ' +
+      '[audit@32473 id="42" user="alice" action="SECRET_READ" status="200" resource="alias:db/prod|primary" ip="10.0.0.5" tenant="acme"] ' +
+      'SECRET_READ alias:db/prod|primary success (200)'
+    );
+    expect(toSyslog({ ...denied, resource: 'x]"y' }, context)).toContain('resource="x\\]\\"y"');
+  });
+
+  it('should quote CSV values when needed', () => {
+    expect(toCsv([{ ...entry, resource: 'a,"b"' }]).split('\n')[1]).toBe(
+      '42,2026-03-01T12:00:00.000Z,alice,SECRET_READ,"a,""b""",200,acme,10.0.0.5'
+    );
+  });
+
+  it('should render one event per line', () => {
+    const lines = formatSiemEvents([entry, denied], 'ocsf', context).trimEnd().split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect((JSON.parse(lines[1]) as { metadata: { uid: string } }).metadata.uid).toBe('43');
+    expect(formatSiemEvents([], 'cef', context)).toBe('');
+  });
+});
+
+describe('export checkpoints', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-checkpoint-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return undefined before the first export', () => {
+    expect(readCheckpoint(path.join(dir, 'audit.checkpoint'))).toBeUndefined();
+  });
+
+  it('should record the newest exported entry', () => {
+    const file = path.join(dir, 'audit.checkpoint');
+    writeCheckpoint(file, [denied, entry]);
+
+    expect(readCheckpoint(file)).toMatchObject({ version: 1, lastId: 43, lastTs: denied.ts });
+    expect(fs.readdirSync(dir)).toEqual(['audit.checkpoint']);
+  });
+
+  it('should reject a malformed checkpoint', () => {
+    const file = path.join(dir, 'audit.checkpoint');
+    fs.writeFileSync(file, '{"lastId":"x"}');
+
+    expect(() => readCheckpoint(file)).toThrow('Invalid checkpoint file');
+  });
+});
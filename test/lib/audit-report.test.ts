@@ -0,0 +1,106 @@
+// Path: znvault-cli/test/lib/audit-report.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildAuditReport,
+  isAfterHours,
+  parseWorkHours,
+  renderAuditReportHtml,
+} from '../../src/lib/audit-report.js';
+import type { AuditEntry } from '../../src/types/index.js';
+
+let nextId = 1;
+
+// Local time, so after-hours checks do not depend on the machine's timezone
+function entry(day: number, hour: number, fields: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    id: nextId++,
+    ts: new Date(2026, 2, day, hour, 30).toISOString(),   // March 2026: the 2nd is a Monday
+    clientCn: 'alice',
+    action: 'SECRET_READ',
+    resource: 'secret-1',
+    statusCode: 200,
+    tenantId: 'acme',
+    ip: '10.0.0.1',
+    ...fields,
+  };
+}
+
+const range = { from: new Date(2026, 2, 1), to: new Date(2026, 2, 31) };
+
+describe('audit report', () => {
+  it('should parse working hours', () => {
+    expect(parseWorkHours('08-18')).toEqual({ start: 8, end: 18 });
+    expect(parseWorkHours('0-24')).toEqual({ start: 0, end: 24 });
+    expect(() => parseWorkHours('18-08')).toThrow('Invalid working hours');
+    expect(() => parseWorkHours('9am-5pm')).toThrow('Invalid working hours');
+  });
+
+  it('should treat nights and weekends as after hours', () => {
+    expect(isAfterHours(entry(2, 10))).toBe(false);
+    expect(isAfterHours(entry(2, 7))).toBe(true);
+    expect(isAfterHours(entry(2, 18))).toBe(true);
+    expect(isAfterHours(entry(7, 10))).toBe(true);    // Saturday
+    expect(isAfterHours(entry(2, 7), { start: 6, end: 20 })).toBe(false);
+  });
+
+  it('should rank users, actions and tenants with failure rates', () => {
+    const report = buildAuditReport([
+      entry(2, 9),
+      entry(2, 10),
+      entry(2, 11, { action: 'SECRET_DELETE', statusCode: 403 }),
+      entry(3, 9, { clientCn: 'bob', tenantId: 'globex' }),
+    ], range);
+
+    expect(report).toMatchObject({ totalEntries: 4, failures: 1, failureRate: 0.25, uniqueUsers: 2, uniqueIps: 1 });
+    expect(report.topUsers[0]).toEqual({ name: 'alice', count: 3, failures: 1, failureRate: 1 / 3 });
+    expect(report.topActions.map(a => a.name)).toEqual(['SECRET_READ', 'SECRET_DELETE']);
+    expect(report.topActions[1].failureRate).toBe(1);
+    expect(report.tenants.map(t => [t.name, t.count])).toEqual([['acme', 3], ['globex', 1]]);
+  });
+
+  it('should limit rankings to --top rows', () => {
+    const entries = ['a', 'b', 'c'].map(user => entry(2, 10, { clientCn: user }));
+    expect(buildAuditReport(entries, { ...range, top: 2 }).topUsers).toHaveLength(2);
+  });
+
+  it('should flag failing and after-hours source IPs', () => {
+    const entries = [
+      ...Array.from({ length: 6 }, () => entry(2, 10, { ip: '203.0.113.9', clientCn: 'mallory', statusCode: 401 })),
+      entry(2, 23, { ip: '198.51.100.4', clientCn: 'bob' }),
+      entry(2, 10),
+    ];
+    const report = buildAuditReport(entries, range);
+
+    expect(report.unusualIps).toEqual([
+      { ip: '203.0.113.9', count: 6, failures: 6, users: ['mallory'], reasons: ['100% failed'] },
+      { ip: '198.51.100.4', count: 1, failures: 0, users: ['bob'], reasons: ['only after hours'] },
+    ]);
+    expect(report.afterHours.count).toBe(1);
+    expect(report.afterHours.users).toEqual([{ name: 'bob', count: 1, failures: 0, failureRate: 0 }]);
+
+    const allDay = buildAuditReport(entries, { ...range, workHours: { start: 0, end: 24 } });
+    expect(allDay.unusualIps.map(ip => ip.ip)).toEqual(['203.0.113.9']);
+  });
+
+  it('should flag rarely seen IPs once there is enough traffic', () => {
+    const entries = [
+      ...Array.from({ length: 150 }, () => entry(2, 10)),
+      entry(2, 11, { ip: '192.0.2.77' }),
+    ];
+
+    expect(buildAuditReport(entries, range).unusualIps).toEqual([
+      expect.objectContaining({ ip: '192.0.2.77', reasons: ['rarely seen'] }),
+    ]);
+    expect(buildAuditReport(entries.slice(140), range).unusualIps).toEqual([]);
+  });
+
+  it('should render escaped HTML', () => {
+    const html = renderAuditReportHtml(buildAuditReport([entry(2, 10, { clientCn: '<script>' })], range));
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('No unusual source IPs');
+  });
+});
@@ -0,0 +1,58 @@
+// Path: znvault-cli/test/lib/audit-tail.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../src/lib/mode.js', () => ({
+  listAudit: vi.fn(),
+}));
+
+import { AuditCursor, formatAuditLine } from '../../src/lib/audit-tail.js';
+import type { AuditEntry } from '../../src/types/index.js';
+
+function entry(id: number, ts: string): AuditEntry {
+  return { id, ts, clientCn: 'alice', action: 'SECRET_READ', resource: 'secret-1', statusCode: 200 };
+}
+
+describe('AuditCursor', () => {
+  it('should return the backlog oldest first, then only new entries', async () => {
+    const listAudit = vi.fn()
+      // Newest first, like the API
+      .mockResolvedValueOnce([entry(2, '2026-01-01T00:00:02Z'), entry(1, '2026-01-01T00:00:01Z')])
+      .mockResolvedValueOnce([entry(3, '2026-01-01T00:00:03Z'), entry(2, '2026-01-01T00:00:02Z')])
+      .mockResolvedValueOnce([entry(3, '2026-01-01T00:00:03Z')]);
+
+    const cursor = new AuditCursor({ user: 'alice', backlog: 10 }, listAudit);
+
+    expect((await cursor.poll()).map(e => e.id)).toEqual([1, 2]);
+    expect(listAudit).toHaveBeenLastCalledWith({ user: 'alice', action: undefined, startDate: undefined, limit: 10 });
+
+    expect((await cursor.poll()).map(e => e.id)).toEqual([3]);
+    expect(listAudit).toHaveBeenLastCalledWith(expect.objectContaining({ startDate: '2026-01-01T00:00:02Z' }));
+
+    expect(await cursor.poll()).toEqual([]);
+    expect(listAudit).toHaveBeenLastCalledWith(expect.objectContaining({ startDate: '2026-01-01T00:00:03Z' }));
+  });
+
+  it('should not drop entries that share the cursor timestamp', async () => {
+    const listAudit = vi.fn()
+      .mockResolvedValueOnce([entry(1, '2026-01-01T00:00:01Z')])
+      .mockResolvedValueOnce([entry(2, '2026-01-01T00:00:01Z'), entry(1, '2026-01-01T00:00:01Z')]);
+
+    const cursor = new AuditCursor({}, listAudit);
+
+    expect((await cursor.poll()).map(e => e.id)).toEqual([1]);
+    expect((await cursor.poll()).map(e => e.id)).toEqual([2]);
+  });
+});
+
+describe('formatAuditLine', () => {
+  it('should quote logfmt values that need it', () => {
+    const line = formatAuditLine({ ...entry(7, '2026-01-01T00:00:00Z'), resource: '/v1/secrets?alias=a b', ip: '10.0.0.1' }, 'logfmt');
+
+    expect(line).toBe('ts=2026-01-01T00:00:00Z id=7 user=alice action=SECRET_READ status=200 resource="/v1/secrets?alias=a b" ip=10.0.0.1');
+  });
+
+  it('should write one JSON object per line', () => {
+    expect(JSON.parse(formatAuditLine(entry(7, '2026-01-01T00:00:00Z'), 'json'))).toMatchObject({ id: 7 });
+  });
+});
@@ -0,0 +1,64 @@
+// Path: znvault-cli/test/lib/bundle.test.ts
+
+import { describe, it, expect } from 'vitest';
+import crypto from 'node:crypto';
+import {
+  sealBundle,
+  openBundle,
+  parseBundle,
+  newPassphraseKey,
+  derivePassphraseKey,
+  type BundlePayload,
+} from '../../src/lib/bundle.js';
+
+const payload: BundlePayload = {
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  secrets: [
+    {
+      alias: 'db/prod/credentials',
+      tenant: 'acme',
+      type: 'credential',
+      tags: ['database'],
+      version: 2,
+      data: { username: 'app', password: 's3cret' },
+    },
+  ],
+};
+
+const kmsKey = { keySource: 'kms' as const, keyId: 'key-1', encryptedKey: 'd3JhcHBlZA==' };
+
+describe('bundle', () => {
+  it('should round-trip a payload with a data key', () => {
+    const contentKey = crypto.randomBytes(32);
+    const bundle = sealBundle(payload, contentKey, kmsKey);
+
+    expect(bundle.count).toBe(1);
+    expect(bundle.ciphertext).not.toContain('s3cret');
+    expect(openBundle(bundle, contentKey)).toEqual(payload);
+  });
+
+  it('should round-trip a payload with a passphrase', () => {
+    const key = newPassphraseKey();
+    const bundle = sealBundle(payload, derivePassphraseKey('correct horse', key), key);
+
+    expect(openBundle(bundle, derivePassphraseKey('correct horse', bundle.key as typeof key))).toEqual(payload);
+    expect(() => openBundle(bundle, derivePassphraseKey('wrong', bundle.key as typeof key)))
+      .toThrow('Unable to decrypt bundle');
+  });
+
+  it('should detect a modified header', () => {
+    const contentKey = crypto.randomBytes(32);
+    const bundle = sealBundle(payload, contentKey, kmsKey);
+
+    expect(() => openBundle({ ...bundle, count: 5 }, contentKey)).toThrow('Unable to decrypt bundle');
+  });
+
+  it('should validate the bundle file', () => {
+    const bundle = sealBundle(payload, crypto.randomBytes(32), kmsKey);
+
+    expect(parseBundle(JSON.stringify(bundle))).toEqual(bundle);
+    expect(() => parseBundle('not json')).toThrow('Invalid bundle: not valid JSON');
+    expect(() => parseBundle('{"format":"other"}')).toThrow('Invalid bundle: unrecognized format');
+    expect(() => parseBundle(JSON.stringify({ ...bundle, version: 9 }))).toThrow('Unsupported bundle version: 9');
+  });
+});
@@ -5,14 +5,19 @@ import { AddressInfo } from 'node:net';
 describe('VaultClient', () => {
   let server: http.Server;
   let serverUrl: string;
+  let hits: Record<string, number>;
 
   beforeEach(async () => {
+    hits = {};
+
     // Create a simple mock server
     server = http.createServer((req, res) => {
       let body = '';
       req.on('data', chunk => body += chunk);
       req.on('end', () => {
         res.setHeader('Content-Type', 'application/json');
+        const hit = `${req.method} ${req.url}`;
+        hits[hit] = (hits[hit] ?? 0) + 1;
 
         if (req.url === '/v1/health') {
           res.end(JSON.stringify({
@@ -52,6 +57,31 @@ describe('VaultClient', () => {
             status: 'NORMAL',
             escalationCount: 0,
           }));
+        } else if (req.url === '/v1/admin/cluster') {
+          const address = server.address() as AddressInfo;
+          res.end(JSON.stringify({
+            enabled: true,
+            nodeId: 'node-2',
+            isLeader: true,
+            leaderNodeId: 'node-2',
+            nodes: [{ nodeId: 'node-2', host: '127.0.0.1', port: address.port, isLeader: true, isHealthy: true }],
+          }));
+        } else if (req.url === '/v1/flaky') {
+          // Unavailable for the first two attempts, like a leader election
+          if (hits[hit] <= 2) {
+            res.statusCode = 503;
+            res.setHeader('Retry-After', '0');
+            res.end(JSON.stringify({ message: 'Leader election in progress' }));
+          } else {
+            res.end(JSON.stringify({ ok: true }));
+          }
+        } else if (req.url === '/v1/missing') {
+          res.statusCode = 404;
+          res.setHeader('X-Request-Id', 'req-123');
+          res.end(JSON.stringify({ error: 'Not Found', message: 'Secret not found', statusCode: 404 }));
+        } else if (req.url === '/v1/broken') {
+          res.statusCode = 500;
+          res.end(JSON.stringify({ message: 'Internal error' }));
         } else {
           res.statusCode = 404;
           res.end(JSON.stringify({ error: 'Not Found', message: 'Endpoint not found' }));
@@ -72,6 +102,10 @@ describe('VaultClient', () => {
 
   afterEach(async () => {
     delete process.env.ZNVAULT_URL;
+    delete process.env.ZNVAULT_URLS;
+    delete process.env.ZNVAULT_RETRIES;
+    delete process.env.ZNVAULT_CA_FILE;
+    delete process.env.ZNVAULT_CLIENT_KEY;
     delete process.env.ZNVAULT_API_KEY;
     await new Promise<void>(resolve => server.close(() => resolve()));
     vi.resetModules();
@@ -139,4 +173,112 @@ describe('VaultClient', () => {
       expect(status.status).toBe('NORMAL');
     });
   });
+
+  describe('errors', () => {
+    it('should reject with a VaultApiError carrying status, code and request ID', async () => {
+      const { VaultClient } = await import('../../src/lib/client.js');
+      const { VaultApiError } = await import('../../src/lib/errors.js');
+      const client = new VaultClient();
+
+      const error = await client.get('/v1/missing').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(VaultApiError);
+      expect(error).toMatchObject({ message: 'Secret not found', status: 404, code: 'Not Found', requestId: 'req-123' });
+    });
+  });
+
+  describe('tls', () => {
+    it('should report unreadable certificate files', async () => {
+      process.env.ZNVAULT_URL = 'https://127.0.0.1:1';
+      process.env.ZNVAULT_CA_FILE = '/nonexistent/ca.pem';
+
+      const { VaultClient } = await import('../../src/lib/client.js');
+      const client = new VaultClient();
+
+      await expect(client.health()).rejects.toThrow('Failed to read CA file /nonexistent/ca.pem');
+    });
+
+    it('should require a client certificate alongside the key', async () => {
+      process.env.ZNVAULT_URL = 'https://127.0.0.1:1';
+      process.env.ZNVAULT_CLIENT_KEY = '/nonexistent/client-key.pem';
+
+      const { VaultClient } = await import('../../src/lib/client.js');
+      const client = new VaultClient();
+
+      await expect(client.health()).rejects.toThrow('clientKey is set but clientCert is missing');
+    });
+  });
+
+  describe('withProfile', () => {
+    it('should refuse to run while environment variables override profiles', async () => {
+      const { withProfile } = await import('../../src/lib/client.js');
+      const fn = vi.fn();
+
+      await expect(withProfile('default', fn)).rejects.toThrow("ZNVAULT_URL overrides profile 'default'");
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry idempotent requests honoring Retry-After', async () => {
+      const { VaultClient } = await import('../../src/lib/client.js');
+      const client = new VaultClient();
+
+      const result = await client.get<{ ok: boolean }>('/v1/flaky');
+
+      expect(result.ok).toBe(true);
+      expect(hits['GET /v1/flaky']).toBe(3);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      process.env.ZNVAULT_RETRIES = '1';
+
+      const { VaultClient } = await import('../../src/lib/client.js');
+      const client = new VaultClient();
+
+      await expect(client.get('/v1/flaky')).rejects.toThrow('Leader election in progress');
+      expect(hits['GET /v1/flaky']).toBe(2);
+    });
+
+    it('should only reject an invalid ZNVAULT_RETRIES once a request is sent', async () => {
+      process.env.ZNVAULT_RETRIES = 'abc';
+
+      const { client } = await import('../../src/lib/client.js');
+      const { exitCodeFor, EXIT_CODES } = await import('../../src/lib/errors.js');
+
+      const error = await client.health().catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(Error);
+      expect((error as Error).message).toBe('ZNVAULT_RETRIES must be a non-negative integer, got "abc"');
+      expect(exitCodeFor(error)).toBe(EXIT_CODES.INVALID_REQUEST);
+      expect(hits['GET /v1/health']).toBeUndefined();
+    });
+
+    it('should not retry non-idempotent requests on server errors', async () => {
+      const { VaultClient } = await import('../../src/lib/client.js');
+      const client = new VaultClient();
+
+      await expect(client.post('/v1/broken', {})).rejects.toThrow('Internal error');
+      expect(hits['POST /v1/broken']).toBe(1);
+    });
+
+    it('should fail over to the leader when a node is down', async () => {
+      // Grab a port with nothing listening on it
+      const closed = http.createServer();
+      await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', () => resolve()));
+      const deadUrl = `http://127.0.0.1:${(closed.address() as AddressInfo).port}`;
+      await new Promise<void>(resolve => closed.close(() => resolve()));
+
+      delete process.env.ZNVAULT_URL;
+      process.env.ZNVAULT_URLS = `${deadUrl},${serverUrl}`;
+
+      const { VaultClient } = await import('../../src/lib/client.js');
+      const client = new VaultClient();
+
+      const health = await client.health();
+
+      expect(health.status).toBe('ok');
+      expect(hits['GET /v1/admin/cluster']).toBe(1);
+      expect(client.getWebSocketUrl('/ws')).toBe(`${serverUrl.replace('http', 'ws')}/ws`);
+    });
+  });
 });
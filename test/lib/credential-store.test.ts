@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import { join } from 'node:path';
+
+// Config file lives in a temp dir (set per test) so the encrypted-file store can write next to it
+vi.mock('conf', () => {
+  const store = new Map<string, unknown>();
+  return {
+    default: class MockConf {
+      path = process.env.ZNVAULT_TEST_CONFIG_PATH ?? '/mock/config/path';
+
+      constructor(options: { defaults?: Record<string, unknown> }) {
+        for (const [key, value] of Object.entries(options.defaults ?? {})) {
+          if (!store.has(key)) store.set(key, structuredClone(value));
+        }
+      }
+
+      get<T>(key: string): T | undefined {
+        return store.get(key) as T | undefined;
+      }
+
+      set(key: string, value: unknown): void {
+        store.set(key, value);
+      }
+
+      delete(key: string): void {
+        store.delete(key);
+      }
+
+      clear(): void {
+        store.clear();
+      }
+    },
+  };
+});
+
+import { createCredentialStore, CREDENTIALS_FILE, CREDENTIALS_KEY_FILE } from '../../src/lib/credential-store.js';
+
+const credentials = {
+  accessToken: 'access-token',
+  refreshToken: 'refresh-token',
+  expiresAt: Date.now() + 3600000,
+  userId: 'user-1',
+  username: 'admin',
+  role: 'admin',
+  tenantId: 'acme',
+};
+
+describe('credential store', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(join(os.tmpdir(), 'znvault-creds-'));
+    process.env.ZNVAULT_TEST_CONFIG_PATH = join(tmpDir, 'config.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    delete process.env.ZNVAULT_TEST_CONFIG_PATH;
+    vi.resetModules();
+  });
+
+  describe('encrypted-file', () => {
+    it('should encrypt secrets with a generated 0600 key file', () => {
+      const store = createCredentialStore({ type: 'encrypted-file', keySource: 'keyfile' }, tmpDir, () => undefined);
+      store?.write('prod', { apiKey: 'znv_secret_key' });
+
+      const filePath = join(tmpDir, CREDENTIALS_FILE);
+      expect(fs.readFileSync(filePath, 'utf-8')).not.toContain('znv_secret_key');
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+      expect(fs.statSync(join(tmpDir, CREDENTIALS_KEY_FILE)).mode & 0o777).toBe(0o600);
+
+      const reopened = createCredentialStore({ type: 'encrypted-file', keySource: 'keyfile' }, tmpDir, () => undefined);
+      expect(reopened?.read('prod')).toEqual({ apiKey: 'znv_secret_key' });
+    });
+
+    it('should require the right passphrase', () => {
+      const settings = { type: 'encrypted-file' as const, keySource: 'passphrase' as const };
+      createCredentialStore(settings, tmpDir, () => 'correct horse')?.write('prod', { credentials });
+
+      expect(createCredentialStore(settings, tmpDir, () => 'correct horse')?.read('prod')).toEqual({ credentials });
+      expect(() => createCredentialStore(settings, tmpDir, () => 'wrong')?.read('prod'))
+        .toThrow('Unable to unlock credential store');
+      expect(() => createCredentialStore(settings, tmpDir, () => undefined)?.read('prod'))
+        .toThrow('Credential store is locked');
+    });
+  });
+
+  describe('migrateCredentialStore', () => {
+    it('should move secrets out of the config file and back', async () => {
+      const config = await import('../../src/lib/config.js');
+      config.storeCredentials(credentials);
+      config.storeApiKey('znv_secret_key', 'key-1', 'ci');
+
+      expect(config.migrateCredentialStore({ type: 'encrypted-file', keySource: 'keyfile' })).toBe(1);
+
+      const configDir = join(config.getConfigPath(), '..');
+      expect(config.getProfile('default')).toMatchObject({ apiKey: 'znv_secret_key', apiKeyName: 'ci', credentials });
+      expect(fs.existsSync(join(configDir, CREDENTIALS_FILE))).toBe(true);
+
+      // Nothing secret is left in the plain profile
+      const { default: Conf } = await import('conf');
+      const raw = new Conf({ projectName: 'znvault' }).get('profiles') as Record<string, Record<string, unknown>>;
+      expect(raw.default.apiKey).toBeUndefined();
+      expect(raw.default.credentials).toBeUndefined();
+
+      config.storeApiKey('znv_rotated_key');
+      expect(config.getApiKey()).toBe('znv_rotated_key');
+      expect(config.getCredentials()).toEqual(credentials);
+
+      expect(config.migrateCredentialStore({ type: 'config' })).toBe(1);
+      expect(raw.default.apiKey).toBe('znv_rotated_key');
+      expect(config.getCredentialStoreSettings()).toEqual({ type: 'config' });
+      expect(fs.existsSync(join(configDir, CREDENTIALS_FILE))).toBe(false);
+      expect(fs.existsSync(join(configDir, CREDENTIALS_KEY_FILE))).toBe(false);
+    });
+
+    it('should re-key the encrypted file when switching key source', async () => {
+      const config = await import('../../src/lib/config.js');
+      config.storeApiKey('znv_secret_key', 'key-1', 'ci');
+      const configDir = join(config.getConfigPath(), '..');
+      const header = (): Record<string, unknown> =>
+        JSON.parse(fs.readFileSync(join(configDir, CREDENTIALS_FILE), 'utf-8')) as Record<string, unknown>;
+
+      config.migrateCredentialStore({ type: 'encrypted-file', keySource: 'keyfile' });
+      expect(header()).toMatchObject({ keySource: 'keyfile' });
+      expect(header().kdf).toBeUndefined();
+      expect(fs.existsSync(join(configDir, CREDENTIALS_KEY_FILE))).toBe(true);
+
+      config.migrateCredentialStore({ type: 'encrypted-file', keySource: 'passphrase' }, 'correct horse');
+      expect(header()).toMatchObject({ keySource: 'passphrase', kdf: expect.anything() });
+      expect(fs.existsSync(join(configDir, CREDENTIALS_KEY_FILE))).toBe(false);
+      const locked = createCredentialStore({ type: 'encrypted-file', keySource: 'passphrase' }, configDir, () => 'correct horse');
+      expect(locked?.read('default')).toMatchObject({ apiKey: 'znv_secret_key' });
+
+      config.migrateCredentialStore({ type: 'encrypted-file', keySource: 'keyfile' });
+      expect(header()).toMatchObject({ keySource: 'keyfile' });
+      expect(header().kdf).toBeUndefined();
+      const unlocked = createCredentialStore({ type: 'encrypted-file', keySource: 'keyfile' }, configDir, () => undefined);
+      expect(unlocked?.read('default')).toMatchObject({ apiKey: 'znv_secret_key' });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+// Path: znvault-cli/test/lib/envelope.test.ts
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { encryptFile, decryptFile, reencryptFile, readEnvelopeHeader, isEnvelopeFile } from '../../src/lib/envelope.js';
+
+const keyInfo = {
+  keyId: 'key-001',
+  keyVersion: 'v2',
+  encryptedKey: 'd3JhcHBlZA==',
+  context: { purpose: 'backup' },
+};
+
+describe('envelope', () => {
+  let dir: string;
+  let dataKey: Buffer;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-envelope-'));
+    dataKey = crypto.randomBytes(32);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function file(name: string, content?: Buffer): string {
+    const filePath = path.join(dir, name);
+    if (content) fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it('should round-trip a file over several chunks', async () => {
+    const plaintext = crypto.randomBytes(1000);
+    const progress: number[] = [];
+
+    await encryptFile(file('data.bin', plaintext), file('data.bin.znve'), dataKey, keyInfo, {
+      chunkSize: 64,
+      onProgress: done => progress.push(done),
+    });
+    const header = await decryptFile(file('data.bin.znve'), file('out.bin'), dataKey);
+
+    expect(fs.readFileSync(file('out.bin'))).toEqual(plaintext);
+    expect(progress).toHaveLength(16);
+    expect(progress.at(-1)).toBe(1000);
+    expect(header).toMatchObject({ algorithm: 'AES-256-GCM', ...keyInfo, chunkSize: 64 });
+  });
+
+  it('should write a readable header', async () => {
+    await encryptFile(file('data.bin', Buffer.from('hello')), file('data.bin.znve'), dataKey, keyInfo);
+
+    const raw = fs.readFileSync(file('data.bin.znve'));
+    const { header, dataOffset } = await readEnvelopeHeader(file('data.bin.znve'));
+
+    expect(raw.subarray(0, 4).toString('ascii')).toBe('ZNVE');
+    expect(raw[4]).toBe(1);
+    expect(header.keyVersion).toBe('v2');
+    expect(header.context).toEqual({ purpose: 'backup' });
+    expect(raw.length).toBe(dataOffset + 5 + 16);
+  });
+
+  it('should handle an empty file', async () => {
+    await encryptFile(file('empty', Buffer.alloc(0)), file('empty.znve'), dataKey, keyInfo);
+    await decryptFile(file('empty.znve'), file('out'), dataKey);
+
+    expect(fs.readFileSync(file('out'))).toHaveLength(0);
+  });
+
+  it('should re-encrypt a file in place under a new data key', async () => {
+    const plaintext = crypto.randomBytes(500);
+    const newKey = crypto.randomBytes(32);
+    await encryptFile(file('data.bin', plaintext), file('data.bin.znve'), dataKey, keyInfo, { chunkSize: 128 });
+
+    const header = await reencryptFile(file('data.bin.znve'), file('data.bin.znve'), dataKey, newKey, {
+      ...keyInfo,
+      keyId: 'key-002',
+      keyVersion: 'v1',
+    });
+
+    expect(header).toMatchObject({ keyId: 'key-002', keyVersion: 'v1', chunkSize: 128 });
+    await expect(decryptFile(file('data.bin.znve'), file('old.bin'), dataKey)).rejects.toThrow(/Authentication failed/);
+    await decryptFile(file('data.bin.znve'), file('out.bin'), newKey);
+    expect(fs.readFileSync(file('out.bin'))).toEqual(plaintext);
+    expect(isEnvelopeFile(file('data.bin.znve'))).toBe(true);
+    expect(isEnvelopeFile(file('data.bin'))).toBe(false);
+  });
+
+  describe('tampering', () => {
+    let encrypted: Buffer;
+
+    beforeEach(async () => {
+      await encryptFile(file('data.bin', crypto.randomBytes(300)), file('data.bin.znve'), dataKey, keyInfo, { chunkSize: 100 });
+      encrypted = fs.readFileSync(file('data.bin.znve'));
+    });
+
+    async function expectRejected(content: Buffer, message: RegExp): Promise<void> {
+      fs.writeFileSync(file('bad.znve'), content);
+      await expect(decryptFile(file('bad.znve'), file('out.bin'), dataKey)).rejects.toThrow(message);
+      expect(fs.readdirSync(dir).filter(name => name.startsWith('out') || name.startsWith('.out'))).toEqual([]);
+    }
+
+    it('should reject a modified chunk', async () => {
+      const tampered = Buffer.from(encrypted);
+      tampered[tampered.length - 40] ^= 0x01;
+      await expectRejected(tampered, /Authentication failed at chunk 2/);
+    });
+
+    it('should reject a modified header', async () => {
+      const tampered = Buffer.from(encrypted.toString('latin1').replace('"v2"', '"v3"'), 'latin1');
+      await expectRejected(tampered, /Authentication failed at chunk 0/);
+    });
+
+    it('should reject a file with its last chunk dropped', async () => {
+      await expectRejected(encrypted.subarray(0, encrypted.length - 116), /Authentication failed/);
+    });
+
+    it('should reject a truncated chunk', async () => {
+      await expectRejected(encrypted.subarray(0, encrypted.length - 10), /Authentication failed/);
+    });
+
+    it('should reject appended data', async () => {
+      await expectRejected(Buffer.concat([encrypted, Buffer.alloc(116)]), /Authentication failed/);
+    });
+
+    it('should reject the wrong data key', async () => {
+      dataKey = crypto.randomBytes(32);
+      await expectRejected(encrypted, /Authentication failed at chunk 0/);
+    });
+  });
+
+  it('should reject files that are not envelopes', async () => {
+    await expect(readEnvelopeHeader(file('plain.txt', Buffer.from('just some text')))).rejects.toThrow(/Not an envelope-encrypted file/);
+    await expect(readEnvelopeHeader(file('short', Buffer.from('ZN')))).rejects.toThrow(/Not an envelope-encrypted file/);
+  });
+
+  it('should reject an invalid chunk size', async () => {
+    await expect(encryptFile(file('data.bin', Buffer.from('x')), file('out.znve'), dataKey, keyInfo, { chunkSize: 0 }))
+      .rejects.toThrow(/Chunk size must be between/);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../src/lib/output.js', () => ({
+  error: vi.fn(),
+}));
+
+import { VaultApiError, EXIT_CODES, exitCodeFor, errorBody, exitWithError, setJsonErrors } from '../../src/lib/errors.js';
+import * as output from '../../src/lib/output.js';
+
+describe('errors', () => {
+  describe('exitCodeFor', () => {
+    it('should map HTTP statuses to stable exit codes', () => {
+      const codeFor = (status: number) => exitCodeFor(new VaultApiError('x', { status }));
+
+      expect(codeFor(401)).toBe(EXIT_CODES.AUTH);
+      expect(codeFor(403)).toBe(EXIT_CODES.FORBIDDEN);
+      expect(codeFor(404)).toBe(EXIT_CODES.NOT_FOUND);
+      expect(codeFor(409)).toBe(EXIT_CODES.CONFLICT);
+      expect(codeFor(422)).toBe(EXIT_CODES.INVALID_REQUEST);
+      expect(codeFor(429)).toBe(EXIT_CODES.RATE_LIMITED);
+      expect(codeFor(503)).toBe(EXIT_CODES.SERVER_ERROR);
+      expect(codeFor(418)).toBe(EXIT_CODES.GENERAL);
+    });
+
+    it('should map connection failures and plain errors', () => {
+      const refused = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+
+      expect(exitCodeFor(refused)).toBe(EXIT_CODES.UNAVAILABLE);
+      expect(exitCodeFor(new Error('boom'))).toBe(EXIT_CODES.GENERAL);
+      expect(exitCodeFor('boom')).toBe(EXIT_CODES.GENERAL);
+    });
+  });
+
+  describe('exitWithError', () => {
+    let exitSpy: ReturnType<typeof vi.spyOn>;
+    let stderrSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+      stderrSpy = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+      setJsonErrors(false);
+      exitSpy.mockRestore();
+      stderrSpy.mockRestore();
+      vi.clearAllMocks();
+    });
+
+    it('should print the message with the request ID and exit with the mapped code', () => {
+      const error = new VaultApiError('Secret not found', { status: 404, code: 'Not Found', requestId: 'req-1' });
+
+      expect(() => exitWithError(error)).toThrow('process.exit');
+
+      expect(output.error).toHaveBeenCalledWith('Secret not found (request req-1)');
+      expect(exitSpy).toHaveBeenCalledWith(EXIT_CODES.NOT_FOUND);
+    });
+
+    it('should write a JSON body to stderr in JSON mode', () => {
+      const error = new VaultApiError('Permission denied', { status: 403, code: 'Forbidden', requestId: 'req-2' });
+      setJsonErrors(true);
+
+      expect(() => exitWithError(error)).toThrow('process.exit');
+
+      expect(output.error).not.toHaveBeenCalled();
+      expect(JSON.parse(String(stderrSpy.mock.calls[0][0]))).toEqual(errorBody(error));
+      expect(errorBody(error)).toEqual({
+        error: { message: 'Permission denied', exitCode: 3, status: 403, code: 'Forbidden', requestId: 'req-2' },
+      });
+      expect(exitSpy).toHaveBeenCalledWith(EXIT_CODES.FORBIDDEN);
+    });
+  });
+});
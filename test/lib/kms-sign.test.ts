@@ -0,0 +1,105 @@
+// Path: znvault-cli/test/lib/kms-sign.test.ts
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  parseSigningAlgorithm,
+  digestAlgorithm,
+  digestFile,
+  digestJwsSigningInput,
+  jwsHeader,
+  toDetachedJws,
+  parseDetachedJws,
+  derToJose,
+  joseToDer,
+  exportPublicKey,
+} from '../../src/lib/kms-sign.js';
+
+describe('kms signing helpers', () => {
+  let dir: string;
+  let file: string;
+  let content: Buffer;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'znvault-sign-'));
+    file = path.join(dir, 'release.tar');
+    // Not a multiple of 3 or of the stream chunk size
+    content = crypto.randomBytes(200_001);
+    fs.writeFileSync(file, content);
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should parse signing algorithms', () => {
+    expect(parseSigningAlgorithm('rsassa_pss_sha_256')).toBe('RSASSA_PSS_SHA_256');
+    expect(digestAlgorithm('ECDSA_SHA_384')).toBe('sha384');
+    expect(() => parseSigningAlgorithm('RSA_MD5')).toThrow(/Unsupported signing algorithm/);
+  });
+
+  it('should digest a file', async () => {
+    const digest = await digestFile(file, 'RSASSA_PKCS1_V1_5_SHA_512');
+    expect(digest).toEqual(crypto.createHash('sha512').update(content).digest());
+  });
+
+  it('should digest the JWS signing input without loading the file', async () => {
+    const header = jwsHeader('RSASSA_PSS_SHA_256', 'key-001');
+    const digest = await digestJwsSigningInput(header, file, 'RSASSA_PSS_SHA_256');
+
+    expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ alg: 'PS256', kid: 'key-001' });
+    expect(digest).toEqual(crypto.createHash('sha256').update(`${header}.${content.toString('base64url')}`).digest());
+  });
+
+  it('should produce RSA JWS signatures that verify as standard JWS', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const header = jwsHeader('RSASSA_PKCS1_V1_5_SHA_256', 'key-001');
+    const signingInput = `${header}.${content.toString('base64url')}`;
+    const signature = crypto.sign('sha256', Buffer.from(signingInput), privateKey);
+
+    const jws = toDetachedJws(header, signature, 'RSASSA_PKCS1_V1_5_SHA_256');
+    const parsed = parseDetachedJws(jws);
+
+    expect(jws.split('.')[1]).toBe('');
+    expect(parsed.algorithm).toBe('RSASSA_PKCS1_V1_5_SHA_256');
+    expect(parsed.header.kid).toBe('key-001');
+    expect(crypto.verify('sha256', Buffer.from(signingInput), publicKey, parsed.signature)).toBe(true);
+  });
+
+  it('should convert ECDSA signatures between DER and JWS encodings', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const data = Buffer.from('payload');
+
+    for (let i = 0; i < 20; i++) {
+      const der = crypto.sign('sha256', data, privateKey);
+      const jose = derToJose(der, 'ES256');
+
+      expect(jose).toHaveLength(64);
+      expect(crypto.verify('sha256', data, { key: publicKey, dsaEncoding: 'ieee-p1363' }, jose)).toBe(true);
+      expect(joseToDer(jose, 'ES256')).toEqual(der);
+    }
+  });
+
+  it('should reject malformed JWS', () => {
+    expect(() => parseDetachedJws('a.b.c')).toThrow(/Not a detached JWS/);
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256' })).toString('base64url');
+    expect(() => parseDetachedJws(`${header}..c2ln`)).toThrow(/Unsupported JWS algorithm/);
+  });
+
+  it('should export public keys as PEM, JWK and DER', () => {
+    const { publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-384' });
+    const der = publicKey.export({ type: 'spki', format: 'der' });
+
+    expect(exportPublicKey(der.toString('base64'), 'pem')).toBe(publicKey.export({ type: 'spki', format: 'pem' }));
+    expect(exportPublicKey(der.toString('base64'), 'der')).toEqual(der);
+    expect(JSON.parse(exportPublicKey(der.toString('base64'), 'jwk', 'key-001') as string)).toMatchObject({
+      kty: 'EC',
+      crv: 'P-384',
+      kid: 'key-001',
+      use: 'sig',
+    });
+  });
+});
@@ -0,0 +1,62 @@
+// Path: znvault-cli/test/lib/secret-diff.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffSecretData,
+  diffEnvironments,
+  hashSecretData,
+  parseVersion,
+  valueHash,
+} from '../../src/lib/secret-diff.js';
+
+describe('secret diff', () => {
+  it('should diff data key by key', () => {
+    const changes = diffSecretData(
+      { username: 'app', password: 'old', port: 5432, opts: { ssl: true, pool: 5 } },
+      { username: 'app', password: 'new', host: 'db', opts: { pool: 5, ssl: true } }
+    );
+
+    expect(changes).toEqual([
+      { key: 'host', change: 'added', to: 'db' },
+      { key: 'opts', change: 'unchanged', from: { ssl: true, pool: 5 }, to: { pool: 5, ssl: true } },
+      { key: 'password', change: 'changed', from: 'old', to: 'new' },
+      { key: 'port', change: 'removed', from: 5432 },
+      { key: 'username', change: 'unchanged', from: 'app', to: 'app' },
+    ]);
+  });
+
+  it('should parse versions with or without a v prefix', () => {
+    expect(parseVersion('v3')).toBe(3);
+    expect(parseVersion('12')).toBe(12);
+    expect(() => parseVersion('v0')).toThrow('Invalid version');
+    expect(() => parseVersion('latest')).toThrow('Invalid version');
+  });
+
+  it('should hash values independently of key order', () => {
+    expect(valueHash({ a: 1, b: 2 })).toBe(valueHash({ b: 2, a: 1 }));
+    expect(valueHash('secret')).not.toContain('secret');
+  });
+
+  it('should compare environments by alias without values', () => {
+    const staging = new Map([
+      ['app/db', hashSecretData({ user: 'app', password: 'staging-pw' })],
+      ['app/api', hashSecretData({ key: 'k1' })],
+      ['app/staging-only', hashSecretData({ x: 1 })],
+    ]);
+    const prod = new Map([
+      ['app/db', hashSecretData({ user: 'app', password: 'prod-pw', replica: 'db2' })],
+      ['app/api', hashSecretData({ key: 'k1' })],
+      ['app/prod-only', hashSecretData({ y: 1 })],
+    ]);
+
+    const diffs = diffEnvironments(staging, prod);
+
+    expect(diffs).toEqual([
+      { alias: 'app/api', status: 'same', onlyLeft: [], onlyRight: [], different: [] },
+      { alias: 'app/db', status: 'different', onlyLeft: [], onlyRight: ['replica'], different: ['password'] },
+      { alias: 'app/prod-only', status: 'only-right', onlyLeft: [], onlyRight: ['y'], different: [] },
+      { alias: 'app/staging-only', status: 'only-left', onlyLeft: ['x'], onlyRight: [], different: [] },
+    ]);
+    expect(JSON.stringify(diffs)).not.toContain('pw');
+  });
+});
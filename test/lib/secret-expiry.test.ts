@@ -0,0 +1,75 @@
+// Path: znvault-cli/test/lib/secret-expiry.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  classifySecret,
+  findExpiringSecrets,
+  expiryCheckStatus,
+  expirySummary,
+  CHECK_EXIT_CODES,
+} from '../../src/lib/secret-expiry.js';
+import type { SecretMetadata } from '../../src/types/index.js';
+
+const now = new Date('2026-06-01T12:00:00Z');
+const thresholds = { warningDays: 30, criticalDays: 7, rotationDays: 90 };
+
+function daysFromNow(days: number): string {
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function secret(alias: string, fields: Partial<SecretMetadata> = {}): SecretMetadata {
+  return {
+    id: `id-${alias}`,
+    alias,
+    tenant: 'acme',
+    type: 'credential',
+    version: 1,
+    createdAt: daysFromNow(-10),
+    updatedAt: daysFromNow(-10),
+    ...fields,
+  };
+}
+
+describe('secret expiry', () => {
+  it('should classify by expiry and rotation age', () => {
+    expect(classifySecret(secret('a', { expiresAt: daysFromNow(-1) }), thresholds, now)?.urgency).toBe('expired');
+    expect(classifySecret(secret('b', { expiresAt: daysFromNow(3) }), thresholds, now)?.urgency).toBe('critical');
+    expect(classifySecret(secret('c', { ttlUntil: daysFromNow(20) }), thresholds, now)?.urgency).toBe('warning');
+    expect(classifySecret(secret('d', { updatedAt: daysFromNow(-120) }), thresholds, now)?.urgency).toBe('rotation');
+    expect(classifySecret(secret('e', { expiresAt: daysFromNow(60) }), thresholds, now)).toBeUndefined();
+  });
+
+  it('should use the earlier of expiresAt and ttlUntil', () => {
+    const item = classifySecret(secret('a', { expiresAt: daysFromNow(60), ttlUntil: daysFromNow(5.5) }), thresholds, now);
+
+    expect(item).toMatchObject({ urgency: 'critical', daysLeft: 5, expiresAt: daysFromNow(5.5) });
+  });
+
+  it('should not flag rotation when disabled', () => {
+    expect(classifySecret(secret('d', { updatedAt: daysFromNow(-400) }), { ...thresholds, rotationDays: 0 }, now)).toBeUndefined();
+  });
+
+  it('should sort the most urgent first', () => {
+    const items = findExpiringSecrets([
+      secret('rotate', { updatedAt: daysFromNow(-200) }),
+      secret('soon', { expiresAt: daysFromNow(20) }),
+      secret('sooner', { expiresAt: daysFromNow(10) }),
+      secret('gone', { expiresAt: daysFromNow(-2) }),
+      secret('fine'),
+    ], thresholds, now);
+
+    expect(items.map(i => i.alias)).toEqual(['gone', 'sooner', 'soon', 'rotate']);
+  });
+
+  it('should map findings to Nagios status', () => {
+    const warning = findExpiringSecrets([secret('soon', { expiresAt: daysFromNow(20) })], thresholds, now);
+    const critical = findExpiringSecrets([secret('gone', { expiresAt: daysFromNow(-2) })], thresholds, now);
+
+    expect(expiryCheckStatus([])).toBe('ok');
+    expect(expiryCheckStatus(warning)).toBe('warning');
+    expect(expiryCheckStatus(critical)).toBe('critical');
+    expect(CHECK_EXIT_CODES[expiryCheckStatus(critical)]).toBe(2);
+    expect(expirySummary(critical)).toBe('SECRETS CRITICAL - 1 expired, 0 critical, 0 warning, 0 rotation overdue');
+    expect(expirySummary([])).toBe('SECRETS OK - no secrets expiring or overdue for rotation');
+  });
+});
@@ -0,0 +1,63 @@
+// Path: znvault-cli/test/lib/template.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { parseTemplate, renderTemplate } from '../../src/lib/template.js';
+
+describe('template', () => {
+  const resolvers = {
+    secret: vi.fn().mockImplementation((secret: string, field?: string) =>
+      Promise.resolve(field ? `${secret}:${field}` : secret)),
+    kmsDecrypt: vi.fn().mockImplementation((keyId: string, ciphertext: string) =>
+      Promise.resolve(`${keyId}(${ciphertext})`)),
+  };
+
+  describe('parseTemplate', () => {
+    it('should find placeholders with their line numbers', () => {
+      const actions = parseTemplate('a={{ secret "db/prod" "password" }}\nb={{kms-decrypt "key-1" "Y2lwaGVy"}}\n');
+
+      expect(actions).toHaveLength(2);
+      expect(actions[0]).toMatchObject({ name: 'secret', args: ['db/prod', 'password'], line: 1 });
+      expect(actions[1]).toMatchObject({ name: 'kms-decrypt', args: ['key-1', 'Y2lwaGVy'], line: 2 });
+    });
+
+    it('should unescape quoted arguments', () => {
+      const [action] = parseTemplate('{{ secret "odd\\"alias" }}');
+
+      expect(action.args).toEqual(['odd"alias']);
+    });
+
+    it('should reject unknown functions', () => {
+      expect(() => parseTemplate('\n{{ env "HOME" }}')).toThrow('Unknown template function "env" on line 2');
+    });
+
+    it('should reject wrong argument counts', () => {
+      expect(() => parseTemplate('{{ kms-decrypt "key-1" }}')).toThrow('"kms-decrypt" expects 2-3 argument(s) on line 1');
+    });
+
+    it('should reject malformed placeholders', () => {
+      expect(() => parseTemplate('ok\n{{ secret db/prod }}')).toThrow('Malformed placeholder near line 2');
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should replace placeholders and keep surrounding text', async () => {
+      const result = await renderTemplate(
+        'user={{ secret "db/prod" "user" }}\ntoken={{ secret "api/token" }}\nkey={{ kms-decrypt "k1" "abc" "purpose=db" }}\n',
+        resolvers
+      );
+
+      expect(result).toBe('user=db/prod:user\ntoken=api/token\nkey=k1(abc)\n');
+      expect(resolvers.kmsDecrypt).toHaveBeenCalledWith('k1', 'abc', 'purpose=db');
+    });
+
+    it('should leave templates without placeholders unchanged', async () => {
+      await expect(renderTemplate('plain: true\n', resolvers)).resolves.toBe('plain: true\n');
+    });
+
+    it('should prefix resolver errors with the line number', async () => {
+      const failing = { ...resolvers, secret: () => Promise.reject(new Error('Secret not found: x/y')) };
+
+      await expect(renderTemplate('\n\n{{ secret "x/y" }}', failing)).rejects.toThrow('Line 3: Secret not found: x/y');
+    });
+  });
+});
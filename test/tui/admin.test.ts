@@ -0,0 +1,94 @@
+// Path: znvault-cli/test/tui/admin.test.ts
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('../../src/lib/mode.js', () => ({
+  getMode: vi.fn().mockReturnValue('api'),
+  unlockUser: vi.fn().mockResolvedValue({ success: true, message: 'unlocked locally' }),
+  disableTotp: vi.fn().mockResolvedValue({ success: true, message: 'totp disabled locally' }),
+  resetPassword: vi.fn().mockResolvedValue({ success: true, message: 'reset locally' }),
+}));
+
+vi.mock('../../src/lib/client.js', () => ({
+  client: {
+    unlockUser: vi.fn().mockResolvedValue({ message: 'User unlocked' }),
+    updateUser: vi.fn().mockResolvedValue({}),
+    disableUserTotp: vi.fn().mockRejectedValue(new Error('Forbidden')),
+    resetUserPassword: vi.fn().mockResolvedValue({}),
+    setApiKeyEnabled: vi.fn().mockResolvedValue({}),
+    rotateApiKey: vi.fn().mockResolvedValue({ key: 'znv_new_key' }),
+  },
+}));
+
+import {
+  unlockUser,
+  lockUser,
+  disableUserTotp,
+  resetUserPassword,
+  rotateApiKey,
+  isUserLocked,
+  daysUntil,
+  expiryColor,
+} from '../../src/tui/utils/admin.js';
+import type { User, APIKey } from '../../src/types/index.js';
+
+const user: User = {
+  id: 'user-1',
+  username: 'alice',
+  role: 'user',
+  status: 'locked',
+  totpEnabled: true,
+  failedAttempts: 5,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+describe('TUI admin actions', () => {
+  afterEach(async () => {
+    const mode = await import('../../src/lib/mode.js');
+    vi.mocked(mode.getMode).mockReturnValue('api');
+    vi.clearAllMocks();
+  });
+
+  it('should use the API by id in API mode', async () => {
+    const { client } = await import('../../src/lib/client.js');
+
+    expect(await unlockUser(user)).toEqual({ success: true, message: 'User unlocked' });
+    expect(client.unlockUser).toHaveBeenCalledWith('user-1');
+
+    expect(await resetUserPassword(user, 'new-password')).toEqual({ success: true, message: 'Password reset for alice' });
+    expect(client.resetUserPassword).toHaveBeenCalledWith('user-1', 'new-password');
+  });
+
+  it('should report API errors as failed results', async () => {
+    expect(await disableUserTotp(user)).toEqual({ success: false, message: 'Forbidden' });
+  });
+
+  it('should use the local database by username in local mode', async () => {
+    const mode = await import('../../src/lib/mode.js');
+    const { client } = await import('../../src/lib/client.js');
+    vi.mocked(mode.getMode).mockReturnValue('local');
+
+    expect(await unlockUser(user)).toEqual({ success: true, message: 'unlocked locally' });
+    expect(mode.unlockUser).toHaveBeenCalledWith('alice');
+    expect((await lockUser(user)).success).toBe(false);
+    expect(client.updateUser).not.toHaveBeenCalled();
+  });
+
+  it('should return a rotated key once in the message', async () => {
+    const key = { id: 'key-1', name: 'ci', tenant_id: 'acme' } as APIKey;
+
+    expect(await rotateApiKey(key)).toEqual({ success: true, message: 'New key for ci: znv_new_key' });
+  });
+
+  it('should flag locked users and expiring keys', () => {
+    const now = Date.parse('2026-06-01T00:00:00Z');
+
+    expect(isUserLocked(user)).toBe(true);
+    expect(isUserLocked({ ...user, status: 'active' })).toBe(false);
+    expect(daysUntil('2026-06-11T00:00:00Z', now)).toBe(10);
+    expect(expiryColor('2026-06-11T00:00:00Z', now)).toBe('yellow');
+    expect(expiryColor('2026-05-31T00:00:00Z', now)).toBe('red');
+    expect(expiryColor('2026-09-01T00:00:00Z', now)).toBeUndefined();
+  });
+});
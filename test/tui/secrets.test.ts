@@ -0,0 +1,77 @@
+// Path: znvault-cli/test/tui/secrets.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSecretTree,
+  flattenSecretTree,
+  filterSecrets,
+  fuzzyMatch,
+  clipboardText,
+  osc52,
+} from '../../src/tui/utils/secrets.js';
+import type { SecretMetadata } from '../../src/types/index.js';
+
+function secret(alias: string): SecretMetadata {
+  return {
+    id: alias,
+    alias,
+    tenant: 'acme',
+    type: 'opaque',
+    version: 1,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  };
+}
+
+const secrets = ['prod/db/password', 'prod/api-key', 'staging/db/password', 'readme'].map(secret);
+
+describe('secret browser helpers', () => {
+  describe('tree', () => {
+    it('should group aliases into folders, folders first', () => {
+      const tree = buildSecretTree(secrets);
+
+      expect(tree.map(n => n.path)).toEqual(['prod/', 'staging/', 'readme']);
+      expect(tree[0].children.map(n => n.path)).toEqual(['prod/db/', 'prod/api-key']);
+    });
+
+    it('should only show children of expanded folders', () => {
+      const tree = buildSecretTree(secrets);
+
+      const collapsed = flattenSecretTree(tree, new Set());
+      expect(collapsed.map(r => r.node.path)).toEqual(['prod/', 'staging/', 'readme']);
+
+      const rows = flattenSecretTree(tree, new Set(['prod/']));
+      expect(rows.map(r => `${String(r.depth)}:${r.node.name}`)).toEqual([
+        '0:prod', '1:db', '1:api-key', '0:staging', '0:readme',
+      ]);
+
+      expect(flattenSecretTree(tree, new Set(), true)).toHaveLength(8);
+    });
+  });
+
+  describe('filter', () => {
+    it('should match subsequences case-insensitively', () => {
+      expect(fuzzyMatch('PDP', 'prod/db/password')).not.toBeNull();
+      expect(fuzzyMatch('xyz', 'prod/db/password')).toBeNull();
+    });
+
+    it('should rank consecutive matches first', () => {
+      const result = filterSecrets(secrets, 'db');
+
+      expect(result.map(s => s.alias)).toEqual(['prod/db/password', 'staging/db/password']);
+      expect(filterSecrets(secrets, 'apikey').map(s => s.alias)).toEqual(['prod/api-key']);
+    });
+  });
+
+  describe('clipboard', () => {
+    it('should copy a single field raw and anything else as JSON', () => {
+      expect(clipboardText({ password: 's3cret' })).toBe('s3cret');
+      expect(clipboardText({ username: 'app', password: 's3cret' })).toContain('"username": "app"');
+    });
+
+    it('should encode OSC 52 sequences', () => {
+      expect(osc52('hi', false)).toBe('\x1b]52;c;aGk=\x07');
+      expect(osc52('hi', true)).toBe('\x1bPtmux;\x1b\x1b]52;c;aGk=\x07\x1b\\');
+    });
+  });
+});